@@ -1,5 +1,6 @@
 import express from 'express';
 import geminiAdviceHandler from './api/gemini-advice.js';
+import coachChatHandler from './api/coach-chat.js';
 
 const app = express();
 const port = 3001;
@@ -7,13 +8,19 @@ const port = 3001;
 // Middleware to parse JSON bodies
 app.use(express.json());
 
-// Route for the OpenAI advice API
-// The handler function in api/openai-advice.js already handles CORS and method checks.
+// Route for the AI advice API; the provider is chosen with AI_PROVIDER.
+// Clients that accept text/event-stream get the reply streamed as SSE.
+// The handler function in api/gemini-advice.js already handles CORS and method checks.
 app.all('/api/gemini-advice', async (req, res) => {
   // Pass the Express req and res objects directly to the serverless handler
   await geminiAdviceHandler(req, res);
 });
 
+// Route for follow-up questions to the AI coach about the current hand
+app.all('/api/coach-chat', async (req, res) => {
+  await coachChatHandler(req, res);
+});
+
 // Start the server
 app.listen(port, () => {
   console.log(`API server listening at http://localhost:${port}`);
@@ -0,0 +1,101 @@
+/**
+ * Validated advice generation with a repair loop
+ *
+ * The model's reply is parsed and checked against the advice schema. An
+ * invalid reply is sent back to the model with the list of problems and a
+ * request to answer again, up to MAX_ADVICE_ATTEMPTS replies in all.
+ * When streaming, every reply is passed on token by token as it arrives and
+ * is only validated once complete.
+ */
+
+import { ProviderError } from '../_providers/index.js';
+import { getActionLabel, parseAdviceJSON, validateAdvice } from './schema.js';
+
+export const MAX_ADVICE_ATTEMPTS = 3;
+
+/**
+ * Repair instruction for an invalid reply
+ */
+function buildRepairPrompt(errors) {
+  return `Your reply does not match the required format:
+${errors.map((error) => `- ${error}`).join('\n')}
+
+Reply again with only the corrected JSON object (recommendation, reasoning, confidence, riskLevel) and no other text.`;
+}
+
+/**
+ * Rules appended to the system prompt for the actions legal right now
+ *
+ * @param {string[]} legalActions Canonical actions (empty: any)
+ * @returns {string}
+ */
+export function describeLegalActions(legalActions) {
+  return legalActions.length > 0
+    ? ` The recommendation must be exactly one of: ${legalActions.map(getActionLabel).join(', ')}.`
+    : '';
+}
+
+/**
+ * Hooks for streaming the replies as they are generated
+ *
+ * @typedef {Object} AdviceStreamHooks
+ * @property {(text: string, attempt: number) => void} onToken Receives each piece of reply text
+ * @property {(attempt: number, errors: string[]) => void} [onRetry] Called before asking again after an invalid reply
+ */
+
+/**
+ * Ask the provider for advice until it returns a reply that passes the schema
+ *
+ * @param {import('../_providers/index.js').AIProvider} provider
+ * @param {{ system: string, prompt: string, legalActions: string[], maxTokens: number, temperature: number, signal?: AbortSignal }} request
+ * @param {AdviceStreamHooks} [hooks] Stream the replies instead of waiting for each one
+ * @returns {Promise<{ advice: object, attempts: number }>} Validated advice and the replies it took
+ * @throws {ProviderError} When every attempt is invalid
+ */
+export async function generateAdvice(provider, { system, prompt, legalActions, maxTokens, temperature, signal }, hooks) {
+  const messages = [{ role: 'user', content: prompt }];
+  let errors = [];
+
+  for (let attempt = 1; attempt <= MAX_ADVICE_ATTEMPTS; attempt++) {
+    const request = {
+      system: system + describeLegalActions(legalActions),
+      messages,
+      maxTokens,
+      temperature,
+      json: true,
+      signal,
+    };
+
+    let reply = '';
+    if (hooks) {
+      for await (const text of provider.stream(request)) {
+        reply += text;
+        hooks.onToken(text, attempt);
+      }
+    } else {
+      reply = await provider.generate(request);
+    }
+    console.log(`🎯 ${provider.name} reply (attempt ${attempt}):`, reply.substring(0, 100) + '...');
+
+    try {
+      const result = validateAdvice(parseAdviceJSON(reply), legalActions);
+      if (result.ok) {
+        return { advice: result.advice, attempts: attempt };
+      }
+      errors = result.errors;
+    } catch {
+      errors = ['the reply is not valid JSON'];
+    }
+
+    console.warn(`⚠️ Invalid advice from ${provider.name} (attempt ${attempt}/${MAX_ADVICE_ATTEMPTS}): ${errors.join('; ')}`);
+    if (attempt < MAX_ADVICE_ATTEMPTS) {
+      hooks?.onRetry?.(attempt + 1, errors);
+    }
+    messages.push(
+      { role: 'assistant', content: reply },
+      { role: 'user', content: buildRepairPrompt(errors) },
+    );
+  }
+
+  throw new ProviderError(`${provider.name} returned invalid advice after ${MAX_ADVICE_ATTEMPTS} attempts: ${errors.join('; ')}`);
+}
@@ -0,0 +1,130 @@
+/**
+ * AI Advice Schema for the Ultimate Texas Hold'em Advisor
+ *
+ * Checks a model reply against the `AIAdvice` shape the client renders and
+ * maps its free-text recommendation onto the canonical action enum the
+ * local EV engine uses (`UTHAction`), so the two can be compared.
+ */
+
+/**
+ * Canonical actions, as in `src/utils/expectedValue.ts`
+ */
+export const ADVICE_ACTIONS = ['bet4x', 'bet3x', 'bet2x', 'bet1x', 'check', 'fold'];
+
+export const CONFIDENCE_LEVELS = ['high', 'medium', 'low'];
+
+export const RISK_LEVELS = ['conservative', 'moderate', 'aggressive'];
+
+// Longest reasoning kept, in characters
+const MAX_REASONING_LENGTH = 800;
+
+/**
+ * Display label of a canonical action, e.g. "bet4x" -> "Bet 4x"
+ *
+ * @param {string} action Canonical action
+ * @returns {string}
+ */
+export function getActionLabel(action) {
+  const bet = /^bet(\d)x$/.exec(action);
+  if (bet) return `Bet ${bet[1]}x`;
+  return action.charAt(0).toUpperCase() + action.slice(1);
+}
+
+/**
+ * Map a free-text recommendation onto a canonical action
+ *
+ * Understands "Bet 4x", "Raise 3x", "Play 1x", "4x", "Check", "Fold";
+ * a text naming more than one action is ambiguous.
+ *
+ * @param {string} recommendation Recommendation text
+ * @returns {string | null} Canonical action, or null when none or several are named
+ */
+export function normalizeAction(recommendation) {
+  const text = recommendation.toLowerCase();
+  const found = new Set();
+
+  for (const match of text.matchAll(/\b([1-4])\s*x\b/g)) {
+    found.add(`bet${match[1]}x`);
+  }
+  if (/\bcheck(s|ing)?\b/.test(text)) found.add('check');
+  if (/\bfold(s|ing)?\b/.test(text)) found.add('fold');
+
+  return found.size === 1 ? [...found][0] : null;
+}
+
+/**
+ * Pull the JSON object out of a model reply, tolerating code fences and
+ * text around it
+ *
+ * @param {string} text Model reply
+ * @returns {unknown} Parsed value
+ * @throws {SyntaxError} When no JSON object can be parsed
+ */
+export function parseAdviceJSON(text) {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/.exec(text);
+  const body = fenced ? fenced[1] : text;
+  const start = body.indexOf('{');
+  const end = body.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new SyntaxError('No JSON object found');
+  }
+  return JSON.parse(body.slice(start, end + 1));
+}
+
+/**
+ * Validate a parsed reply against the advice schema
+ *
+ * Enum fields are compared case-insensitively and stored in lower case.
+ *
+ * @param {unknown} value Parsed model reply
+ * @param {string[]} legalActions Canonical actions legal at this point (empty: any)
+ * @returns {{ ok: true, advice: object } | { ok: false, errors: string[] }}
+ */
+export function validateAdvice(value, legalActions = []) {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { ok: false, errors: ['the reply must be a JSON object'] };
+  }
+
+  const errors = [];
+  const text = (field) => (typeof value[field] === 'string' ? value[field].trim() : '');
+  const recommendation = text('recommendation');
+  const reasoning = text('reasoning');
+  const confidence = text('confidence').toLowerCase();
+  const riskLevel = text('riskLevel').toLowerCase();
+  const allowed = legalActions.length > 0 ? legalActions : ADVICE_ACTIONS;
+
+  let action = null;
+  if (!recommendation) {
+    errors.push('"recommendation" must be a non-empty string');
+  } else {
+    action = normalizeAction(recommendation);
+    if (!action) {
+      errors.push(`"recommendation" must name exactly one action: ${allowed.map(getActionLabel).join(', ')}`);
+    } else if (!allowed.includes(action)) {
+      errors.push(`"${getActionLabel(action)}" is not legal now; choose one of: ${allowed.map(getActionLabel).join(', ')}`);
+    }
+  }
+  if (!reasoning) {
+    errors.push('"reasoning" must be a non-empty string');
+  }
+  if (!CONFIDENCE_LEVELS.includes(confidence)) {
+    errors.push(`"confidence" must be one of: ${CONFIDENCE_LEVELS.join(', ')}`);
+  }
+  if (!RISK_LEVELS.includes(riskLevel)) {
+    errors.push(`"riskLevel" must be one of: ${RISK_LEVELS.join(', ')}`);
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+  return {
+    ok: true,
+    advice: {
+      recommendation,
+      action,
+      reasoning: reasoning.slice(0, MAX_REASONING_LENGTH),
+      confidence,
+      riskLevel,
+    },
+  };
+}
@@ -0,0 +1,79 @@
+/**
+ * Gemini provider (Google Generative Language API)
+ *
+ * Config: GEMINI_API_KEY (required), GEMINI_MODEL
+ */
+
+import { post, postJSON, ProviderError, readEventData } from './http.js';
+
+const DEFAULT_MODEL = 'gemini-1.5-flash-latest';
+
+const API_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+/**
+ * Request body shared by the plain and streaming endpoints
+ */
+function buildBody({ system, messages, maxTokens, temperature, json }) {
+  return {
+    systemInstruction: { parts: [{ text: system }] },
+    contents: messages.map(({ role, content }) => ({
+      role: role === 'assistant' ? 'model' : 'user',
+      parts: [{ text: content }],
+    })),
+    generationConfig: {
+      response_mime_type: json ? 'application/json' : 'text/plain',
+      maxOutputTokens: maxTokens,
+      temperature,
+    },
+  };
+}
+
+/**
+ * Text of the first candidate in a response (or stream chunk)
+ */
+function getCandidateText(data) {
+  return data.candidates?.[0]?.content?.parts?.map((part) => part.text ?? '').join('');
+}
+
+/**
+ * @param {Record<string, string | undefined>} env Environment variables
+ * @returns {import('./index.js').AIProvider}
+ */
+export function createGeminiProvider(env) {
+  const apiKey = env.GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new ProviderError('Gemini API key not configured. Please add GEMINI_API_KEY to your environment variables.');
+  }
+  const model = env.GEMINI_MODEL || DEFAULT_MODEL;
+
+  return {
+    id: 'gemini',
+    name: 'Gemini',
+    model,
+    async generate(request) {
+      const url = `${API_BASE_URL}/${model}:generateContent?key=${apiKey}`;
+      const data = await postJSON(url, buildBody(request), { name: 'Gemini', signal: request.signal });
+
+      const text = getCandidateText(data);
+      if (typeof text !== 'string') {
+        throw new ProviderError('Invalid Gemini API response format');
+      }
+      return text;
+    },
+    async *stream(request) {
+      const url = `${API_BASE_URL}/${model}:streamGenerateContent?alt=sse&key=${apiKey}`;
+      const response = await post(url, buildBody(request), { name: 'Gemini', signal: request.signal });
+
+      for await (const data of readEventData(response)) {
+        let chunk;
+        try {
+          chunk = JSON.parse(data);
+        } catch {
+          throw new ProviderError('Invalid Gemini stream format');
+        }
+        const text = getCandidateText(chunk);
+        if (text) yield text;
+      }
+    },
+  };
+}
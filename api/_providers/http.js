@@ -0,0 +1,104 @@
+/**
+ * HTTP helpers shared by the AI providers
+ */
+
+/**
+ * Error raised by a provider; its message is safe to show to the client
+ */
+export class ProviderError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+/**
+ * POST a JSON body and return the response once it is known to be OK
+ *
+ * @param {string} url Endpoint URL
+ * @param {object} body Request body
+ * @param {{ name: string, headers?: Record<string, string>, signal?: AbortSignal }} options Provider name for error messages, extra headers and cancellation signal
+ * @returns {Promise<Response>}
+ */
+export async function post(url, body, { name, headers = {}, signal }) {
+  let response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...headers,
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw new ProviderError(`${name} is unreachable: ${error instanceof Error ? error.message : 'network error'}`);
+  }
+
+  if (!response.ok) {
+    const errorData = await response.text();
+    console.error(`❌ ${name} error:`, response.status, errorData);
+
+    if (response.status === 401 || response.status === 403) {
+      throw new ProviderError(`Invalid ${name} API key`);
+    }
+    if (response.status === 429) {
+      throw new ProviderError(`${name} rate limit exceeded`);
+    }
+    throw new ProviderError(`${name} request failed`);
+  }
+
+  return response;
+}
+
+/**
+ * POST a JSON body and return the parsed JSON response
+ *
+ * @param {string} url Endpoint URL
+ * @param {object} body Request body
+ * @param {{ name: string, headers?: Record<string, string>, signal?: AbortSignal }} options Provider name for error messages, extra headers and cancellation signal
+ * @returns {Promise<any>} Parsed response body
+ */
+export async function postJSON(url, body, options) {
+  const response = await post(url, body, options);
+  return response.json();
+}
+
+/**
+ * Read a streamed response body line by line
+ *
+ * @param {Response} response Streaming response
+ * @returns {AsyncGenerator<string>} Lines without their line breaks
+ */
+export async function* readLines(response) {
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop();
+    yield* lines;
+  }
+  buffer += decoder.decode();
+  if (buffer) yield buffer;
+}
+
+/**
+ * Read the `data:` payloads of a Server-Sent Events response
+ *
+ * @param {Response} response Streaming response
+ * @returns {AsyncGenerator<string>} Data payloads, in order
+ */
+export async function* readEventData(response) {
+  for await (const line of readLines(response)) {
+    if (line.startsWith('data:')) {
+      yield line.slice(5).trim();
+    }
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * AI Providers for the Ultimate Texas Hold'em Advisor
+ *
+ * Every provider turns a system prompt and a conversation into the model's
+ * text reply, so the API routes do not depend on any one vendor's URL or
+ * response shape. The provider is chosen with AI_PROVIDER:
+ * - gemini (default): Google Gemini
+ * - openai: OpenAI or any OpenAI-compatible endpoint
+ * - ollama: a local model server with the Ollama HTTP API
+ * - mock: deterministic offline advice for development and tests
+ */
+
+import { createGeminiProvider } from './gemini.js';
+import { createMockProvider } from './mock.js';
+import { createOllamaProvider } from './ollama.js';
+import { ProviderError } from './http.js';
+import { createOpenAIProvider } from './openai.js';
+
+export { ProviderError };
+
+/**
+ * @typedef {Object} ChatMessage
+ * @property {'user' | 'assistant'} role
+ * @property {string} content
+ */
+
+/**
+ * @typedef {Object} GenerateRequest
+ * @property {string} system System prompt
+ * @property {ChatMessage[]} messages Conversation so far, ending with a user message
+ * @property {number} maxTokens Most tokens to generate
+ * @property {number} temperature Sampling temperature
+ * @property {boolean} json Whether the reply must be a JSON object rather than plain text
+ * @property {AbortSignal} [signal] Cancels the upstream request
+ */
+
+/**
+ * @typedef {Object} AIProvider
+ * @property {string} id Provider id, as set in AI_PROVIDER
+ * @property {string} name Display name, e.g. "Gemini"
+ * @property {string} model Model the provider calls
+ * @property {(request: GenerateRequest) => Promise<string>} generate Returns the model's reply text
+ * @property {(request: GenerateRequest) => AsyncIterable<string>} stream Yields the reply text as it is generated
+ */
+
+const providers = {
+  gemini: createGeminiProvider,
+  openai: createOpenAIProvider,
+  ollama: createOllamaProvider,
+  mock: createMockProvider,
+};
+
+/**
+ * Create the configured provider
+ *
+ * @param {Record<string, string | undefined>} env Environment variables (default: process.env)
+ * @returns {AIProvider}
+ * @throws {ProviderError} When AI_PROVIDER is unknown or the provider is not configured
+ */
+export function getProvider(env = process.env) {
+  const id = (env.AI_PROVIDER || 'gemini').toLowerCase();
+  const create = providers[id];
+  if (!create) {
+    throw new ProviderError(`Unknown AI_PROVIDER "${id}". Use one of: ${Object.keys(providers).join(', ')}`);
+  }
+  return create(env);
+}
+
+/**
+ * Public description of a provider, sent to the client with its reply
+ *
+ * @param {AIProvider} provider
+ * @returns {{ id: string, name: string, model: string }}
+ */
+export function describeProvider({ id, name, model }) {
+  return { id, name, model };
+}
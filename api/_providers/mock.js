@@ -0,0 +1,107 @@
+/**
+ * Deterministic mock provider for offline development and tests
+ *
+ * Answers without any network call, from a fixed rule of thumb on the
+ * stage and win rate quoted in the prompt: the same prompt always gets the
+ * same advice. Plain-text (chat) requests get a reply that restates the
+ * question and the hand context from the system prompt.
+ *
+ * Config: MOCK_AI_INVALID_REPLIES, how many malformed replies to give
+ * before a valid one, to exercise the advice repair loop (default 0);
+ * MOCK_AI_STREAM_DELAY, milliseconds between streamed chunks (default 40)
+ */
+
+// Characters per streamed chunk
+const STREAM_CHUNK_SIZE = 12;
+
+/**
+ * Reads "- Label: value" from the prompt
+ */
+function readField(prompt, label) {
+  const match = new RegExp(`^- ${label}: (.+)$`, 'm').exec(prompt);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Plain-text coach reply to the last message
+ */
+function getCoachReply(system, messages) {
+  const question = messages[messages.length - 1]?.content.trim() ?? '';
+  const stage = (readField(system, 'Stage') ?? 'preflop').toLowerCase();
+  const winRate = readField(system, 'Win Rate');
+  const engine = readField(system, 'Engine Advice');
+
+  return `Mock coach on "${question}": at the ${stage}` +
+    (winRate ? ` you win ${winRate} of showdowns` : '') +
+    (engine ? ` and the engine recommends ${engine}` : '') +
+    '.';
+}
+
+/**
+ * @param {Record<string, string | undefined>} env Environment variables
+ * @returns {import('./index.js').AIProvider}
+ */
+export function createMockProvider(env) {
+  const invalidReplies = Number.parseInt(env.MOCK_AI_INVALID_REPLIES ?? '0', 10) || 0;
+  const streamDelay = Number.parseInt(env.MOCK_AI_STREAM_DELAY ?? '40', 10) || 0;
+
+  const provider = {
+    id: 'mock',
+    name: 'Mock advisor',
+    model: 'rule-of-thumb',
+    async generate({ system, messages, json }) {
+      if (!json) {
+        return getCoachReply(system, messages);
+      }
+
+      // Replies so far in this conversation
+      const replies = messages.filter(({ role }) => role === 'assistant').length;
+      if (replies < invalidReplies) {
+        return 'I would probably bet here, the hand looks decent.';
+      }
+
+      // The hand is described in the first message; later ones are follow-ups
+      const prompt = messages.find(({ role }) => role === 'user')?.content ?? '';
+      const stage = (readField(prompt, 'Stage') ?? 'PREFLOP').toLowerCase();
+      const winRate = Number.parseFloat(readField(prompt, 'Win Rate') ?? '');
+      const known = Number.isFinite(winRate);
+
+      let recommendation;
+      if (stage === 'river') {
+        recommendation = known && winRate >= 40 ? 'Bet 1x' : 'Fold';
+      } else if (stage === 'flop') {
+        recommendation = known && winRate >= 50 ? 'Bet 2x' : 'Check';
+      } else {
+        recommendation = known && winRate >= 50 ? 'Bet 4x' : 'Check';
+      }
+
+      // Bet the largest size the system prompt allows
+      const legal = /exactly one of: (.+)\.$/m.exec(system)?.[1].split(', ');
+      if (legal && !legal.includes(recommendation) && recommendation.startsWith('Bet')) {
+        recommendation = legal.find((label) => label.startsWith('Bet')) ?? recommendation;
+      }
+
+      const edge = known ? Math.abs(winRate - 50) : 0;
+      return JSON.stringify({
+        recommendation,
+        reasoning: known
+          ? `Mock advice: ${winRate.toFixed(1)}% win rate at the ${stage}.`
+          : `Mock advice: no win rate yet at the ${stage}.`,
+        confidence: edge >= 20 ? 'high' : edge >= 8 ? 'medium' : 'low',
+        riskLevel: recommendation.startsWith('Bet') ? 'aggressive' : 'conservative',
+      });
+    },
+    // The same reply as generate(), a few characters at a time
+    async *stream(request) {
+      const reply = await provider.generate(request);
+      for (let start = 0; start < reply.length; start += STREAM_CHUNK_SIZE) {
+        if (streamDelay > 0) {
+          await new Promise((resolve) => setTimeout(resolve, streamDelay));
+        }
+        request.signal?.throwIfAborted();
+        yield reply.slice(start, start + STREAM_CHUNK_SIZE);
+      }
+    },
+  };
+  return provider;
+}
@@ -0,0 +1,65 @@
+/**
+ * Local model server provider (Ollama HTTP API)
+ *
+ * Config: OLLAMA_BASE_URL, OLLAMA_MODEL
+ */
+
+import { post, ProviderError, readLines } from './http.js';
+
+const DEFAULT_BASE_URL = 'http://localhost:11434';
+const DEFAULT_MODEL = 'llama3.1';
+
+/**
+ * @param {Record<string, string | undefined>} env Environment variables
+ * @returns {import('./index.js').AIProvider}
+ */
+export function createOllamaProvider(env) {
+  const baseUrl = (env.OLLAMA_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const model = env.OLLAMA_MODEL || DEFAULT_MODEL;
+
+  const send = ({ system, messages, maxTokens, temperature, json, signal }, stream) =>
+    post(`${baseUrl}/api/chat`, {
+      model,
+      messages: [{ role: 'system', content: system }, ...messages],
+      stream,
+      ...(json ? { format: 'json' } : {}),
+      options: {
+        num_predict: maxTokens,
+        temperature,
+      },
+    }, { name: 'Ollama', signal });
+
+  return {
+    id: 'ollama',
+    name: 'Ollama',
+    model,
+    async generate(request) {
+      const data = await (await send(request, false)).json();
+
+      const text = data.message?.content;
+      if (typeof text !== 'string') {
+        throw new ProviderError('Invalid Ollama response format');
+      }
+      return text;
+    },
+    // Ollama streams one JSON object per line rather than SSE
+    async *stream(request) {
+      const response = await send(request, true);
+
+      for await (const line of readLines(response)) {
+        if (!line.trim()) continue;
+        let chunk;
+        try {
+          chunk = JSON.parse(line);
+        } catch {
+          throw new ProviderError('Invalid Ollama stream format');
+        }
+        if (chunk.error) {
+          throw new ProviderError(`Ollama error: ${chunk.error}`);
+        }
+        if (chunk.message?.content) yield chunk.message.content;
+        if (chunk.done) return;
+      }
+    },
+  };
+}
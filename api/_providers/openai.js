@@ -0,0 +1,72 @@
+/**
+ * OpenAI-compatible provider (Chat Completions API)
+ *
+ * Works with OpenAI and any server exposing `/chat/completions` in the same
+ * shape (vLLM, LM Studio, llama.cpp server, gateways).
+ *
+ * Config: OPENAI_API_KEY (required for the default OpenAI endpoint),
+ * OPENAI_BASE_URL, OPENAI_MODEL
+ */
+
+import { post, ProviderError, readEventData } from './http.js';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+/**
+ * @param {Record<string, string | undefined>} env Environment variables
+ * @returns {import('./index.js').AIProvider}
+ */
+export function createOpenAIProvider(env) {
+  const baseUrl = (env.OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const apiKey = env.OPENAI_API_KEY;
+  // Self-hosted compatible servers usually run without a key
+  if (!apiKey && baseUrl === DEFAULT_BASE_URL) {
+    throw new ProviderError('OpenAI API key not configured. Please add OPENAI_API_KEY to your environment variables.');
+  }
+  const model = env.OPENAI_MODEL || DEFAULT_MODEL;
+
+  const send = ({ system, messages, maxTokens, temperature, json, signal }, stream) =>
+    post(`${baseUrl}/chat/completions`, {
+      model,
+      messages: [{ role: 'system', content: system }, ...messages],
+      response_format: { type: json ? 'json_object' : 'text' },
+      max_tokens: maxTokens,
+      temperature,
+      stream,
+    }, {
+      name: 'OpenAI',
+      headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+      signal,
+    });
+
+  return {
+    id: 'openai',
+    name: baseUrl === DEFAULT_BASE_URL ? 'OpenAI' : 'OpenAI-compatible server',
+    model,
+    async generate(request) {
+      const data = await (await send(request, false)).json();
+
+      const text = data.choices?.[0]?.message?.content;
+      if (typeof text !== 'string') {
+        throw new ProviderError('Invalid OpenAI API response format');
+      }
+      return text;
+    },
+    async *stream(request) {
+      const response = await send(request, true);
+
+      for await (const data of readEventData(response)) {
+        if (data === '[DONE]') return;
+        let chunk;
+        try {
+          chunk = JSON.parse(data);
+        } catch {
+          throw new ProviderError('Invalid OpenAI stream format');
+        }
+        const text = chunk.choices?.[0]?.delta?.content;
+        if (text) yield text;
+      }
+    },
+  };
+}
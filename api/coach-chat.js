@@ -0,0 +1,149 @@
+/**
+ * AI Coach Chat Serverless Function for Ultimate Texas Hold'em Advisor
+ *
+ * Multi-turn follow-up questions about the current hand. The client sends
+ * the hand context (cards, simulation numbers, engine and AI advice) and
+ * the conversation so far; the configured AI provider answers the last
+ * question in plain text. The server keeps no conversation state.
+ */
+
+import { describeProvider, getProvider, ProviderError } from './_providers/index.js';
+
+const SYSTEM_PROMPT = 'You are a professional Ultimate Texas Hold\'em poker coach with 20+ years of experience, answering follow-up questions about the hand below. Ground every answer in the hand context: the cards, the simulated win rates, the engine\'s action EVs and the table rules. Numbers shown with ± are sampled and the ± is one standard error (0.01 to 0.07 antes for pre-flop EVs, which also assume basic-strategy play on the flop); numbers without it are exact. Treat EV gaps within two standard errors as too close to call. When you disagree with the engine, say so and explain why. Answer in plain text, in at most 120 words.';
+
+const MAX_OUTPUT_TOKENS = 500;
+const TEMPERATURE = 0.5;
+
+// Limits on what the client may send
+const MAX_MESSAGES = 20;
+const MAX_MESSAGE_LENGTH = 2000;
+const MAX_CONTEXT_LENGTH = 6000;
+
+/**
+ * Check the conversation: alternating user and assistant messages,
+ * starting and ending with the user
+ *
+ * @returns {string | null} What is wrong, or null when valid
+ */
+function validateMessages(messages) {
+  if (!Array.isArray(messages) || messages.length === 0) {
+    return 'messages must be a non-empty list';
+  }
+  if (messages.length > MAX_MESSAGES) {
+    return `At most ${MAX_MESSAGES} messages per conversation`;
+  }
+  for (const [index, message] of messages.entries()) {
+    const role = index % 2 === 0 ? 'user' : 'assistant';
+    if (message?.role !== role) {
+      return `Message ${index + 1} must come from the ${role}`;
+    }
+    if (typeof message.content !== 'string' || !message.content.trim()) {
+      return `Message ${index + 1} is empty`;
+    }
+    if (message.content.length > MAX_MESSAGE_LENGTH) {
+      return `Message ${index + 1} is longer than ${MAX_MESSAGE_LENGTH} characters`;
+    }
+  }
+  if (messages.length % 2 === 0) {
+    return 'The last message must come from the user';
+  }
+  return null;
+}
+
+export default async function handler(req, res) {
+  // Set CORS headers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  // Handle preflight requests
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { context, messages } = req.body;
+
+    if (typeof context !== 'string' || !context.trim() || context.length > MAX_CONTEXT_LENGTH) {
+      return res.status(400).json({
+        error: `Hand context is required (at most ${MAX_CONTEXT_LENGTH} characters)`,
+        success: false
+      });
+    }
+
+    const invalid = validateMessages(messages);
+    if (invalid) {
+      return res.status(400).json({
+        error: invalid,
+        success: false
+      });
+    }
+
+    let provider;
+    try {
+      provider = getProvider();
+    } catch (error) {
+      console.error('❌ AI provider not available:', error.message);
+      return res.status(500).json({
+        error: error.message,
+        success: false
+      });
+    }
+
+    console.log(`💬 Coach chat turn ${Math.ceil(messages.length / 2)} via ${provider.name} (${provider.model})...`);
+
+    // Stop generating when the client gives up (timeout, or the hand changed)
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        console.log('🛑 Client closed the coach chat request; aborting');
+        controller.abort();
+      }
+    });
+
+    const reply = await provider.generate({
+      system: `${SYSTEM_PROMPT}\n\nHAND CONTEXT:\n${context}`,
+      messages: messages.map(({ role, content }) => ({ role, content })),
+      maxTokens: MAX_OUTPUT_TOKENS,
+      temperature: TEMPERATURE,
+      json: false,
+      signal: controller.signal,
+    });
+
+    if (!reply.trim()) {
+      return res.status(500).json({
+        error: `${provider.name} returned an empty reply`,
+        success: false
+      });
+    }
+
+    return res.status(200).json({
+      reply: reply.trim(),
+      provider: describeProvider(provider),
+      success: true
+    });
+
+  } catch (error) {
+    // Nobody is waiting for the answer any more
+    if (res.destroyed) return;
+
+    if (error instanceof ProviderError) {
+      return res.status(500).json({
+        error: error.message,
+        success: false
+      });
+    }
+
+    console.error('💥 Coach chat handler error:', error);
+    return res.status(500).json({
+      error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error'),
+      success: false
+    });
+  }
+}
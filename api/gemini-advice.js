@@ -1,9 +1,89 @@
 /**
- * Gemini API Serverless Function for Ultimate Texas Hold'em Advisor
+ * AI Advice Serverless Function for Ultimate Texas Hold'em Advisor
  *
- * This function handles Gemini API calls securely by keeping the API key
- * on the server side using environment variables.
+ * This function calls the configured AI provider (see `_providers`)
+ * securely by keeping API keys on the server side using environment
+ * variables. The reply names the provider that answered.
+ *
+ * Replies are validated against the advice schema (see `_advice`) and sent
+ * back to the model for repair when invalid; the advice returned always
+ * names a canonical action that is legal at the current decision point.
+ *
+ * A client that sends `Accept: text/event-stream` gets the reply streamed
+ * as Server-Sent Events instead of one JSON response:
+ * - `provider`: the provider that answers ({ id, name, model })
+ * - `token`: a piece of the model's reply ({ text, attempt })
+ * - `retry`: the last reply was invalid and the model is asked again ({ attempt, errors })
+ * - `advice`: the validated advice, as in the JSON response ({ advice, provider, attempts })
+ * - `error`: the request failed ({ error })
+ * The upstream request is aborted when the client disconnects.
+ */
+
+import { generateAdvice } from './_advice/generate.js';
+import { ADVICE_ACTIONS } from './_advice/schema.js';
+import { describeProvider, getProvider, ProviderError } from './_providers/index.js';
+
+const SYSTEM_PROMPT = 'You are a professional Ultimate Texas Hold\'em poker coach with 20+ years of experience. Provide strategic betting advice in JSON format with these exact fields: recommendation (e.g., "Bet 4x", "Check", "Fold"), reasoning (brief strategic explanation, max 100 words), confidence ("high", "medium", or "low"), and riskLevel ("conservative", "moderate", or "aggressive"). Focus on Ultimate Texas Hold\'em specific strategy. Be concise and actionable. Example: ```json { "recommendation": "Bet 4x", "reasoning": "You have a strong starting hand.", "confidence": "high", "riskLevel": "aggressive" } ```';
+
+const MAX_OUTPUT_TOKENS = 400;
+const TEMPERATURE = 0.3;
+
+/**
+ * Stream validated advice to the client as Server-Sent Events
  */
+async function streamAdvice(res, provider, { prompt, legalActions }) {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders?.();
+
+  // Stop generating as soon as the client goes away (e.g. the cards changed)
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      console.log('🛑 Client closed the advice stream; aborting');
+      controller.abort();
+    }
+  });
+
+  const send = (event, data) => {
+    if (!controller.signal.aborted) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+
+  send('provider', describeProvider(provider));
+  try {
+    const { advice, attempts } = await generateAdvice(provider, {
+      system: SYSTEM_PROMPT,
+      prompt,
+      legalActions,
+      maxTokens: MAX_OUTPUT_TOKENS,
+      temperature: TEMPERATURE,
+      signal: controller.signal,
+    }, {
+      onToken: (text, attempt) => send('token', { text, attempt }),
+      onRetry: (attempt, errors) => send('retry', { attempt, errors }),
+    });
+    console.log(`✅ ${provider.name} advice streamed after ${attempts} attempt${attempts === 1 ? '' : 's'}: ${advice.action}`);
+
+    send('advice', { advice, provider: describeProvider(provider), attempts });
+  } catch (error) {
+    if (controller.signal.aborted) return;
+
+    if (!(error instanceof ProviderError)) {
+      console.error('💥 AI advice stream error:', error);
+    }
+    send('error', {
+      error: error instanceof ProviderError
+        ? error.message
+        : 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error'),
+    });
+  } finally {
+    res.end();
+  }
+}
 
 export default async function handler(req, res) {
   // Set CORS headers
@@ -23,7 +103,7 @@ export default async function handler(req, res) {
   }
 
   try {
-    const { prompt } = req.body;
+    const { prompt, legalActions = [] } = req.body;
 
     if (!prompt) {
       return res.status(400).json({
@@ -32,98 +112,56 @@ export default async function handler(req, res) {
       });
     }
 
-    // Check for Gemini API key
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      console.error('❌ GEMINI_API_KEY environment variable not set');
-      return res.status(500).json({
-        error: 'Gemini API key not configured. Please add GEMINI_API_KEY to your environment variables.',
+    if (!Array.isArray(legalActions) || legalActions.some((action) => !ADVICE_ACTIONS.includes(action))) {
+      return res.status(400).json({
+        error: `legalActions must be a list of: ${ADVICE_ACTIONS.join(', ')}`,
         success: false
       });
     }
 
-    console.log('🤖 Making Gemini API request...');
-
-    const url = `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash-latest?key=${apiKey}`;
-
-    // Call Gemini API
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [
-          {
-            parts: [
-              {
-                text: "You are a professional Ultimate Texas Hold'em poker coach with 20+ years of experience. Provide strategic betting advice in JSON format with these exact fields: recommendation (e.g., "Bet 4x", "Check", "Fold"), reasoning (brief strategic explanation, max 100 words), confidence ("high", "medium", or "low"), and riskLevel ("conservative", "moderate", or "aggressive"). Focus on Ultimate Texas Hold'em specific strategy. Be concise and actionable. Example: ```json { "recommendation": "Bet 4x", "reasoning": "You have a strong starting hand.", "confidence": "high", "riskLevel": "aggressive" } ```"
-              },
-              {
-                text: prompt
-              }
-            ]
-          }
-        ],
-        generationConfig: {
-          response_mime_type: "application/json",
-          maxOutputTokens: 400,
-          temperature: 0.3,
-        }
-      }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.text();
-      console.error('❌ Gemini API error:', response.status, errorData);
-
-      let errorMessage = 'Gemini API request failed';
-      if (response.status === 401 || response.status === 403) {
-        errorMessage = 'Invalid Gemini API key';
-      } else if (response.status === 429) {
-        errorMessage = 'Gemini API rate limit exceeded';
-      }
-
+    let provider;
+    try {
+      provider = getProvider();
+    } catch (error) {
+      console.error('❌ AI provider not available:', error.message);
       return res.status(500).json({
-        error: errorMessage,
+        error: error.message,
         success: false
       });
     }
 
-    const data = await response.json();
-    console.log('✅ Gemini API response received');
-
-    if (!data.candidates || !data.candidates[0] || !data.candidates[0].content || !data.candidates[0].content.parts || !data.candidates[0].content.parts[0]) {
-      return res.status(500).json({
-        error: 'Invalid Gemini API response format',
-        success: false
-      });
+    if ((req.headers.accept || '').includes('text/event-stream')) {
+      console.log(`🤖 Streaming ${provider.name} request (${provider.model})...`);
+      return streamAdvice(res, provider, { prompt, legalActions });
     }
 
-    const aiAdvice = data.candidates[0].content.parts[0].text;
-    console.log('🎯 AI advice generated:', aiAdvice.substring(0, 100) + '...');
+    console.log(`🤖 Making ${provider.name} request (${provider.model})...`);
 
-    // Try to parse as JSON, fallback to plain text
-    let parsedAdvice;
-    try {
-      parsedAdvice = JSON.parse(aiAdvice);
-    } catch {
-      // Fallback if AI doesn't return valid JSON
-      parsedAdvice = {
-        recommendation: aiAdvice.split('\n')[0] || 'Check',
-        reasoning: aiAdvice,
-        confidence: 'medium',
-        riskLevel: 'moderate'
-      };
-    }
+    const { advice, attempts } = await generateAdvice(provider, {
+      system: SYSTEM_PROMPT,
+      prompt,
+      legalActions,
+      maxTokens: MAX_OUTPUT_TOKENS,
+      temperature: TEMPERATURE,
+    });
+    console.log(`✅ ${provider.name} advice validated after ${attempts} attempt${attempts === 1 ? '' : 's'}: ${advice.action}`);
 
     return res.status(200).json({
-      advice: parsedAdvice,
+      advice,
+      provider: describeProvider(provider),
+      attempts,
       success: true
     });
 
   } catch (error) {
-    console.error('💥 Gemini API handler error:', error);
+    if (error instanceof ProviderError) {
+      return res.status(500).json({
+        error: error.message,
+        success: false
+      });
+    }
+
+    console.error('💥 AI advice handler error:', error);
     return res.status(500).json({
       error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error'),
       success: false
@@ -0,0 +1,202 @@
+/**
+ * Pre-flop EV Table Generator
+ *
+ * Simulates all 169 starting-hand classes against a random dealer hand
+ * under every table rule set and writes the win rates and the EVs of each
+ * pre-flop action to `src/utils/preflopTableData.ts`.
+ *
+ * Every hand is sampled in the same seeded blocks as `monteCarloSimulation`,
+ * without its iteration cap, so the output is reproducible and neighbouring
+ * hands are compared on the same deals. Rule sets that
+ * settle the Ante, Blind and Play bets the same way share one table.
+ *
+ * Under the standard rules the table is checked against the basic-strategy
+ * chart: the script fails without writing anything when the chart's action
+ * trails the best simulated action by more than MAX_CHART_DEVIATION standard
+ * errors. Every table also logs its best EV averaged over all deals, the
+ * player's side of the house edge.
+ *
+ * Usage: npm run generate:preflop [-- --iterations 40000000 --seed 169]
+ */
+
+import { writeFileSync } from "node:fs";
+import { getHandClassCards, getPreflopDecision, PREFLOP_CHART } from "../src/components/BasicStrategy";
+import {
+  buildSimulationResult,
+  createTotals,
+  getBlockSizes,
+  mergeTotals,
+  sampleOutcomes,
+} from "../src/utils/monteCarlo";
+import type { PreflopEntry, PreflopTable } from "../src/utils/preflopTable";
+import { createRandom, deriveSeed } from "../src/utils/random";
+import { getDifferenceInterval } from "../src/utils/statistics";
+import { DEFAULT_TABLE_RULES, TABLE_RULES_PRESETS, type TableRules } from "../src/utils/tableRules";
+
+const OUTPUT = new URL("../src/utils/preflopTableData.ts", import.meta.url);
+
+const DEFAULT_ITERATIONS = 40_000_000;
+const DEFAULT_SEED = 169;
+
+// How many standard errors the chart's action may trail the best action by
+const MAX_CHART_DEVIATION = 3;
+
+/**
+ * Reads a numeric `--name value` command-line option
+ */
+function readOption(name: string, fallback: number): number {
+  const index = process.argv.indexOf(`--${name}`);
+  if (index === -1) return fallback;
+  const value = Number(process.argv[index + 1]);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`--${name} must be a positive integer`);
+  }
+  return value;
+}
+
+/**
+ * The parts of the rules that change pre-flop EVs; side bets do not
+ */
+function getEVSignature(rules: TableRules): string {
+  return JSON.stringify([rules.blindPaytable, rules.dealerMustQualify, rules.betSizes]);
+}
+
+/**
+ * Constant name for a rule set's table, e.g. "noQualifier" -> NO_QUALIFIER_TABLE
+ */
+function getTableName(rules: TableRules): string {
+  return `${rules.id.replace(/[A-Z]/g, (letter) => `_${letter}`).toUpperCase()}_TABLE`;
+}
+
+/**
+ * Number of two-card deals in a hand class: 6 pairs, 4 suited, 12 offsuit
+ */
+function countCombos(handClass: string): number {
+  if (handClass.endsWith("s")) return 4;
+  if (handClass.endsWith("o")) return 12;
+  return 6;
+}
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+function formatEntry(handClass: string, entry: PreflopEntry): string {
+  const actionEVs = entry.actionEVs
+    .map(({ action, ev, standardError }) =>
+      standardError === undefined
+        ? `{ action: "${action}", ev: ${ev} }`
+        : `{ action: "${action}", ev: ${ev}, standardError: ${standardError} }`,
+    )
+    .join(", ");
+  return `  "${handClass}": { win: ${entry.win}, tie: ${entry.tie}, lose: ${entry.lose}, actionEVs: [${actionEVs}] },`;
+}
+
+const iterations = readOption("iterations", DEFAULT_ITERATIONS);
+const seed = readOption("seed", DEFAULT_SEED);
+const handClasses = Object.keys(PREFLOP_CHART);
+
+// The engine logs every simulation; keep the output to one line per hand
+const log = console.log;
+console.log = () => {};
+
+const started = Date.now();
+const tables = new Map<string, { name: string; table: PreflopTable }>();
+const tableNames: Record<string, string> = {};
+const chartDeviations: string[] = [];
+
+for (const rules of TABLE_RULES_PRESETS) {
+  const signature = getEVSignature(rules);
+  const shared = tables.get(signature);
+  if (shared) {
+    log(`♻️ ${rules.name}: same EVs as ${shared.name}`);
+    tableNames[rules.id] = shared.name;
+    continue;
+  }
+
+  log(`🎯 ${rules.name}: ${handClasses.length} hands × ${iterations.toLocaleString()} showdowns`);
+  const checkChart = signature === getEVSignature(DEFAULT_TABLE_RULES);
+  const table: PreflopTable = {};
+  let edgeSum = 0;
+  let combos = 0;
+  for (const handClass of handClasses) {
+    const holeCards = getHandClassCards(handClass);
+    const totals = createTotals();
+    const blocks = getBlockSizes(iterations);
+    for (let block = 0; block < blocks.length; block++) {
+      mergeTotals(totals, await sampleOutcomes(holeCards, blocks[block], {
+        random: createRandom(deriveSeed(seed, block)),
+        rules,
+      }));
+    }
+    const result = buildSimulationResult(holeCards, totals, "monteCarlo", rules);
+    if (!result.actionEVs) {
+      throw new Error(`No action EVs for ${handClass}`);
+    }
+    table[handClass] = {
+      win: round(result.win, 2),
+      tie: round(result.tie, 2),
+      lose: round(result.lose, 2),
+      actionEVs: result.actionEVs.map(({ action, ev, standardError }) => ({
+        action,
+        ev: round(ev, 4),
+        ...(standardError === undefined ? {} : { standardError: round(standardError, 4) }),
+      })),
+    };
+    const evs = table[handClass].actionEVs.map(({ action, ev }) => `${action} ${ev}`).join(", ");
+    log(`  ${handClass}: ${table[handClass].win}% win, ${evs}`);
+
+    const { actionEVs } = result;
+    const best = actionEVs.reduce((top, actionEV, i) => (actionEV.ev > actionEVs[top].ev ? i : top), 0);
+    edgeSum += countCombos(handClass) * actionEVs[best].ev;
+    combos += countCombos(handClass);
+
+    if (checkChart) {
+      const chartAction = getPreflopDecision(holeCards, rules).action;
+      const chart = actionEVs.findIndex(({ action }) => action === chartAction);
+      const { estimate, standardError } = getDifferenceInterval(totals.moments, best, chart);
+      if (estimate > MAX_CHART_DEVIATION * standardError) {
+        chartDeviations.push(
+          `${rules.name} ${handClass}: chart ${chartAction} trails ${actionEVs[best].action} by ${estimate.toFixed(4)} ± ${standardError.toFixed(4)}`,
+        );
+      }
+    }
+  }
+
+  log(`🏠 ${rules.name}: ${(edgeSum / combos).toFixed(4)} antes per hand with best pre-flop play`);
+
+  const name = getTableName(rules);
+  tables.set(signature, { name, table });
+  tableNames[rules.id] = name;
+}
+
+if (chartDeviations.length > 0) {
+  chartDeviations.forEach((deviation) => console.error(`❌ ${deviation}`));
+  throw new Error(`The table disagrees with PREFLOP_CHART on ${chartDeviations.length} hands; nothing written`);
+}
+
+const source = [
+  "/**",
+  " * Pre-flop EV Table Data",
+  " *",
+  " * Generated by `npm run generate:preflop` (scripts/generatePreflopTable.ts)",
+  ` * with ${iterations.toLocaleString("en-US")} showdowns per hand and seed ${seed}. Do not edit by hand.`,
+  " */",
+  "",
+  'import type { PreflopTable } from "./preflopTable";',
+  "",
+  ...[...tables.values()].flatMap(({ name, table }) => [
+    `const ${name}: PreflopTable = {`,
+    ...Object.entries(table).map(([handClass, entry]) => formatEntry(handClass, entry)),
+    "};",
+    "",
+  ]),
+  "/**",
+  " * Pre-flop tables keyed by table rules id",
+  " */",
+  "export const PREFLOP_TABLES: Record<string, PreflopTable> = {",
+  ...Object.entries(tableNames).map(([id, name]) => `  ${id}: ${name},`),
+  "};",
+  "",
+].join("\n");
+
+writeFileSync(OUTPUT, source);
+log(`✅ Wrote ${OUTPUT.pathname} in ${((Date.now() - started) / 1000).toFixed(0)}s`);
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import {
   Spade as Spades,
   TrendingUp,
@@ -12,21 +12,61 @@ import CardPicker from "./components/CardPicker";
 import {
   evaluateHand,
   formatCards,
-  isPremiumHand,
+  getDealerOuts,
 } from "./components/HandEvaluator";
 import {
   getPreflopAdvice,
-  getPostflopAdvice,
-  getGameStage,
+  getStrategyAdvice,
+  getEVAdvice,
+  getCompletedActionAdvice,
   getTipMessage,
   type BettingAdvice,
 } from "./components/BetAdvisor";
 import {
-  monteCarloSimulation,
-  quickSimulation,
-  type SimulationResult,
-} from "./utils/monteCarlo";
+  getStrategyDecision,
+  isPremiumHand,
+} from "./components/BasicStrategy";
+import {
+  buildHandState,
+  isDecisionPending,
+  type RecordedAction,
+} from "./components/HandState";
+import {
+  addSeat,
+  clearRecordedActions,
+  clearTable,
+  createTableState,
+  getOtherSeatCards,
+  getSeatCards,
+  getSeatDecision,
+  recordSeatAction,
+  removeSeat,
+  selectSeatCards,
+  setActiveSeat,
+  type TableState,
+} from "./components/TableState";
+import { getDecisionPoint } from "./utils/expectedValue";
+import { canEnumerate, type SimulationResult } from "./utils/monteCarlo";
+import { runPooledSimulation } from "./utils/workerPool";
 import GeminiAdvisor from "./components/GeminiAdvisor";
+import ActionEVList from "./components/ActionEVList";
+import BetControls from "./components/BetControls";
+import ConfidenceSummary from "./components/ConfidenceSummary";
+import AdvancedSettings from "./components/AdvancedSettings";
+import DealerOutsPanel from "./components/DealerOutsPanel";
+import DrawsPanel from "./components/DrawsPanel";
+import { getDraws } from "./components/DrawAnalyzer";
+import {
+  getBoardTexture,
+  getBoardTextureLabels,
+} from "./components/BoardTexture";
+import TripsPanel from "./components/TripsPanel";
+import OutcomeBreakdown from "./components/OutcomeBreakdown";
+import RunoutExplorer from "./components/RunoutExplorer";
+import TableRulesSelect from "./components/TableRulesSelect";
+import SeatsPanel from "./components/SeatsPanel";
+import { DEFAULT_TABLE_RULES, type TableRules } from "./utils/tableRules";
+import type { TripsPaytable } from "./utils/tripsBonus";
 
 /**
  * Ultimate Texas Hold'em Poker Advisor with OpenAI Integration
@@ -38,9 +78,14 @@ import GeminiAdvisor from "./components/GeminiAdvisor";
  * - Stage-specific strategy recommendations
  * - Professional poker table UI/UX
  */
+
+// Upper bound for adaptive sampling; clear-cut spots stop far sooner
+const MAX_ITERATIONS = 1000000;
+
 export default function App() {
   // Core state
-  const [selectedCards, setSelectedCards] = useState<string[]>([]);
+  const [table, setTable] = useState<TableState>(createTableState);
+  const [deadCards, setDeadCards] = useState<string[]>([]);
   const [simulationResult, setSimulationResult] =
     useState<SimulationResult | null>(null);
   const [advice, setAdvice] = useState<BettingAdvice>({
@@ -52,8 +97,18 @@ export default function App() {
 
   // UI state
   const [isSimulating, setIsSimulating] = useState(false);
-  const [fastMode, setFastMode] = useState(true);
   const [simulationError, setSimulationError] = useState<string | null>(null);
+  const [simulationProgress, setSimulationProgress] =
+    useState<SimulationResult | null>(null);
+  const [fixedSeed, setFixedSeed] = useState<number | null>(null);
+  const [tableRules, setTableRules] =
+    useState<TableRules>(DEFAULT_TABLE_RULES);
+  // The Trips paytable does not change any EV, so it is kept apart from
+  // the rules the simulation depends on
+  const [tripsPaytable, setTripsPaytable] = useState<TripsPaytable>(
+    DEFAULT_TABLE_RULES.tripsPaytable,
+  );
+  const [tripsBet, setTripsBet] = useState(1);
 
   // Layout state
   const [leftPanelCollapsed, setLeftPanelCollapsed] = useState(false);
@@ -61,22 +116,86 @@ export default function App() {
   const [cardPickerExpanded, setCardPickerExpanded] = useState(false);
   const [layoutMode, setLayoutMode] = useState<"grid" | "stacked">("grid");
 
-  // Ref to track current simulation to prevent race conditions
-  const currentSimulationRef = useRef<number>(0);
-
-  // Derived state
-  const gameStage = getGameStage(selectedCards.length);
+  // Derived state: the advisor works for the active seat, with every other
+  // seat's hole cards out of the deck. The arrays are memoized on their
+  // contents, so changes elsewhere on the table (another seat's action)
+  // do not restart the simulation.
+  const selectedCardsKey = getSeatCards(table, table.activeSeat).join(",");
+  const selectedCards = useMemo(
+    () => (selectedCardsKey ? selectedCardsKey.split(",") : []),
+    [selectedCardsKey],
+  );
+  const recordedAction = table.seats[table.activeSeat].recordedAction;
+  const otherSeatCardsKey = getOtherSeatCards(table, table.activeSeat).join(",");
+  const otherSeatCards = useMemo(
+    () => (otherSeatCardsKey ? otherSeatCardsKey.split(",") : []),
+    [otherSeatCardsKey],
+  );
+  // Rules as the AI advisor quotes them, with the Trips paytable picked
+  const advisorRules = useMemo(
+    () => ({ ...tableRules, tripsPaytable }),
+    [tableRules, tripsPaytable],
+  );
+  const seatDeadCards = useMemo(
+    () => [...deadCards, ...otherSeatCards],
+    [deadCards, otherSeatCards],
+  );
+  // Board cards stay hidden from a seat until both its hole cards are known
+  const unavailableCards = [
+    ...otherSeatCards,
+    ...table.board.filter((card) => !selectedCards.includes(card)),
+  ];
+  const seatDecisions = table.seats.map((_, index) =>
+    getSeatDecision(table, index, tableRules, deadCards),
+  );
+  const handState = buildHandState(selectedCards, recordedAction, tableRules);
+  const gameStage = handState.stage;
   const holeCards = selectedCards.slice(0, 2);
   const communityCards = selectedCards.slice(2);
-  const tipMessage = getTipMessage(gameStage, selectedCards.length);
+  const tipMessage = getTipMessage(handState);
+  const simulationLabel = canEnumerate(selectedCards, seatDeadCards)
+    ? "Enumerating every outcome..."
+    : "Sampling until the estimate settles...";
+  const dealerOuts =
+    selectedCards.length === 7 ? getDealerOuts(selectedCards, seatDeadCards) : null;
+  const draws = useMemo(
+    () => (selectedCards.length === 5 ? getDraws(selectedCards, seatDeadCards) : null),
+    [selectedCards, seatDeadCards],
+  );
+  // Partial results stream in while a simulation runs
+  const displayedResult = isSimulating ? simulationProgress : simulationResult;
+
+  /**
+   * Update the active seat's cards (hole cards first, then the shared board)
+   */
+  const setSelectedCards = (cards: string[]) =>
+    setTable((current) => selectSeatCards(current, cards));
+
+  /**
+   * Record (or undo) the active seat's action
+   */
+  const setRecordedAction = (action: RecordedAction | null) =>
+    setTable((current) => recordSeatAction(current, action));
+
+  // Evaluate the best hand once enough cards are selected
+  const handEvaluation = useMemo(
+    () => (selectedCards.length >= 5 ? evaluateHand(selectedCards) : null),
+    [selectedCards],
+  );
+  const bestHand = handEvaluation?.ok ? handEvaluation.hand : null;
+  const boardTexture =
+    communityCards.length >= 3 ? getBoardTexture(communityCards) : null;
+  const playingTheBoard =
+    selectedCards.length === 7 && bestHand?.playingHoleCards.length === 0;
 
   // Get current hand description if enough cards are selected
-  const handDescription =
-    selectedCards.length >= 5
-      ? evaluateHand(selectedCards)
-      : selectedCards.length >= 2
-        ? "Select community cards to evaluate hand"
-        : "Select hole cards first";
+  const handDescription = handEvaluation
+    ? handEvaluation.ok
+      ? handEvaluation.hand.description
+      : handEvaluation.message
+    : selectedCards.length >= 2
+      ? "Select community cards to evaluate hand"
+      : "Select hole cards first";
 
   /**
    * Update advice and run simulation when cards change
@@ -89,10 +208,7 @@ export default function App() {
 
     // Clear previous state
     setSimulationError(null);
-
-    // Increment simulation counter to cancel any running simulations
-    currentSimulationRef.current += 1;
-    const thisSimulation = currentSimulationRef.current;
+    setSimulationProgress(null);
 
     if (selectedCards.length < 2) {
       console.log("📝 Not enough cards - showing initial message");
@@ -107,113 +223,131 @@ export default function App() {
       return;
     }
 
-    if (selectedCards.length === 2) {
-      console.log("📝 Pre-flop advice only");
-      // Pre-flop advice only
-      const preflopAdvice = getPreflopAdvice(holeCards);
-      console.log("📝 Pre-flop advice:", preflopAdvice);
-      setAdvice(preflopAdvice);
+    if (!getDecisionPoint(selectedCards.length)) {
+      console.log("📝 Need more community cards");
+      // Still dealing the current street
+      setAdvice(
+        handState.playBet
+          ? getCompletedActionAdvice(handState)
+          : {
+              action: "Add more community cards for analysis",
+              confidence: "low",
+              reasoning: `Need ${handState.cardsNeeded} more card${handState.cardsNeeded === 1 ? "" : "s"} to complete the ${gameStage === "river" ? "turn and river" : gameStage}`,
+              stage: gameStage,
+            },
+      );
       setSimulationResult(null);
       setIsSimulating(false);
       return;
     }
 
-    if (selectedCards.length < 5) {
-      console.log("📝 Need more community cards");
-      // Still need more community cards
-      setAdvice({
-        action: "Add more community cards for analysis",
-        confidence: "low",
-        reasoning: "Need at least 5 cards total",
-        stage: gameStage,
-      });
-      setSimulationResult(null);
-      setIsSimulating(false);
-      return;
+    // Pre-flop advice comes from the precomputed EV table; the simulation
+    // adds live numbers for the seats' dead cards and the outcome charts
+    const preflop = selectedCards.length === 2;
+    if (preflop) {
+      const preflopAdvice = isDecisionPending(handState)
+        ? getPreflopAdvice(holeCards, tableRules)
+        : getCompletedActionAdvice(handState);
+      console.log("📝 Pre-flop advice:", preflopAdvice);
+      setAdvice(preflopAdvice);
+    } else {
+      // Basic strategy answers at once; the exact EVs replace it when ready
+      setAdvice(
+        isDecisionPending(handState)
+          ? getStrategyAdvice(selectedCards, tableRules, seatDeadCards)
+          : getCompletedActionAdvice(handState),
+      );
     }
 
-    // Run Monte Carlo simulation for 5+ cards
-    console.log("🎲 Starting simulation for 5+ cards");
+    // Run the simulation, adaptively when it has to be sampled
+    console.log("🎲 Starting simulation");
     setIsSimulating(true);
-    setAdvice({
-      action: "🎲 Analyzing your hand...",
-      confidence: "medium",
-      reasoning: "Running probability calculations",
-      stage: gameStage,
-    });
+
+    // Cancelled when the cards change again or the hand is reset
+    const controller = new AbortController();
 
     // Run simulation
     const runSimulation = async () => {
       try {
         console.log(
-          `🚀 Starting simulation #${thisSimulation} with ${selectedCards.length} cards`,
+          `🚀 Starting simulation with ${selectedCards.length} cards`,
         );
 
-        const iterations = fastMode ? 300 : 1000;
-        const simulationFunction = fastMode
-          ? quickSimulation
-          : monteCarloSimulation;
-
-        const result = await simulationFunction(selectedCards, iterations);
+        const result = await runPooledSimulation(selectedCards, MAX_ITERATIONS, {
+          signal: controller.signal,
+          onProgress: setSimulationProgress,
+          adaptive: true,
+          seed: fixedSeed ?? undefined,
+          rules: tableRules,
+          deadCards: seatDeadCards,
+        });
 
-        console.log(`📊 Simulation #${thisSimulation} result:`, result);
+        console.log(`📊 Simulation result:`, result);
 
         // Only update if this simulation is still current
-        if (currentSimulationRef.current === thisSimulation) {
-          console.log(
-            `✅ Simulation #${thisSimulation} completed successfully - updating advice`,
-          );
+        if (!controller.signal.aborted) {
+          console.log(`✅ Simulation completed successfully - updating advice`);
 
           // Update simulation result first
           setSimulationResult(result);
-
-          // Get and set advice
-          const postflopAdvice = getPostflopAdvice(result.win, gameStage);
-          console.log(`📝 Generated advice:`, postflopAdvice);
-          setAdvice(postflopAdvice);
+          setSimulationProgress(null);
+
+          // Get and set advice from the highest-EV action
+          if (!preflop) {
+            const postflopAdvice =
+              isDecisionPending(handState) && result.actionEVs
+                ? getEVAdvice(
+                    result.actionEVs,
+                    gameStage,
+                    getStrategyDecision(selectedCards, tableRules, seatDeadCards),
+                  )
+                : getCompletedActionAdvice(handState);
+            console.log(`📝 Generated advice:`, postflopAdvice);
+            setAdvice(postflopAdvice);
+          }
 
           // Clear simulation state
           setIsSimulating(false);
           setSimulationError(null);
 
-          console.log(`🎯 Final advice set:`, postflopAdvice);
-        } else {
-          console.log(
-            `❌ Simulation #${thisSimulation} was superseded by #${currentSimulationRef.current}`,
-          );
         }
       } catch (error) {
-        console.error(`💥 Simulation #${thisSimulation} failed:`, error);
-
-        // Only update if this simulation is still current
-        if (currentSimulationRef.current === thisSimulation) {
-          const errorMessage =
-            error instanceof Error ? error.message : "Unknown simulation error";
-          setSimulationError(errorMessage);
-          setAdvice({
-            action: "⚠️ Calculation Error",
-            confidence: "low",
-            reasoning: "Unable to calculate probabilities",
-            stage: gameStage,
-          });
-          setIsSimulating(false);
+        if (controller.signal.aborted) {
+          console.log(`❌ Simulation was cancelled`);
+          return;
         }
+
+        console.error(`💥 Simulation failed:`, error);
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown simulation error";
+        setSimulationError(errorMessage);
+        setSimulationProgress(null);
+        setAdvice({
+          action: "⚠️ Calculation Error",
+          confidence: "low",
+          reasoning: "Unable to calculate probabilities",
+          stage: gameStage,
+        });
+        setIsSimulating(false);
       }
     };
 
     // Start simulation immediately
     runSimulation();
-  }, [selectedCards, fastMode]);
+
+    return () => controller.abort();
+  }, [selectedCards, seatDeadCards, recordedAction, fixedSeed, tableRules]);
 
   /**
    * Reset all state
    */
   const handleReset = () => {
     console.log("🔄 Resetting all state");
-    currentSimulationRef.current += 1; // Cancel any running simulation
-    setSelectedCards([]);
+    setTable(clearTable); // Cancels any running simulation
+    setDeadCards([]);
     setSimulationResult(null);
     setSimulationError(null);
+    setSimulationProgress(null);
     setIsSimulating(false);
     setAdvice({
       action: "Select your 2 hole cards to begin",
@@ -223,6 +357,24 @@ export default function App() {
     });
   };
 
+  /**
+   * Switch table rules; a recorded action may not be legal under the new ones
+   */
+  const handleRulesChange = (rules: TableRules) => {
+    console.log(`📜 Table rules: ${rules.name}`);
+    setTableRules(rules);
+    setTripsPaytable(rules.tripsPaytable);
+    setTable(clearRecordedActions);
+  };
+
+  /**
+   * Switch the Trips paytable without re-running the simulation
+   */
+  const handleTripsPaytableChange = (paytable: TripsPaytable) => {
+    console.log(`🎰 Trips paytable: ${paytable.name}`);
+    setTripsPaytable(paytable);
+  };
+
   /**
    * Get advice styling based on action type
    */
@@ -233,7 +385,7 @@ export default function App() {
       return "text-red-400 bg-red-900/20 border-red-500";
     } else if (action.includes("4x") || action.includes("3x")) {
       return "text-green-400 bg-green-900/20 border-green-500";
-    } else if (action.includes("2x")) {
+    } else if (action.includes("2x") || action.includes("1x")) {
       return "text-yellow-400 bg-yellow-900/20 border-yellow-500";
     } else if (action.includes("check")) {
       return "text-blue-400 bg-blue-900/20 border-blue-500";
@@ -314,10 +466,26 @@ export default function App() {
         >
           {cardPickerExpanded ? "🔽 Normal" : "🔼 Expand Cards"}
         </button>
+        <TableRulesSelect rules={tableRules} onChange={handleRulesChange} />
+      </div>
+
+      {/* Table Seats */}
+      <div className="px-4 pb-2 bg-gray-900/50">
+        <SeatsPanel
+          table={table}
+          decisions={seatDecisions}
+          onSelectSeat={(index) =>
+            setTable((current) => setActiveSeat(current, index))
+          }
+          onAddSeat={() => setTable(addSeat)}
+          onRemoveSeat={(index) =>
+            setTable((current) => removeSeat(current, index))
+          }
+        />
       </div>
 
       {/* Main Layout */}
-      <div className="h-[calc(100vh-180px)] p-4">
+      <div className="h-[calc(100vh-220px)] p-4">
         {cardPickerExpanded ? (
           /* Full Screen Card Picker with Combined Side Panel */
           <div className="h-full flex gap-4">
@@ -342,6 +510,10 @@ export default function App() {
                 <CardPicker
                   onSelect={setSelectedCards}
                   selectedCards={selectedCards}
+                  deadCards={deadCards}
+                  onDeadCardsChange={setDeadCards}
+                  unavailableCards={unavailableCards}
+                  bestHandCards={bestHand?.bestFive}
                   hideSelectedDisplay={true}
                 />
               </div>
@@ -362,24 +534,6 @@ export default function App() {
                       <Clock className="h-3 w-3 text-blue-400 animate-spin" />
                     )}
                   </h2>
-
-                  {/* Fast Mode Toggle */}
-                  <div className="flex items-center gap-2">
-                    <span className="text-xs text-gray-400">Fast</span>
-                    <button
-                      onClick={() => setFastMode(!fastMode)}
-                      disabled={isSimulating}
-                      className={`relative inline-flex h-4 w-8 items-center rounded-full transition-colors ${
-                        fastMode ? "bg-green-600" : "bg-gray-600"
-                      } ${isSimulating ? "opacity-50 cursor-not-allowed" : ""}`}
-                    >
-                      <span
-                        className={`inline-block h-2 w-2 transform rounded-full bg-white transition-transform ${
-                          fastMode ? "translate-x-5" : "translate-x-1"
-                        }`}
-                      />
-                    </button>
-                  </div>
                 </div>
 
                 <div
@@ -391,6 +545,11 @@ export default function App() {
                   <p className="text-center text-xs opacity-90 mb-2">
                     {advice.reasoning}
                   </p>
+                  {advice.rule && (
+                    <p className="text-center text-xs opacity-75 italic mb-2">
+                      📖 {advice.rule}
+                    </p>
+                  )}
                   <div className="flex justify-center items-center gap-2 text-xs flex-wrap">
                     <span
                       className={`px-2 py-1 rounded ${
@@ -414,6 +573,13 @@ export default function App() {
                   </div>
                 </div>
 
+                {/* Play Bet Recording */}
+                <BetControls
+                  handState={handState}
+                  recordedAction={recordedAction}
+                  onRecord={setRecordedAction}
+                />
+
                 {/* Error Display */}
                 {simulationError && (
                   <div className="mt-2 p-2 bg-red-900/20 border border-red-500 rounded-lg">
@@ -435,52 +601,73 @@ export default function App() {
                 <h3 className="text-sm font-bold mb-3 flex items-center gap-2">
                   <TrendingUp className="h-4 w-4 text-yellow-500" />
                   Monte Carlo & AI
-                  {fastMode && (
-                    <span className="text-xs bg-green-600 px-1 py-0.5 rounded">
-                      FAST
-                    </span>
-                  )}
                 </h3>
 
-                {isSimulating && (
+                {isSimulating && !displayedResult && (
                   <div className="flex flex-col items-center justify-center py-6">
                     <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-yellow-500 mb-3"></div>
                     <span className="text-gray-400 font-medium text-sm text-center">
-                      Running {fastMode ? "300" : "1,000"} simulations...
+                      {simulationLabel}
                     </span>
                   </div>
                 )}
 
-                {simulationResult && !isSimulating && !simulationError && (
+                {displayedResult && !simulationError && (
                   <div className="space-y-2 mb-4">
                     <ProgressBar
                       label="Win"
-                      value={simulationResult.win}
+                      value={displayedResult.win}
                       color="bg-gradient-to-r from-green-600 to-green-500"
                       icon={<span className="text-green-400">🏆</span>}
                     />
                     <ProgressBar
                       label="Tie"
-                      value={simulationResult.tie}
+                      value={displayedResult.tie}
                       color="bg-gradient-to-r from-blue-600 to-blue-500"
                       icon={<span className="text-blue-400">🤝</span>}
                     />
                     <ProgressBar
                       label="Lose"
-                      value={simulationResult.lose}
+                      value={displayedResult.lose}
                       color="bg-gradient-to-r from-red-600 to-red-500"
                       icon={<span className="text-red-400">💔</span>}
                     />
 
-                    <div className="pt-2 border-t border-gray-600">
-                      <div className="text-xs text-gray-400 text-center">
-                        {simulationResult.iterations.toLocaleString()}{" "}
-                        iterations
-                      </div>
-                    </div>
+                    <OutcomeBreakdown result={displayedResult} rules={tableRules} />
+                    {selectedCards.length === 5 && simulationResult && !isSimulating && (
+                      <RunoutExplorer
+                        knownCards={selectedCards}
+                        baselineWin={simulationResult.win}
+                        rules={tableRules}
+                        deadCards={seatDeadCards}
+                      />
+                    )}
+                    {dealerOuts && <DealerOutsPanel outs={dealerOuts} />}
+                    <ConfidenceSummary
+                      result={displayedResult}
+                      isSimulating={isSimulating}
+                    />
+                    {displayedResult.actionEVs && (
+                      <ActionEVList actionEVs={displayedResult.actionEVs} />
+                    )}
+                    {displayedResult.handDistribution && (
+                      <TripsPanel
+                        handDistribution={displayedResult.handDistribution}
+                        paytable={tripsPaytable}
+                        onPaytableChange={handleTripsPaytableChange}
+                        bet={tripsBet}
+                        onBetChange={setTripsBet}
+                      />
+                    )}
                   </div>
                 )}
 
+                <AdvancedSettings
+                  fixedSeed={fixedSeed}
+                  lastSeed={simulationResult?.seed}
+                  onSeedChange={setFixedSeed}
+                />
+
                 {simulationError && (
                   <div className="text-center py-6 text-red-400 mb-4">
                     <div className="text-2xl mb-2">⚠️</div>
@@ -512,6 +699,9 @@ export default function App() {
                     simulationResult={simulationResult}
                     gameStage={gameStage}
                     handDescription={handDescription}
+                    rules={advisorRules}
+                    deadCards={seatDeadCards}
+                    engineAdvice={advice}
                   />
                 </div>
               </div>
@@ -533,27 +723,6 @@ export default function App() {
                     <Clock className="h-3 w-3 text-blue-400 animate-spin" />
                   )}
                 </h2>
-
-                {/* Fast Mode Toggle */}
-                <div className="flex items-center gap-2">
-                  <span className="text-xs text-gray-400">Fast Mode</span>
-                  <button
-                    onClick={() => setFastMode(!fastMode)}
-                    disabled={isSimulating}
-                    className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors ${
-                      fastMode ? "bg-green-600" : "bg-gray-600"
-                    } ${isSimulating ? "opacity-50 cursor-not-allowed" : ""}`}
-                  >
-                    <span
-                      className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${
-                        fastMode ? "translate-x-5" : "translate-x-1"
-                      }`}
-                    />
-                  </button>
-                  <span className="text-xs text-gray-500">
-                    {fastMode ? "300" : "1000"}
-                  </span>
-                </div>
               </div>
 
               <div
@@ -565,6 +734,11 @@ export default function App() {
                 <p className="text-center text-xs opacity-90 mb-2">
                   {advice.reasoning}
                 </p>
+                {advice.rule && (
+                  <p className="text-center text-xs opacity-75 italic mb-2">
+                    📖 {advice.rule}
+                  </p>
+                )}
                 <div className="flex justify-center items-center gap-3 text-xs">
                   <span
                     className={`px-2 py-1 rounded ${
@@ -588,6 +762,13 @@ export default function App() {
                 </div>
               </div>
 
+              {/* Play Bet Recording */}
+              <BetControls
+                handState={handState}
+                recordedAction={recordedAction}
+                onRecord={setRecordedAction}
+              />
+
               {/* Error Display */}
               {simulationError && (
                 <div className="mt-2 p-2 bg-red-900/20 border border-red-500 rounded-lg">
@@ -619,6 +800,10 @@ export default function App() {
                 <CardPicker
                   onSelect={setSelectedCards}
                   selectedCards={selectedCards}
+                  deadCards={deadCards}
+                  onDeadCardsChange={setDeadCards}
+                  unavailableCards={unavailableCards}
+                  bestHandCards={bestHand?.bestFive}
                 />
               </div>
             </div>
@@ -664,6 +849,18 @@ export default function App() {
                       <p className="font-mono text-sm text-green-400 font-bold break-all">
                         {formatCards(communityCards)}
                       </p>
+                      {boardTexture && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {getBoardTextureLabels(boardTexture).map((label) => (
+                            <span
+                              key={label}
+                              className="px-1.5 py-0.5 rounded bg-gray-700 text-gray-300 text-xs"
+                            >
+                              {label}
+                            </span>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   )}
 
@@ -672,8 +869,24 @@ export default function App() {
                     <p className="font-bold text-sm text-yellow-500">
                       {handDescription}
                     </p>
+                    {bestHand && (
+                      <p className="text-xs text-gray-400 mt-1">
+                        <span className="font-mono">{formatCards(bestHand.bestFive)}</span>
+                        {" · "}
+                        {bestHand.playingHoleCards.length > 0
+                          ? `Plays ${formatCards(bestHand.playingHoleCards)}`
+                          : "Board plays"}
+                      </p>
+                    )}
+                    {playingTheBoard && (
+                      <p className="text-xs text-red-400 mt-1">
+                        ⚠️ Only playing the board — the dealer ties or beats you
+                      </p>
+                    )}
                   </div>
 
+                  {draws && <DrawsPanel analysis={draws} />}
+
                   <div className="pt-2 border-t border-gray-600">
                     <p className="text-gray-400 mb-2">🎯 Stage</p>
                     <div className="flex flex-col gap-1">
@@ -683,9 +896,9 @@ export default function App() {
                             ? "bg-blue-600"
                             : gameStage === "flop"
                               ? "bg-green-600"
-                              : gameStage === "turn"
-                                ? "bg-yellow-600"
-                                : "bg-red-600"
+                              : gameStage === "river"
+                                ? "bg-red-600"
+                                : "bg-purple-600"
                         }`}
                       >
                         {gameStage.toUpperCase()}
@@ -712,52 +925,73 @@ export default function App() {
                 <h3 className="text-sm font-bold mb-3 flex items-center gap-2">
                   <TrendingUp className="h-4 w-4 text-yellow-500" />
                   Monte Carlo & AI
-                  {fastMode && (
-                    <span className="text-xs bg-green-600 px-1 py-0.5 rounded">
-                      FAST
-                    </span>
-                  )}
                 </h3>
 
-                {isSimulating && (
+                {isSimulating && !displayedResult && (
                   <div className="flex flex-col items-center justify-center py-4">
                     <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-yellow-500 mb-2"></div>
                     <span className="text-gray-400 font-medium text-sm text-center">
-                      Running {fastMode ? "300" : "1,000"} simulations...
+                      {simulationLabel}
                     </span>
                   </div>
                 )}
 
-                {simulationResult && !isSimulating && !simulationError && (
+                {displayedResult && !simulationError && (
                   <div className="space-y-2 mb-4">
                     <ProgressBar
                       label="Win"
-                      value={simulationResult.win}
+                      value={displayedResult.win}
                       color="bg-gradient-to-r from-green-600 to-green-500"
                       icon={<span className="text-green-400">🏆</span>}
                     />
                     <ProgressBar
                       label="Tie"
-                      value={simulationResult.tie}
+                      value={displayedResult.tie}
                       color="bg-gradient-to-r from-blue-600 to-blue-500"
                       icon={<span className="text-blue-400">🤝</span>}
                     />
                     <ProgressBar
                       label="Lose"
-                      value={simulationResult.lose}
+                      value={displayedResult.lose}
                       color="bg-gradient-to-r from-red-600 to-red-500"
                       icon={<span className="text-red-400">💔</span>}
                     />
 
-                    <div className="pt-2 border-t border-gray-600">
-                      <div className="text-xs text-gray-400 text-center">
-                        {simulationResult.iterations.toLocaleString()}{" "}
-                        iterations
-                      </div>
-                    </div>
+                    <OutcomeBreakdown result={displayedResult} rules={tableRules} />
+                    {selectedCards.length === 5 && simulationResult && !isSimulating && (
+                      <RunoutExplorer
+                        knownCards={selectedCards}
+                        baselineWin={simulationResult.win}
+                        rules={tableRules}
+                        deadCards={seatDeadCards}
+                      />
+                    )}
+                    {dealerOuts && <DealerOutsPanel outs={dealerOuts} />}
+                    <ConfidenceSummary
+                      result={displayedResult}
+                      isSimulating={isSimulating}
+                    />
+                    {displayedResult.actionEVs && (
+                      <ActionEVList actionEVs={displayedResult.actionEVs} />
+                    )}
+                    {displayedResult.handDistribution && (
+                      <TripsPanel
+                        handDistribution={displayedResult.handDistribution}
+                        paytable={tripsPaytable}
+                        onPaytableChange={handleTripsPaytableChange}
+                        bet={tripsBet}
+                        onBetChange={setTripsBet}
+                      />
+                    )}
                   </div>
                 )}
 
+                <AdvancedSettings
+                  fixedSeed={fixedSeed}
+                  lastSeed={simulationResult?.seed}
+                  onSeedChange={setFixedSeed}
+                />
+
                 {simulationError && (
                   <div className="text-center py-4 text-red-400 mb-4">
                     <div className="text-xl mb-2">⚠️</div>
@@ -789,6 +1023,9 @@ export default function App() {
                     simulationResult={simulationResult}
                     gameStage={gameStage}
                     handDescription={handDescription}
+                    rules={advisorRules}
+                    deadCards={seatDeadCards}
+                    engineAdvice={advice}
                   />
                 </div>
               </div>
@@ -861,6 +1098,18 @@ export default function App() {
                         <p className="font-mono text-sm text-green-400 font-bold break-all">
                           {formatCards(communityCards)}
                         </p>
+                        {boardTexture && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {getBoardTextureLabels(boardTexture).map((label) => (
+                              <span
+                                key={label}
+                                className="px-1.5 py-0.5 rounded bg-gray-700 text-gray-300 text-xs"
+                              >
+                                {label}
+                              </span>
+                            ))}
+                          </div>
+                        )}
                       </div>
                     )}
 
@@ -869,8 +1118,24 @@ export default function App() {
                       <p className="font-bold text-sm text-yellow-500">
                         {handDescription}
                       </p>
+                      {bestHand && (
+                        <p className="text-xs text-gray-400 mt-1">
+                          <span className="font-mono">{formatCards(bestHand.bestFive)}</span>
+                          {" · "}
+                          {bestHand.playingHoleCards.length > 0
+                            ? `Plays ${formatCards(bestHand.playingHoleCards)}`
+                            : "Board plays"}
+                        </p>
+                      )}
+                      {playingTheBoard && (
+                        <p className="text-xs text-red-400 mt-1">
+                          ⚠️ Only playing the board — the dealer ties or beats you
+                        </p>
+                      )}
                     </div>
 
+                    {draws && <DrawsPanel analysis={draws} />}
+
                     <div className="pt-2 border-t border-gray-600">
                       <p className="text-gray-400 mb-2">🎯 Stage</p>
                       <div className="flex flex-col gap-1">
@@ -880,9 +1145,9 @@ export default function App() {
                               ? "bg-blue-600"
                               : gameStage === "flop"
                                 ? "bg-green-600"
-                                : gameStage === "turn"
-                                  ? "bg-yellow-600"
-                                  : "bg-red-600"
+                                : gameStage === "river"
+                                  ? "bg-red-600"
+                                  : "bg-purple-600"
                           }`}
                         >
                           {gameStage.toUpperCase()}
@@ -921,27 +1186,6 @@ export default function App() {
                       <Clock className="h-3 w-3 text-blue-400 animate-spin" />
                     )}
                   </h2>
-
-                  {/* Fast Mode Toggle */}
-                  <div className="flex items-center gap-2">
-                    <span className="text-xs text-gray-400">Fast Mode</span>
-                    <button
-                      onClick={() => setFastMode(!fastMode)}
-                      disabled={isSimulating}
-                      className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors ${
-                        fastMode ? "bg-green-600" : "bg-gray-600"
-                      } ${isSimulating ? "opacity-50 cursor-not-allowed" : ""}`}
-                    >
-                      <span
-                        className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${
-                          fastMode ? "translate-x-5" : "translate-x-1"
-                        }`}
-                      />
-                    </button>
-                    <span className="text-xs text-gray-500">
-                      {fastMode ? "300" : "1000"}
-                    </span>
-                  </div>
                 </div>
 
                 <div
@@ -953,6 +1197,11 @@ export default function App() {
                   <p className="text-center text-xs opacity-90 mb-2">
                     {advice.reasoning}
                   </p>
+                  {advice.rule && (
+                    <p className="text-center text-xs opacity-75 italic mb-2">
+                      📖 {advice.rule}
+                    </p>
+                  )}
                   <div className="flex justify-center items-center gap-3 text-xs">
                     <span
                       className={`px-2 py-1 rounded ${
@@ -976,6 +1225,13 @@ export default function App() {
                   </div>
                 </div>
 
+                {/* Play Bet Recording */}
+                <BetControls
+                  handState={handState}
+                  recordedAction={recordedAction}
+                  onRecord={setRecordedAction}
+                />
+
                 {/* Error Display */}
                 {simulationError && (
                   <div className="mt-2 p-2 bg-red-900/20 border border-red-500 rounded-lg">
@@ -1007,6 +1263,10 @@ export default function App() {
                   <CardPicker
                     onSelect={setSelectedCards}
                     selectedCards={selectedCards}
+                    deadCards={deadCards}
+                    onDeadCardsChange={setDeadCards}
+                    unavailableCards={unavailableCards}
+                    bestHandCards={bestHand?.bestFive}
                     hideSelectedDisplay={true}
                   />
                 </div>
@@ -1035,11 +1295,6 @@ export default function App() {
                     <h3 className="text-sm font-bold flex items-center gap-2">
                       <TrendingUp className="h-4 w-4 text-yellow-500" />
                       Monte Carlo & AI
-                      {fastMode && (
-                        <span className="text-xs bg-green-600 px-1 py-0.5 rounded">
-                          FAST
-                        </span>
-                      )}
                     </h3>
                     <button
                       onClick={() => setRightPanelCollapsed(true)}
@@ -1051,45 +1306,71 @@ export default function App() {
                   </div>
 
                   <div className="flex-1 overflow-auto">
-                    {isSimulating && (
+                    {isSimulating && !displayedResult && (
                       <div className="flex flex-col items-center justify-center py-4">
                         <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-yellow-500 mb-2"></div>
                         <span className="text-gray-400 font-medium text-sm text-center">
-                          Running {fastMode ? "300" : "1,000"} simulations...
+                          {simulationLabel}
                         </span>
                       </div>
                     )}
 
-                    {simulationResult && !isSimulating && !simulationError && (
+                    {displayedResult && !simulationError && (
                       <div className="space-y-2 mb-4">
                         <ProgressBar
                           label="Win"
-                          value={simulationResult.win}
+                          value={displayedResult.win}
                           color="bg-gradient-to-r from-green-600 to-green-500"
                           icon={<span className="text-green-400">🏆</span>}
                         />
                         <ProgressBar
                           label="Tie"
-                          value={simulationResult.tie}
+                          value={displayedResult.tie}
                           color="bg-gradient-to-r from-blue-600 to-blue-500"
                           icon={<span className="text-blue-400">🤝</span>}
                         />
                         <ProgressBar
                           label="Lose"
-                          value={simulationResult.lose}
+                          value={displayedResult.lose}
                           color="bg-gradient-to-r from-red-600 to-red-500"
                           icon={<span className="text-red-400">💔</span>}
                         />
 
-                        <div className="pt-2 border-t border-gray-600">
-                          <div className="text-xs text-gray-400 text-center">
-                            {simulationResult.iterations.toLocaleString()}{" "}
-                            iterations
-                          </div>
-                        </div>
+                        <OutcomeBreakdown result={displayedResult} rules={tableRules} />
+                        {selectedCards.length === 5 && simulationResult && !isSimulating && (
+                          <RunoutExplorer
+                            knownCards={selectedCards}
+                            baselineWin={simulationResult.win}
+                            rules={tableRules}
+                            deadCards={seatDeadCards}
+                          />
+                        )}
+                        {dealerOuts && <DealerOutsPanel outs={dealerOuts} />}
+                        <ConfidenceSummary
+                          result={displayedResult}
+                          isSimulating={isSimulating}
+                        />
+                        {displayedResult.actionEVs && (
+                          <ActionEVList actionEVs={displayedResult.actionEVs} />
+                        )}
+                        {displayedResult.handDistribution && (
+                          <TripsPanel
+                            handDistribution={displayedResult.handDistribution}
+                            paytable={tripsPaytable}
+                            onPaytableChange={handleTripsPaytableChange}
+                            bet={tripsBet}
+                            onBetChange={setTripsBet}
+                          />
+                        )}
                       </div>
                     )}
 
+                    <AdvancedSettings
+                      fixedSeed={fixedSeed}
+                      lastSeed={simulationResult?.seed}
+                      onSeedChange={setFixedSeed}
+                    />
+
                     {simulationError && (
                       <div className="text-center py-4 text-red-400 mb-4">
                         <div className="text-xl mb-2">⚠️</div>
@@ -1121,6 +1402,9 @@ export default function App() {
                         simulationResult={simulationResult}
                         gameStage={gameStage}
                         handDescription={handDescription}
+                        rules={advisorRules}
+                        deadCards={seatDeadCards}
+                        engineAdvice={advice}
                       />
                     </div>
 
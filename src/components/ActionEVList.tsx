@@ -0,0 +1,50 @@
+import { getBestAction, type ActionEV } from "../utils/expectedValue";
+import { Z_95 } from "../utils/statistics";
+import { formatEV, getActionLabel } from "./BetAdvisor";
+
+/**
+ * ActionEVList Props Interface
+ */
+interface ActionEVListProps {
+  actionEVs: ActionEV[];
+}
+
+/**
+ * Expected value breakdown for every legal action at the current decision
+ * point, in ante units, with 95% margins for sampled EVs. The best action
+ * is highlighted.
+ */
+export default function ActionEVList({ actionEVs }: ActionEVListProps) {
+  const best = getBestAction(actionEVs);
+
+  return (
+    <div className="pt-2 border-t border-gray-600">
+      <p className="text-xs text-gray-400 mb-1">Expected value (antes)</p>
+      <div className="space-y-1">
+        {actionEVs.map(({ action, ev, standardError }) => (
+          <div
+            key={action}
+            className={`flex justify-between items-center text-xs px-2 py-1 rounded ${
+              action === best.action
+                ? "bg-green-900/30 border border-green-500 text-green-300 font-bold"
+                : "bg-gray-700/30 text-gray-300"
+            }`}
+          >
+            <span>{getActionLabel(action)}</span>
+            <span className={ev >= 0 ? "text-green-400" : "text-red-400"}>
+              {formatEV(ev)}
+              {standardError !== undefined &&
+                standardError > 0 &&
+                isFinite(standardError) && (
+                  <span className="text-gray-500 font-normal">
+                    {" "}
+                    ±{(Z_95 * standardError).toFixed(2)}
+                  </span>
+                )}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
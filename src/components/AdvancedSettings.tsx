@@ -0,0 +1,96 @@
+import { useState } from "react";
+
+/**
+ * AdvancedSettings Props Interface
+ */
+interface AdvancedSettingsProps {
+  /** Seed every simulation is pinned to, or null for a fresh seed per run */
+  fixedSeed: number | null;
+  /** Seed of the last sampled run */
+  lastSeed?: number;
+  onSeedChange: (seed: number | null) => void;
+}
+
+/**
+ * Collapsible advanced simulation settings.
+ *
+ * Sampled runs record their seed; replaying with it reproduces the run
+ * exactly, which makes odd results easy to report and investigate.
+ */
+export default function AdvancedSettings({
+  fixedSeed,
+  lastSeed,
+  onSeedChange,
+}: AdvancedSettingsProps) {
+  const [open, setOpen] = useState(false);
+  const [seedInput, setSeedInput] = useState("");
+
+  if (lastSeed === undefined && fixedSeed === null) return null;
+
+  const applySeed = () => {
+    const seed = Number(seedInput);
+    if (seedInput.trim() !== "" && Number.isInteger(seed) && seed >= 0) {
+      onSeedChange(seed >>> 0);
+    }
+  };
+
+  return (
+    <div className="pt-2 border-t border-gray-600 text-xs">
+      <button
+        onClick={() => setOpen(!open)}
+        className="text-gray-400 hover:text-white transition-colors"
+      >
+        ⚙️ Advanced settings {open ? "▲" : "▼"}
+      </button>
+
+      {open && (
+        <div className="mt-2 space-y-2">
+          {lastSeed !== undefined && (
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-gray-400">
+                Last seed: <span className="font-mono">{lastSeed}</span>
+              </span>
+              <button
+                onClick={() => onSeedChange(lastSeed)}
+                className="bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded transition-colors"
+              >
+                Replay with seed
+              </button>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              inputMode="numeric"
+              value={seedInput}
+              onChange={(e) => setSeedInput(e.target.value)}
+              placeholder="Seed"
+              className="flex-1 min-w-0 bg-gray-900 border border-gray-600 rounded px-2 py-1 font-mono"
+            />
+            <button
+              onClick={applySeed}
+              className="bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded transition-colors"
+            >
+              Use seed
+            </button>
+          </div>
+
+          {fixedSeed !== null && (
+            <div className="flex items-center justify-between gap-2 text-yellow-400">
+              <span>
+                Pinned to seed <span className="font-mono">{fixedSeed}</span>
+              </span>
+              <button
+                onClick={() => onSeedChange(null)}
+                className="bg-gray-700 hover:bg-gray-600 text-white px-2 py-1 rounded transition-colors"
+              >
+                Random
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,324 @@
+/**
+ * Basic Strategy for Ultimate Texas Hold'em
+ *
+ * The established card-counting-free strategy, decision point by decision
+ * point. Every decision names the rule that produced it:
+ * - Pre-flop: a chart of all 169 starting-hand classes (4x bet or check)
+ * - Flop: bet 2x with two pair or better, a hidden pair (except pocket
+ *   deuces) or four to a flush with a hidden 10 or better of that suit
+ * - River: bet 1x with a hidden pair or better, or when fewer than 21
+ *   dealer cards beat you; otherwise fold
+ *
+ * The rules are stated for standard bet sizes; under other table rules a
+ * bet decision is made with the largest bet the table allows.
+ */
+
+import {
+  getBetAction,
+  HAND_RANK,
+  type DecisionPoint,
+  type UTHAction,
+} from "../utils/expectedValue";
+import {
+  DEFAULT_TABLE_RULES,
+  getMaxBetSize,
+  type TableRules,
+} from "../utils/tableRules";
+import { getBoardTexture, isPlayingTheBoard } from "./BoardTexture";
+import { getDealerOuts, getScoreRank, scoreHand } from "./HandEvaluator";
+
+/**
+ * A basic-strategy decision and the rule that produced it
+ */
+export interface StrategyDecision {
+  action: UTHAction;
+  /** Identifier of the rule that fired, e.g. "flop.hiddenPair" */
+  rule: string;
+  /** The rule as a player would state it */
+  description: string;
+  /** Whether the hand sits at the edge of the rule (a close decision) */
+  borderline: boolean;
+}
+
+const rankOrder = ['2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A'];
+
+// Below this many dealer outs the river bet is still profitable
+export const DEALER_OUTS_LIMIT = 21;
+
+function rankOf(card: string): string {
+  return card.slice(0, -1);
+}
+
+function suitOf(card: string): string {
+  return card.slice(-1);
+}
+
+function rankIndex(rank: string): number {
+  return rankOrder.indexOf(rank);
+}
+
+/**
+ * Size a bet decision to the largest bet the table allows at its decision
+ * point, restating the rule with that size
+ */
+function sizeDecision(
+  decision: StrategyDecision,
+  point: DecisionPoint,
+  rules: TableRules,
+): StrategyDecision {
+  if (decision.action === 'check' || decision.action === 'fold') return decision;
+  const size = getMaxBetSize(rules, point);
+  return {
+    ...decision,
+    action: getBetAction(size),
+    description: decision.description.replace(/^Bet \dx/, `Bet ${size}x`),
+  };
+}
+
+/**
+ * Lowest kicker raised 4x with each high card, suited and offsuit.
+ * High cards not listed only raise as a pair.
+ */
+const raiseKickers: Record<string, { suited: string; offsuit: string; rule: string; description: string }> = {
+  A: { suited: '2', offsuit: '2', rule: 'preflop.anyAce', description: "Bet 4x with any ace" },
+  K: { suited: '2', offsuit: '5', rule: 'preflop.king', description: "Bet 4x with a king: any suited, 5 or better offsuit" },
+  Q: { suited: '6', offsuit: '8', rule: 'preflop.queen', description: "Bet 4x with a queen: 6 or better suited, 8 or better offsuit" },
+  J: { suited: '8', offsuit: '10', rule: 'preflop.jack', description: "Bet 4x with a jack: 8 or better suited, 10 or better offsuit" },
+};
+
+/**
+ * Gets the starting-hand class of two hole cards, e.g. "AKs", "J10o", "77"
+ */
+export function getHandClass(holeCards: string[]): string {
+  const [high, low] = [...holeCards].sort((a, b) => rankIndex(rankOf(b)) - rankIndex(rankOf(a)));
+  if (rankOf(high) === rankOf(low)) return `${rankOf(high)}${rankOf(low)}`;
+  return `${rankOf(high)}${rankOf(low)}${suitOf(high) === suitOf(low) ? 's' : 'o'}`;
+}
+
+/**
+ * Gets two hole cards of a starting-hand class, the inverse of `getHandClass`
+ *
+ * @param handClass Starting-hand class, e.g. "AKs", "J10o", "77"
+ * @returns Two hole cards of that class, e.g. ["Ah", "Kh"]
+ */
+export function getHandClassCards(handClass: string): string[] {
+  const match = /^(10|[2-9JQKA])(10|[2-9JQKA])([so]?)$/.exec(handClass);
+  if (!match) {
+    throw new Error(`Invalid starting-hand class: ${handClass}`);
+  }
+  const [, high, low, suitedness] = match;
+  if ((high === low) !== (suitedness === '')) {
+    throw new Error(`Invalid starting-hand class: ${handClass}`);
+  }
+  return [`${high}h`, `${low}${suitedness === 's' ? 'h' : 's'}`];
+}
+
+/**
+ * Pre-flop decision for a starting-hand class
+ */
+function classifyStartingHand(high: string, low: string, suited: boolean): StrategyDecision {
+  if (high === low) {
+    return high === '2'
+      ? { action: 'check', rule: 'preflop.deuces', description: "Check pocket deuces", borderline: true }
+      : { action: 'bet4x', rule: 'preflop.pair', description: "Bet 4x with any pair 3-3 or better", borderline: high === '3' };
+  }
+
+  const kickers = raiseKickers[high];
+  if (kickers) {
+    const threshold = rankIndex(suited ? kickers.suited : kickers.offsuit);
+    const kicker = rankIndex(low);
+    if (kicker >= threshold) {
+      return { action: 'bet4x', rule: kickers.rule, description: kickers.description, borderline: kicker === threshold && threshold > 0 };
+    }
+    return { action: 'check', rule: 'preflop.check', description: "Check everything outside the raising chart", borderline: kicker === threshold - 1 };
+  }
+
+  // Ten-high and lower only raise as a pair
+  return { action: 'check', rule: 'preflop.check', description: "Check everything outside the raising chart", borderline: false };
+}
+
+/**
+ * Pre-flop basic strategy for all 169 starting-hand classes under standard
+ * rules, keyed by `getHandClass`
+ */
+export const PREFLOP_CHART: Record<string, StrategyDecision> = (() => {
+  const chart: Record<string, StrategyDecision> = {};
+  for (let i = rankOrder.length - 1; i >= 0; i--) {
+    for (let j = i; j >= 0; j--) {
+      const high = rankOrder[i];
+      const low = rankOrder[j];
+      if (i === j) {
+        chart[`${high}${low}`] = classifyStartingHand(high, low, false);
+      } else {
+        chart[`${high}${low}s`] = classifyStartingHand(high, low, true);
+        chart[`${high}${low}o`] = classifyStartingHand(high, low, false);
+      }
+    }
+  }
+  return chart;
+})();
+
+/**
+ * Pre-flop basic-strategy decision
+ *
+ * @param holeCards Array of exactly 2 hole cards
+ * @param rules Table rules giving the bet sizes
+ * @returns 4x bet (or the largest allowed) or check, with the rule that fired
+ */
+export function getPreflopDecision(
+  holeCards: string[],
+  rules: TableRules = DEFAULT_TABLE_RULES
+): StrategyDecision {
+  if (holeCards.length !== 2) {
+    throw new Error("Pre-flop strategy needs exactly 2 hole cards");
+  }
+  return sizeDecision(PREFLOP_CHART[getHandClass(holeCards)], 'preflop', rules);
+}
+
+/**
+ * Whether the hole cards are in the pre-flop raising range
+ *
+ * @param holeCards Array of 2 hole cards
+ * @returns True when basic strategy bets pre-flop
+ */
+export function isPremiumHand(holeCards: string[]): boolean {
+  if (holeCards.length !== 2) return false;
+  return getPreflopDecision(holeCards).action !== 'check';
+}
+
+/**
+ * Whether a hole card pairs the other hole card or the board
+ */
+function hasHiddenPair(holeCards: string[], board: string[]): boolean {
+  const [first, second] = holeCards.map(rankOf);
+  const boardRanks = board.map(rankOf);
+  return first === second || boardRanks.includes(first) || boardRanks.includes(second);
+}
+
+/**
+ * Hole cards of a four-card flush draw, or none. Counted directly rather
+ * than with `getDraws`, which also works out every draw's outs: the
+ * simulations call the flop rule once per sampled board.
+ */
+function getFlushDrawHoleCards(holeCards: string[], board: string[]): string[] {
+  const cards = [...holeCards, ...board];
+  for (const suit of new Set(holeCards.map(suitOf))) {
+    if (cards.filter(card => suitOf(card) === suit).length === 4) {
+      return holeCards.filter(card => suitOf(card) === suit);
+    }
+  }
+  return [];
+}
+
+/**
+ * Flop basic-strategy decision
+ *
+ * @param cards 2 hole cards followed by the 3 flop cards
+ * @param rules Table rules giving the bet sizes
+ * @returns 2x bet (or the largest allowed) or check, with the rule that fired
+ */
+export function getFlopDecision(
+  cards: string[],
+  rules: TableRules = DEFAULT_TABLE_RULES
+): StrategyDecision {
+  if (cards.length !== 5) {
+    throw new Error("Flop strategy needs 2 hole cards and 3 community cards");
+  }
+
+  const holeCards = cards.slice(0, 2);
+  const board = cards.slice(2);
+  const handRank = getScoreRank(scoreHand(cards));
+
+  if (handRank >= HAND_RANK.twoPair && handRank > getBoardTexture(board).boardRank) {
+    return sizeDecision({ action: 'bet2x', rule: 'flop.twoPairOrBetter', description: "Bet 2x with two pair or better", borderline: false }, 'flop', rules);
+  }
+
+  const pocketDeuces = holeCards.every(card => rankOf(card) === '2');
+  if (hasHiddenPair(holeCards, board) && !pocketDeuces) {
+    return sizeDecision({ action: 'bet2x', rule: 'flop.hiddenPair', description: "Bet 2x with a hidden pair, except pocket deuces", borderline: false }, 'flop', rules);
+  }
+
+  // Four to a flush with a hidden 10 or better of that suit
+  const flushHigh = Math.max(-1, ...getFlushDrawHoleCards(holeCards, board).map(card => rankIndex(rankOf(card))));
+  if (flushHigh >= rankIndex('10')) {
+    return sizeDecision({ action: 'bet2x', rule: 'flop.flushDraw', description: "Bet 2x with four to a flush including a hidden 10 or better", borderline: flushHigh === rankIndex('10') }, 'flop', rules);
+  }
+
+  return { action: 'check', rule: 'flop.check', description: "Check everything else on the flop", borderline: pocketDeuces };
+}
+
+/**
+ * River basic-strategy decision
+ *
+ * @param cards 2 hole cards followed by the 5 community cards
+ * @param rules Table rules giving the bet sizes
+ * @param deadCards Cards seen elsewhere, left out of the dealer's outs
+ * @returns 1x bet (or the largest allowed) or fold, with the rule that fired
+ */
+export function getRiverDecision(
+  cards: string[],
+  rules: TableRules = DEFAULT_TABLE_RULES,
+  deadCards: string[] = []
+): StrategyDecision {
+  if (cards.length !== 7) {
+    throw new Error("River strategy needs 2 hole cards and 5 community cards");
+  }
+
+  const holeCards = cards.slice(0, 2);
+  const board = cards.slice(2);
+  const handRank = getScoreRank(scoreHand(cards));
+  const texture = getBoardTexture(board);
+
+  // Below a flush, any dealer card of the board's suit makes one
+  const flushNote = texture.fourFlush && handRank < HAND_RANK.flush
+    ? " — four to a flush on board, any card of that suit gives the dealer a flush"
+    : "";
+
+  if (hasHiddenPair(holeCards, board) || handRank > texture.boardRank) {
+    return sizeDecision({ action: 'bet1x', rule: 'river.hiddenPair', description: `Bet 1x with a hidden pair or better${flushNote}`, borderline: false }, 'river', rules);
+  }
+
+  const outs = getDealerOuts(cards, deadCards).winning.length;
+  if (outs < DEALER_OUTS_LIMIT) {
+    return sizeDecision({
+      action: 'bet1x',
+      rule: 'river.dealerOuts',
+      description: `Bet 1x with fewer than ${DEALER_OUTS_LIMIT} dealer outs (${outs} here)${flushNote}`,
+      borderline: outs >= DEALER_OUTS_LIMIT - 2,
+    }, 'river', rules);
+  }
+
+  // Playing the board, every dealer card that plays beats you
+  const boardNote = isPlayingTheBoard(cards) ? " — you are only playing the board" : flushNote;
+  return {
+    action: 'fold',
+    rule: 'river.fold',
+    description: `Fold with ${DEALER_OUTS_LIMIT} or more dealer outs (${outs} here)${boardNote}`,
+    borderline: outs <= DEALER_OUTS_LIMIT + 1,
+  };
+}
+
+/**
+ * Basic-strategy decision for whichever decision point the cards reach
+ *
+ * @param cards Known cards (hole + community)
+ * @param rules Table rules giving the bet sizes
+ * @param deadCards Cards seen elsewhere at the table
+ * @returns Decision, or null when the player is not at a decision point
+ */
+export function getStrategyDecision(
+  cards: string[],
+  rules: TableRules = DEFAULT_TABLE_RULES,
+  deadCards: string[] = []
+): StrategyDecision | null {
+  switch (cards.length) {
+    case 2:
+      return getPreflopDecision(cards, rules);
+    case 5:
+      return getFlopDecision(cards, rules);
+    case 7:
+      return getRiverDecision(cards, rules, deadCards);
+    default:
+      return null;
+  }
+}
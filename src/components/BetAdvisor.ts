@@ -2,15 +2,38 @@
  * Betting Advice System for Ultimate Texas Hold'em
  * 
  * Provides strategic recommendations based on:
- * - Pre-flop hand strength (2 hole cards)
- * - Post-flop Monte Carlo simulation results (5+ cards)
+ * - Pre-flop EV table precomputed for all 169 starting hands, with the
+ *   basic-strategy chart as the fallback (2 hole cards)
+ * - Post-flop expected value of each action (5+ cards), checked against
+ *   the basic-strategy rules
  * - Game stage and betting rules
  */
 
-/**
- * Game stages in Ultimate Texas Hold'em
- */
-export type GameStage = 'preflop' | 'flop' | 'turn' | 'river';
+import {
+  getBestAction,
+  getDecisionPoint,
+  type ActionEV,
+  type UTHAction,
+} from "../utils/expectedValue";
+import { getPreflopEntry } from "../utils/preflopTable";
+import {
+  DEFAULT_TABLE_RULES,
+  getMaxBetSize,
+  type TableRules,
+} from "../utils/tableRules";
+import {
+  getHandClass,
+  getPreflopDecision,
+  getStrategyDecision,
+  type StrategyDecision,
+} from "./BasicStrategy";
+import { describeDraw, getDraws } from "./DrawAnalyzer";
+import {
+  getAllowedBetSizes,
+  isDecisionPending,
+  type GameStage,
+  type HandState,
+} from "./HandState";
 
 /**
  * Betting advice with confidence level
@@ -20,20 +43,33 @@ export interface BettingAdvice {
   confidence: 'high' | 'medium' | 'low';
   reasoning: string;
   stage: GameStage;
+  actionEVs?: ActionEV[];
+  /** The recommended action, when the player faces a decision */
+  recommendedAction?: UTHAction;
+  /** The strategy rule behind the advice */
+  rule?: string;
 }
 
 /**
- * Pre-flop betting advice based on hole cards strength.
+ * Pre-flop betting advice.
+ * 
+ * The hand is looked up in the precomputed pre-flop EV table and the
+ * highest-EV action is recommended, as after the flop. For rules without a
+ * table the basic-strategy chart answers instead.
  * 
  * Ultimate Texas Hold'em Pre-flop Strategy:
- * - Bet 4x with premium hands (pairs, A-x suited, Broadway cards)
- * - Bet 2x with playable hands
- * - Check/Fold with marginal hands
+ * - Bet 4x (or the table's largest pre-flop bet) with pairs 3-3+, any ace,
+ *   K2s+/K5o+, Q6s+/Q8o+, J8s+/J10o+
+ * - Check everything else (a flop bet may follow)
  * 
  * @param holeCards Array of exactly 2 hole cards
+ * @param rules Table rules giving the bet sizes
  * @returns Betting advice object
  */
-export function getPreflopAdvice(holeCards: string[]): BettingAdvice {
+export function getPreflopAdvice(
+  holeCards: string[],
+  rules: TableRules = DEFAULT_TABLE_RULES
+): BettingAdvice {
   if (holeCards.length !== 2) {
     return {
       action: "Select exactly 2 hole cards",
@@ -43,236 +79,278 @@ export function getPreflopAdvice(holeCards: string[]): BettingAdvice {
     };
   }
 
-  const [card1, card2] = holeCards;
-  const rank1 = card1.slice(0, -1);
-  const suit1 = card1.slice(-1);
-  const rank2 = card2.slice(0, -1);
-  const suit2 = card2.slice(-1);
+  const handClass = getHandClass(holeCards);
+  const decision = getPreflopDecision(holeCards, rules);
+  const betSize = getMaxBetSize(rules, 'preflop');
 
-  const suited = suit1 === suit2;
-  const ranks = [rank1, rank2].sort();
-  const strongRanks = ['A', 'K', 'Q', 'J', '10'];
-  const isPair = rank1 === rank2;
-
-  // Pocket Aces - Premium hand
-  if (isPair && rank1 === 'A') {
+  const entry = getPreflopEntry(holeCards, rules);
+  if (entry) {
+    const advice = getEVAdvice(entry.actionEVs, 'preflop', decision);
     return {
-      action: "🔥 Pocket Rockets — Max it! (4x Bet)",
-      confidence: 'high',
-      reasoning: "Pocket Aces are the strongest starting hand",
-      stage: 'preflop'
+      ...advice,
+      action: handClass === 'AA' && advice.action !== getActionLabel('check')
+        ? `🔥 Pocket Rockets — Max it! (${betSize}x Bet)`
+        : `${advice.action} (${handClass})`,
+      reasoning: `${advice.reasoning} · wins ${entry.win.toFixed(1)}% against a random dealer hand`
     };
   }
 
-  // Any other pair - bet 4x
-  if (isPair) {
-    const pairName = rank1 === 'K' ? 'Kings' : 
-                    rank1 === 'Q' ? 'Queens' : 
-                    rank1 === 'J' ? 'Jacks' : 
-                    rank1 === '10' ? 'Tens' : `${rank1}s`;
+  // Pocket Aces - Premium hand
+  if (handClass === 'AA') {
     return {
-      action: "🚀 4x Bet (Pair)",
+      action: `🔥 Pocket Rockets — Max it! (${betSize}x Bet)`,
       confidence: 'high',
-      reasoning: `Pocket ${pairName} are strong pre-flop`,
-      stage: 'preflop'
+      reasoning: "Pocket Aces are the strongest starting hand",
+      stage: 'preflop',
+      recommendedAction: decision.action,
+      rule: decision.description
     };
   }
 
-  // A-x suited - bet 4x
-  if ((rank1 === 'A' || rank2 === 'A') && suited) {
+  if (decision.action !== 'check') {
     return {
-      action: "🚀 4x Bet (Suited Ace)",
-      confidence: 'high',
-      reasoning: "Suited Ace has excellent potential",
-      stage: 'preflop'
+      action: `🚀 ${betSize}x Bet (${handClass})`,
+      confidence: decision.borderline ? 'medium' : 'high',
+      reasoning: decision.borderline
+        ? `${handClass} is at the bottom of the ${betSize}x raising range`
+        : `${handClass} is in the ${betSize}x raising range`,
+      stage: 'preflop',
+      recommendedAction: decision.action,
+      rule: decision.description
     };
   }
 
-  // Both cards are Broadway (10, J, Q, K, A)
-  if (strongRanks.includes(rank1) && strongRanks.includes(rank2)) {
-    if (suited) {
-      return {
-        action: "🚀 4x Bet (Strong Combo)",
-        confidence: 'high',
-        reasoning: "Suited high cards are premium",
-        stage: 'preflop'
-      };
-    } else {
-      // AK offsuit is still strong
-      if (ranks.includes('A') && ranks.includes('K')) {
-        return {
-          action: "🚀 4x Bet (Big Slick)",
-          confidence: 'high',
-          reasoning: "AK offsuit is a premium hand",
-          stage: 'preflop'
-        };
-      }
-      return {
-        action: "💪 2x Bet (Playable)",
-        confidence: 'medium',
-        reasoning: "Strong cards but wait for better spot",
-        stage: 'preflop'
-      };
-    }
-  }
+  return {
+    action: `🤔 Check (${handClass})`,
+    confidence: decision.borderline ? 'medium' : 'high',
+    reasoning: decision.borderline
+      ? `${handClass} just misses the raising range — look for a 2x bet on the flop`
+      : `${handClass} is too weak to raise — look for a 2x bet on the flop`,
+    stage: 'preflop',
+    recommendedAction: decision.action,
+    rule: decision.description
+  };
+}
 
-  // K-x suited or Q-x suited (decent kicker)
-  if (((rank1 === 'K' || rank2 === 'K') || (rank1 === 'Q' || rank2 === 'Q')) && suited) {
-    const otherRank = rank1 === 'K' || rank1 === 'Q' ? rank2 : rank1;
-    const rankOrder = ['2','3','4','5','6','7','8','9','10','J','Q','K','A'];
-    if (rankOrder.indexOf(otherRank) >= 4) { // 6 or better
-      return {
-        action: "💪 2x Bet (Playable)",
-        confidence: 'medium',
-        reasoning: "Decent suited hand with potential",
-        stage: 'preflop'
-      };
-    }
-  }
+/**
+ * Flop and river betting advice from basic strategy, available instantly
+ * while the exact EVs are still being calculated. On the flop the reasoning
+ * names the strongest draw.
+ * 
+ * @param cards Known cards at the flop (5) or river (7)
+ * @param rules Table rules giving the bet sizes
+ * @param deadCards Cards seen elsewhere at the table
+ * @returns Betting advice object citing the rule that fired
+ */
+export function getStrategyAdvice(
+  cards: string[],
+  rules: TableRules = DEFAULT_TABLE_RULES,
+  deadCards: string[] = []
+): BettingAdvice {
+  const decision = getStrategyDecision(cards, rules, deadCards);
+  const stage = getDecisionPoint(cards.length);
 
-  // Trash hands
-  const isTrash = (ranks.includes('2') || ranks.includes('3')) && 
-                  !suited && 
-                  !strongRanks.some(r => ranks.includes(r));
-  
-  if (isTrash) {
+  if (!decision || !stage) {
     return {
-      action: "🛑 Check or Fold",
-      confidence: 'high',
-      reasoning: "Very weak starting hand",
-      stage: 'preflop'
+      action: "Add more community cards for analysis",
+      confidence: 'low',
+      reasoning: "Basic strategy applies at the flop and river",
+      stage: stage ?? 'flop'
     };
   }
 
-  // Default: check
+  // On the flop, name the strongest draw the turn and river can complete
+  const strongestDraw = stage === 'flop' ? getDraws(cards, deadCards).draws[0] : undefined;
+  const reasoning = decision.borderline ? "Basic strategy — a close decision" : "Basic strategy";
+
   return {
-    action: "🤔 Check or Fold",
-    confidence: 'medium',
-    reasoning: "Marginal hand, wait for more information",
-    stage: 'preflop'
+    action: getActionLabel(decision.action),
+    confidence: decision.borderline ? 'medium' : 'high',
+    reasoning: strongestDraw ? `${reasoning} · ${describeDraw(strongestDraw)}` : reasoning,
+    stage,
+    recommendedAction: decision.action,
+    rule: decision.description
   };
 }
 
 /**
- * Post-flop betting advice based on Monte Carlo win percentage.
+ * Display names and icons for each betting action
+ */
+const actionNames: Record<UTHAction, string> = {
+  bet4x: "Bet 4x",
+  bet3x: "Bet 3x",
+  bet2x: "Bet 2x",
+  bet1x: "Bet 1x",
+  check: "Check",
+  fold: "Fold",
+};
+
+const actionIcons: Record<UTHAction, string> = {
+  bet4x: "🚀",
+  bet3x: "🚀",
+  bet2x: "💪",
+  bet1x: "💪",
+  check: "🤔",
+  fold: "🛑",
+};
+
+/**
+ * Gets the display label for a betting action
+ *
+ * @param action Betting action
+ * @param withIcon Prefix the label with its icon
+ * @returns Label like "Bet 4x" or "🚀 Bet 4x"
+ */
+export function getActionLabel(action: UTHAction, withIcon: boolean = true): string {
+  return withIcon ? `${actionIcons[action]} ${actionNames[action]}` : actionNames[action];
+}
+
+/**
+ * Formats an expected value in ante units with an explicit sign
+ *
+ * @param ev Expected value in ante units
+ * @returns Formatted string, e.g. "+0.42"
+ */
+export function formatEV(ev: number): string {
+  return `${ev >= 0 ? "+" : ""}${ev.toFixed(2)}`;
+}
+
+/**
+ * Post-flop betting advice from the expected value of every legal action.
  * 
- * Ultimate Texas Hold'em Post-flop Strategy:
- * - Bet 3x with strong hands (65%+ win rate)
- * - Bet 2x with decent hands (45-65% win rate)  
- * - Check with marginal hands (35-45% win rate)
- * - Fold with very weak hands (<35% win rate)
+ * Recommends the action with the highest EV. Confidence reflects how far
+ * ahead it is of the next best action:
+ * - High: 0.5+ antes better
+ * - Medium: 0.15-0.5 antes better
+ * - Low: close decision
  * 
- * @param winPercent Win percentage from Monte Carlo simulation
+ * The rule cited is the basic-strategy rule when it agrees with the EV
+ * engine; when it does not, the disagreement is spelled out instead.
+ * 
+ * @param actionEVs Action EVs from the simulation
  * @param stage Current game stage
+ * @param strategy Basic-strategy decision for the same cards
  * @returns Betting advice object
  */
-export function getPostflopAdvice(winPercent: number, stage: GameStage = 'flop'): BettingAdvice {
-  console.log(`🎯 Getting postflop advice: ${winPercent.toFixed(1)}% win rate, stage: ${stage}`);
-  
-  // Validate input
-  if (typeof winPercent !== 'number' || isNaN(winPercent)) {
-    console.error('❌ Invalid win percentage:', winPercent);
+export function getEVAdvice(
+  actionEVs: ActionEV[],
+  stage: GameStage = 'flop',
+  strategy?: StrategyDecision | null
+): BettingAdvice {
+  if (actionEVs.length === 0 || actionEVs.some(({ ev }) => isNaN(ev))) {
+    console.error('❌ Invalid action EVs:', actionEVs);
     return {
-      action: "⚠️ Error: Invalid win percentage",
+      action: "⚠️ Error: Invalid expected values",
       confidence: 'low',
       reasoning: "Simulation returned invalid data",
       stage
     };
   }
 
-  // Very strong hands (70%+ win rate) - Bet 3x
-  if (winPercent >= 70) {
-    console.log('✅ Very strong hand detected - recommending 3x bet');
-    return {
-      action: "🚀 Bet 3x (Excellent Hand!)",
-      confidence: 'high',
-      reasoning: `${winPercent.toFixed(1)}% win rate is excellent - maximize value`,
-      stage
-    };
-  }
-  
-  // Strong hands (55-70% win rate) - Bet 3x
-  if (winPercent >= 55) {
-    console.log('✅ Strong hand detected - recommending 3x bet');
+  const best = getBestAction(actionEVs);
+  const runnerUp = actionEVs
+    .filter(({ action }) => action !== best.action)
+    .reduce<ActionEV | null>((next, current) => (!next || current.ev > next.ev ? current : next), null);
+  const margin = runnerUp ? best.ev - runnerUp.ev : Infinity;
+
+  console.log(`🎯 Best action: ${best.action} (EV ${formatEV(best.ev)}, margin ${margin.toFixed(2)})`);
+
+  const agrees = !strategy || strategy.action === best.action;
+
+  return {
+    action: getActionLabel(best.action),
+    confidence: margin >= 0.5 ? 'high' : margin >= 0.15 ? 'medium' : 'low',
+    reasoning: runnerUp
+      ? `EV ${formatEV(best.ev)} antes, ${margin.toFixed(2)} better than ${getActionLabel(runnerUp.action, false).toLowerCase()}`
+      : `EV ${formatEV(best.ev)} antes`,
+    stage,
+    actionEVs,
+    recommendedAction: best.action,
+    rule: !strategy
+      ? "Highest expected value"
+      : agrees
+        ? strategy.description
+        : `Highest expected value — basic strategy says ${getActionLabel(strategy.action, false).toLowerCase()} (${strategy.description})`
+  };
+}
+
+/**
+ * Advice for a hand where the player is not facing a decision: a Play bet
+ * has already been made or the hand is over.
+ *
+ * @param state Current hand state
+ * @returns Betting advice object
+ */
+export function getCompletedActionAdvice(state: HandState): BettingAdvice {
+  if (state.folded) {
     return {
-      action: "🚀 Bet 3x (Strong Position)",
+      action: "🛑 Folded",
       confidence: 'high',
-      reasoning: `${winPercent.toFixed(1)}% win rate gives you a strong edge`,
-      stage
+      reasoning: "Ante and Blind are forfeited",
+      stage: state.stage,
+      rule: "A fold ends the hand"
     };
   }
-  
-  // Good hands (45-55% win rate) - Bet 2x
-  if (winPercent >= 45) {
-    console.log('✅ Good hand detected - recommending 2x bet');
+
+  if (state.playBet) {
     return {
-      action: "💪 Bet 2x (Favorable Odds)",
+      action: `✅ Play Bet In (${state.playBet.multiplier}x)`,
       confidence: 'high',
-      reasoning: `${winPercent.toFixed(1)}% win rate gives you an edge`,
-      stage
+      reasoning: "No further bets are allowed — the hand plays out to the showdown",
+      stage: state.stage,
+      rule: "Only one Play bet per hand"
     };
   }
-  
-  // Marginal hands (35-45% win rate) - Check
-  if (winPercent >= 35) {
-    console.log('⚠️ Marginal hand detected - recommending check');
-    return {
-      action: "🤔 Check (Marginal Hand)",
-      confidence: 'medium',
-      reasoning: `${winPercent.toFixed(1)}% win rate - see more cards for free`,
-      stage
-    };
-  }
-  
-  // Weak hands (<35% win rate) - Fold
-  console.log('❌ Weak hand detected - recommending fold');
+
   return {
-    action: "🛑 Fold (Too Risky)",
+    action: "🏁 Showdown",
     confidence: 'high',
-    reasoning: `${winPercent.toFixed(1)}% win rate is too low to continue`,
-    stage
+    reasoning: "All decisions are complete",
+    stage: state.stage,
+    rule: state.rules.dealerMustQualify
+      ? "Dealer must qualify with a pair or better"
+      : "Dealer always qualifies"
   };
 }
 
 /**
- * Gets the current game stage based on number of selected cards
- * 
- * @param cardCount Number of selected cards
- * @returns Current game stage
- */
-export function getGameStage(cardCount: number): GameStage {
-  if (cardCount <= 2) return 'preflop';
-  if (cardCount <= 5) return 'flop';
-  if (cardCount === 6) return 'turn';
-  return 'river';
-}
-
-/**
- * Gets contextual tip message based on game stage
+ * Gets contextual tip message based on the hand state
  * 
- * @param stage Current game stage
- * @param cardCount Number of selected cards
+ * @param state Current hand state
  * @returns Tip message string
  */
-export function getTipMessage(stage: GameStage, cardCount: number): string {
-  switch (stage) {
+export function getTipMessage(state: HandState): string {
+  const cardCount = state.cards.length;
+  const betSizes = getAllowedBetSizes(state).map(size => `${size}x`).join(" or ");
+
+  if (state.folded) return "🛑 Hand folded — clear the cards to start a new hand";
+  if (state.stage === 'showdown') return "🏁 Showdown — compare your hand with the dealer's";
+
+  if (state.playBet && state.cardsNeeded === 0) {
+    return `✅ ${state.playBet.multiplier}x Play bet made — add the turn and river for the showdown`;
+  }
+
+  if (!isDecisionPending(state)) {
+    const cards = state.cardsNeeded === 1 ? "card" : "cards";
+    switch (state.stage) {
+      case 'preflop':
+        if (cardCount === 0) return "🃏 Select your 2 hole cards to begin analysis";
+        return "🃏 Select your second hole card to complete your starting hand";
+      case 'flop':
+        if (state.playBet) return `✅ Play bet made — add the flop (${state.cardsNeeded} more ${cards}) to follow the hand`;
+        return `🎯 Add the flop (${state.cardsNeeded} more ${cards}) to reach your next decision`;
+      case 'river':
+        if (state.playBet) return `✅ Play bet made — add the turn and river (${state.cardsNeeded} more ${cards}) for the showdown`;
+        return `🎲 Add the turn and river (${state.cardsNeeded} more ${cards}) — they are dealt together, there is no turn decision`;
+    }
+  }
+
+  switch (state.stage) {
     case 'preflop':
-      if (cardCount === 0) return "🃏 Select your 2 hole cards to begin analysis";
-      if (cardCount === 1) return "🃏 Select your second hole card to complete your starting hand";
-      return "🃏 Pre-flop analysis complete — add community cards to continue";
-    
+      return `🃏 Pre-flop decision — bet ${betSizes} now, or check and see the flop`;
     case 'flop':
-      if (cardCount === 3) return "🎯 Add the flop (3 community cards) to see your hand potential";
-      if (cardCount === 4) return "🎯 Add one more flop card to complete the flop analysis";
-      return "🎯 Flop analysis running — calculating your winning odds";
-    
-    case 'turn':
-      return "🎲 Turn card added — this is where the action intensifies";
-    
+      return `🎯 Flop decision — bet ${betSizes} now, or check and wait for the river`;
     case 'river':
-      return "🏁 River card — final decision time with complete information";
-    
-    default:
-      return "🃏 Select cards to get started with professional poker analysis";
+      return `🏁 Final decision — bet ${betSizes} or fold`;
   }
-}
\ No newline at end of file
+}
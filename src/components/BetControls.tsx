@@ -0,0 +1,79 @@
+import { getPlayMultiplier } from "../utils/expectedValue";
+import { getActionLabel } from "./BetAdvisor";
+import {
+  getLegalActions,
+  type HandState,
+  type RecordedAction,
+} from "./HandState";
+
+/**
+ * BetControls Props Interface
+ */
+interface BetControlsProps {
+  handState: HandState;
+  recordedAction: RecordedAction | null;
+  onRecord: (action: RecordedAction | null) => void;
+}
+
+/**
+ * Buttons for recording the player's Play bet or fold.
+ *
+ * Only the actions that are legal at the current decision point are
+ * offered; checking needs no record since dealing the next street implies
+ * it.
+ */
+export default function BetControls({
+  handState,
+  recordedAction,
+  onRecord,
+}: BetControlsProps) {
+  const stage = handState.stage;
+  const actions = getLegalActions(handState).filter(
+    (action) => action !== "check",
+  );
+
+  if (recordedAction) {
+    return (
+      <div className="flex justify-center items-center gap-2 text-xs">
+        <span className="text-gray-400">
+          {recordedAction.type === "bet"
+            ? `${recordedAction.multiplier}x Play bet on the ${recordedAction.stage}`
+            : `Folded on the ${recordedAction.stage}`}
+        </span>
+        <button
+          onClick={() => onRecord(null)}
+          className="bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded transition-colors"
+        >
+          Undo
+        </button>
+      </div>
+    );
+  }
+
+  if (actions.length === 0 || stage === "showdown") return null;
+
+  return (
+    <div className="flex justify-center items-center gap-2 text-xs flex-wrap">
+      <span className="text-gray-400">Record:</span>
+      {actions.map((action) => (
+        <button
+          key={action}
+          onClick={() =>
+            onRecord(
+              action === "fold"
+                ? { type: "fold", stage }
+                : { type: "bet", multiplier: getPlayMultiplier(action), stage },
+            )
+          }
+          className={`px-2 py-1 rounded font-medium transition-colors ${
+            action === "fold"
+              ? "bg-red-700 hover:bg-red-600"
+              : "bg-green-700 hover:bg-green-600"
+          }`}
+        >
+          {getActionLabel(action, false)}
+        </button>
+      ))}
+    </div>
+  );
+}
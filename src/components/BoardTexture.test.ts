@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { getRiverDecision } from "./BasicStrategy";
+import { getBoardTexture, getBoardTextureLabels } from "./BoardTexture";
+
+describe("getBoardTexture", () => {
+  it("calls a river board with four cards of one suit a four-flush", () => {
+    const texture = getBoardTexture(["2h", "7h", "9h", "Jh", "Kc"]);
+    expect(texture.fourFlush).toBe(true);
+    expect(texture.twoTone).toBe(false);
+    expect(getBoardTextureLabels(texture)).toContain("Four-flush");
+  });
+
+  it("keeps two-tone for boards with at most two cards of a suit", () => {
+    expect(getBoardTextureLabels(getBoardTexture(["2h", "7h", "Jc"]))).toContain("Two-tone");
+    expect(getBoardTextureLabels(getBoardTexture(["2h", "7h", "9h", "Jc", "Kc"]))).toContain("Flush possible");
+  });
+
+  it("warns of the four-flush in the river advice when the player has no flush", () => {
+    const decision = getRiverDecision(["Ac", "Qd", "2h", "7h", "9h", "Jh", "Kc"]);
+    expect(decision.description).toContain("four to a flush on board");
+    const flush = getRiverDecision(["Ah", "Qd", "2h", "7h", "9h", "Jh", "Kc"]);
+    expect(flush.description).not.toContain("four to a flush");
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Board Texture for Ultimate Texas Hold'em
+ *
+ * Classifies the community cards on their own: pairs and trips on the
+ * board, how many suits it shows (and whether four of them already share
+ * one), how connected its ranks are and whether the board by itself is
+ * already a straight or a flush.
+ *
+ * The dealer shares every board card, so a player whose best hand is the
+ * board alone can at best tie: any dealer card that plays beats them.
+ */
+
+import {
+  encodeCard,
+  evaluateHand,
+  getScoreRank,
+  HandCategory,
+  scoreHand,
+} from "./HandEvaluator";
+
+/**
+ * Texture of the community cards
+ */
+export interface BoardTexture {
+  /** Two or more cards share a rank */
+  paired: boolean;
+  /** Three or more cards share a rank */
+  trips: boolean;
+  /** Every card is of one suit */
+  monotone: boolean;
+  /** The cards show exactly two suits, at most two cards of each */
+  twoTone: boolean;
+  /** Three or more cards of one suit: a flush is possible */
+  flushPossible: boolean;
+  /** Exactly four cards of one suit: one more card of the suit makes a flush */
+  fourFlush: boolean;
+  /** Three distinct ranks fit within five consecutive ranks: a straight is possible */
+  connected: boolean;
+  /** The five community cards make a straight by themselves */
+  boardStraight: boolean;
+  /** The five community cards make a flush by themselves */
+  boardFlush: boolean;
+  /** Hand category of the board alone (works for 3-5 cards) */
+  boardRank: HandCategory;
+}
+
+const rankOrder = ['2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A'];
+
+/**
+ * Classifies the community cards
+ *
+ * @param board 3-5 community cards
+ * @returns Board texture
+ */
+export function getBoardTexture(board: string[]): BoardTexture {
+  if (board.length < 3 || board.length > 5) {
+    throw new Error("Board texture needs 3 to 5 community cards");
+  }
+  board.forEach(encodeCard);
+
+  const rankCounts = new Map<string, number>();
+  const suitCounts = new Map<string, number>();
+  for (const card of board) {
+    const rank = card.slice(0, -1);
+    const suit = card.slice(-1);
+    rankCounts.set(rank, (rankCounts.get(rank) ?? 0) + 1);
+    suitCounts.set(suit, (suitCounts.get(suit) ?? 0) + 1);
+  }
+
+  const maxOfRank = Math.max(...rankCounts.values());
+  const maxOfSuit = Math.max(...suitCounts.values());
+  const pairs = [...rankCounts.values()].filter((count) => count === 2).length;
+
+  // Ace plays high and low for straights
+  const ranks = [...rankCounts.keys()].map((rank) => rankOrder.indexOf(rank));
+  if (ranks.includes(12)) ranks.push(-1);
+  const connected = ranks.some(
+    (low) => ranks.filter((rank) => rank >= low && rank <= low + 4).length >= 3,
+  );
+
+  let boardRank = HandCategory.HighCard;
+  if (board.length === 5) boardRank = getScoreRank(scoreHand(board));
+  else if (maxOfRank === 4) boardRank = HandCategory.FourOfAKind;
+  else if (maxOfRank === 3) boardRank = pairs > 0 ? HandCategory.FullHouse : HandCategory.ThreeOfAKind;
+  else if (pairs === 2) boardRank = HandCategory.TwoPair;
+  else if (pairs === 1) boardRank = HandCategory.OnePair;
+
+  const straights = [HandCategory.Straight, HandCategory.StraightFlush, HandCategory.RoyalFlush];
+  const flushes = [HandCategory.Flush, HandCategory.StraightFlush, HandCategory.RoyalFlush];
+
+  return {
+    paired: maxOfRank >= 2,
+    trips: maxOfRank >= 3,
+    monotone: suitCounts.size === 1,
+    twoTone: suitCounts.size === 2 && maxOfSuit <= 2,
+    flushPossible: maxOfSuit >= 3,
+    fourFlush: maxOfSuit === 4,
+    connected,
+    boardStraight: straights.includes(boardRank),
+    boardFlush: flushes.includes(boardRank),
+    boardRank,
+  };
+}
+
+/**
+ * Short labels for a board texture, most telling first, e.g.
+ * ["Paired", "Two-tone", "Connected"]
+ *
+ * @param texture Board texture
+ * @returns Labels, or ["Dry"] for an unpaired, unconnected rainbow board
+ */
+export function getBoardTextureLabels(texture: BoardTexture): string[] {
+  const labels: string[] = [];
+  if (texture.boardFlush) labels.push("Flush on board");
+  if (texture.boardStraight) labels.push("Straight on board");
+  if (texture.boardRank === HandCategory.FourOfAKind) labels.push("Quads on board");
+  else if (texture.boardRank === HandCategory.FullHouse) labels.push("Full house on board");
+  else if (texture.trips) labels.push("Trips on board");
+  else if (texture.paired) labels.push("Paired");
+  if (!texture.boardFlush) {
+    if (texture.fourFlush) labels.push("Four-flush");
+    else if (texture.monotone) labels.push("Monotone");
+    else if (texture.twoTone) labels.push("Two-tone");
+    else if (texture.flushPossible) labels.push("Flush possible");
+  }
+  if (texture.connected && !texture.boardStraight) labels.push("Connected");
+  return labels.length > 0 ? labels : ["Dry"];
+}
+
+/**
+ * Whether the player's best hand is the board alone, so no hole card plays
+ * and the best the player can do is tie the dealer
+ *
+ * @param cards 2 hole cards followed by the 5 community cards
+ * @returns True when the best five cards are all community cards
+ */
+export function isPlayingTheBoard(cards: string[]): boolean {
+  if (cards.length !== 7) return false;
+  const evaluation = evaluateHand(cards);
+  return evaluation.ok && evaluation.hand.playingHoleCards.length === 0;
+}
@@ -1,4 +1,5 @@
 import React, { useState } from "react";
+import { MAX_DEAD_CARDS } from "../utils/monteCarlo";
 
 // Card type definition: rank + suit (e.g., "Ah", "Kd", "Qs", "10c")
 export type Card = string;
@@ -43,6 +44,14 @@ interface CardPickerProps {
   onSelect: (cards: Card[]) => void;
   selectedCards?: Card[];
   hideSelectedDisplay?: boolean;
+  /** Cards seen elsewhere at the table (other players' exposed cards) */
+  deadCards?: Card[];
+  /** Enables dead-card marking when given */
+  onDeadCardsChange?: (cards: Card[]) => void;
+  /** Cards in use elsewhere (e.g. other seats' hole cards) that cannot be picked */
+  unavailableCards?: Card[];
+  /** Selected cards that make the best five-card hand; the others are dimmed */
+  bestHandCards?: Card[];
 }
 
 /**
@@ -54,19 +63,32 @@ interface CardPickerProps {
  * - Up to 7 card selection (2 hole + 5 community)
  * - Clear visual feedback for selected cards
  * - Individual card removal capability
+ * - Dead-card mode for marking cards seen elsewhere at the table
+ * - Selected cards that do not play in the best hand are dimmed
  * - Responsive design for all screen sizes
  */
 export default function CardPicker({
   onSelect,
   selectedCards = [],
   hideSelectedDisplay = false,
+  deadCards = [],
+  onDeadCardsChange,
+  unavailableCards = [],
+  bestHandCards,
 }: CardPickerProps) {
-  const [selected, setSelected] = useState<Card[]>(selectedCards);
+  const selected = selectedCards;
+  const [markingDead, setMarkingDead] = useState(false);
+  const deadLimit = MAX_DEAD_CARDS - unavailableCards.length;
 
   /**
    * Toggle card selection state
    */
   const toggleCard = (card: Card) => {
+    if (markingDead) {
+      toggleDeadCard(card);
+      return;
+    }
+
     let newSelection: Card[];
 
     if (selected.includes(card)) {
@@ -78,16 +100,25 @@ export default function CardPicker({
       newSelection = [...selected, card];
     }
 
-    setSelected(newSelection);
     onSelect(newSelection);
   };
 
+  /**
+   * Toggle whether a card is dead
+   */
+  const toggleDeadCard = (card: Card) => {
+    if (deadCards.includes(card)) {
+      onDeadCardsChange?.(deadCards.filter((c) => c !== card));
+    } else if (deadCards.length < deadLimit) {
+      onDeadCardsChange?.([...deadCards, card]);
+    }
+  };
+
   /**
    * Remove specific card from selection
    */
   const removeCard = (cardToRemove: Card) => {
     const newSelection = selected.filter((c) => c !== cardToRemove);
-    setSelected(newSelection);
     onSelect(newSelection);
   };
 
@@ -95,8 +126,8 @@ export default function CardPicker({
    * Clear all selected cards
    */
   const handleClearAll = () => {
-    setSelected([]);
     onSelect([]);
+    onDeadCardsChange?.([]);
   };
 
   /**
@@ -105,7 +136,14 @@ export default function CardPicker({
   const renderCard = (rank: string, suit: string, isAce: boolean = false) => {
     const card = `${rank}${suit}`;
     const isSelected = selected.includes(card);
-    const isDisabled = selected.length >= 7 && !isSelected;
+    const isDead = deadCards.includes(card);
+    const isUnavailable = unavailableCards.includes(card);
+    const isIdle = isSelected && !!bestHandCards && !bestHandCards.includes(card);
+    const isDisabled =
+      isUnavailable ||
+      (markingDead
+        ? isSelected || (deadCards.length >= deadLimit && !isDead)
+        : isDead || (selected.length >= 7 && !isSelected));
 
     return (
       <button
@@ -118,7 +156,11 @@ export default function CardPicker({
           transition-all duration-200 ease-in-out
           ${rank === "10" ? "text-xs" : isAce ? "text-base" : "text-sm"}
           ${
-            isSelected
+            isUnavailable
+              ? "bg-blue-900 border-blue-500 border-dashed text-blue-200"
+              : isDead
+              ? "bg-gray-500 border-gray-400 border-dashed text-gray-200 line-through"
+              : isSelected
               ? `${isAce ? "bg-yellow-500 border-yellow-400 ring-2 ring-yellow-300" : "bg-green-500 border-green-400 ring-2 ring-green-300"} text-white shadow-xl scale-110 z-10`
               : `bg-white border-gray-300 hover:bg-gray-50 hover:border-gray-400 hover:shadow-lg hover:scale-105 ${getSuitColor(suit)}`
           }
@@ -127,11 +169,12 @@ export default function CardPicker({
               ? "opacity-40 cursor-not-allowed hover:scale-100 hover:shadow-md"
               : "cursor-pointer active:scale-95"
           }
+          ${isIdle ? "opacity-60" : ""}
           ${isAce ? "shadow-lg border-4" : ""}
         `}
-        aria-pressed={isSelected}
-        aria-label={`${rank} of ${getSuitName(suit)}`}
-        title={`${rank}${getSuitSymbol(suit)}`}
+        aria-pressed={markingDead ? isDead : isSelected}
+        aria-label={`${rank} of ${getSuitName(suit)}${isDead ? " (dead)" : isUnavailable ? " (in use)" : ""}`}
+        title={`${rank}${getSuitSymbol(suit)}${isDead ? " — dead" : isUnavailable ? " — in use" : isIdle ? " — does not play" : ""}`}
       >
         <span className={`leading-none font-bold ${isAce ? "text-lg" : ""}`}>
           {rank}
@@ -188,9 +231,29 @@ export default function CardPicker({
           {selected.length > 5 && (
             <span className="ml-2 text-yellow-400">(Add turn/river)</span>
           )}
+          {deadCards.length > 0 && (
+            <span className="ml-2 text-gray-400">
+              · Dead: {deadCards.length}
+            </span>
+          )}
         </div>
 
-        {selected.length > 0 && (
+        {onDeadCardsChange && (
+          <button
+            onClick={() => setMarkingDead(!markingDead)}
+            className={`px-3 py-1 rounded-lg font-medium transition-colors duration-200 text-xs shadow-md ${
+              markingDead
+                ? "bg-gray-500 hover:bg-gray-400 text-white ring-2 ring-gray-300"
+                : "bg-gray-700 hover:bg-gray-600 text-gray-200"
+            }`}
+            aria-pressed={markingDead}
+            title="Mark cards seen elsewhere at the table; they are removed from the deck"
+          >
+            {markingDead ? "💀 Marking dead cards" : "💀 Dead cards"}
+          </button>
+        )}
+
+        {(selected.length > 0 || deadCards.length > 0) && (
           <button
             onClick={handleClearAll}
             className="bg-red-600 hover:bg-red-700 text-white px-3 py-1 rounded-lg font-medium transition-colors duration-200 text-xs shadow-md hover:shadow-lg"
@@ -201,7 +264,7 @@ export default function CardPicker({
       </div>
 
       {/* Selected cards display */}
-      {!hideSelectedDisplay && selected.length > 0 && (
+      {!hideSelectedDisplay && (selected.length > 0 || deadCards.length > 0) && (
         <div className="mb-3 p-3 bg-gray-700/30 rounded-lg border border-gray-600">
           <p className="text-xs font-medium text-gray-300 mb-2 text-center">
             Selected Cards
@@ -235,6 +298,17 @@ export default function CardPicker({
                 </button>
               );
             })}
+            {deadCards.map((card) => (
+              <button
+                key={card}
+                onClick={() => toggleDeadCard(card)}
+                className="px-3 py-2 rounded-lg text-xs font-bold border-2 border-dashed shadow-sm transition-all duration-200 hover:scale-105 active:scale-95 cursor-pointer bg-gray-600 border-gray-400 text-gray-200 line-through hover:bg-gray-700"
+                title={`Remove dead ${card.slice(0, -1)}${getSuitSymbol(card.slice(-1))}`}
+              >
+                {card.slice(0, -1)}
+                {getSuitSymbol(card.slice(-1))}
+              </button>
+            ))}
           </div>
           <div className="mt-2 text-xs text-gray-400 text-center">
             <span className="inline-flex items-center mr-4">
@@ -245,6 +319,12 @@ export default function CardPicker({
               <span className="w-2 h-2 bg-green-600 rounded mr-1"></span>
               Community Cards
             </span>
+            {deadCards.length > 0 && (
+              <span className="inline-flex items-center ml-4">
+                <span className="w-2 h-2 bg-gray-500 rounded mr-1"></span>
+                Dead Cards
+              </span>
+            )}
           </div>
         </div>
       )}
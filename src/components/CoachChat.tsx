@@ -0,0 +1,195 @@
+import { useEffect, useRef, useState } from "react";
+import { Loader2, Send } from "lucide-react";
+
+/**
+ * One message of the conversation
+ */
+interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+/**
+ * Chat API response
+ */
+interface ChatResponse {
+  success: boolean;
+  reply?: string;
+  error?: string;
+}
+
+/**
+ * CoachChat Props Interface
+ */
+interface CoachChatProps {
+  /** Description of the current hand: cards, simulation numbers, engine and AI advice */
+  context: string;
+}
+
+// Same limit as the server: 10 questions and 9 answers before the last question
+const MAX_MESSAGES = 20;
+
+// Milliseconds to wait for an answer
+const CHAT_TIMEOUT = 20000;
+
+const SUGGESTED_QUESTIONS = [
+  "Why this action?",
+  "What beats me here?",
+  "When would you play it differently?",
+];
+
+/**
+ * Collapsible follow-up chat with the AI coach about the current hand.
+ * Every question is sent with the latest hand context and the whole
+ * conversation; the parent remounts the panel (via `key`) when the hand
+ * changes, which clears the conversation and aborts a pending answer.
+ */
+export default function CoachChat({ context }: CoachChatProps) {
+  const [open, setOpen] = useState(false);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [input, setInput] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Abort a pending answer when the hand changes
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const limitReached = messages.length >= MAX_MESSAGES - 1;
+
+  /**
+   * Ask one question; on failure the question goes back into the input
+   */
+  const ask = async (question: string): Promise<void> => {
+    const text = question.trim();
+    if (!text || isSending || limitReached) return;
+
+    const conversation: ChatMessage[] = [...messages, { role: "user", content: text }];
+    setMessages(conversation);
+    setInput("");
+    setError(null);
+    setIsSending(true);
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const timeoutId = setTimeout(() => controller.abort(), CHAT_TIMEOUT);
+
+    try {
+      console.log(`💬 Asking the coach: ${text}`);
+      const response = await fetch("/api/coach-chat", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ context, messages: conversation }),
+        signal: controller.signal,
+      });
+      const data: ChatResponse = await response.json();
+
+      if (!response.ok || !data.success || !data.reply) {
+        throw new Error(data.error || `Chat failed: ${response.status}`);
+      }
+      setMessages([...conversation, { role: "assistant", content: data.reply }]);
+    } catch (err) {
+      console.log("⚠️ Coach chat failed:", err);
+      setMessages(messages);
+      setInput(text);
+      setError(
+        controller.signal.aborted
+          ? "The coach took too long to answer"
+          : err instanceof Error
+            ? err.message
+            : "Chat failed",
+      );
+    } finally {
+      clearTimeout(timeoutId);
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="mt-2 pt-2 border-t border-gray-600 text-xs">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex justify-between items-center text-gray-400 hover:text-white transition-colors"
+      >
+        <span>💬 Ask the coach {open ? "▲" : "▼"}</span>
+        {messages.length > 0 && (
+          <span>
+            {Math.ceil(messages.length / 2)} question{messages.length > 2 ? "s" : ""}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="mt-2 space-y-2">
+          {messages.length === 0 && (
+            <div className="flex flex-wrap gap-1">
+              {SUGGESTED_QUESTIONS.map((question) => (
+                <button
+                  key={question}
+                  onClick={() => ask(question)}
+                  disabled={isSending}
+                  className="px-2 py-0.5 rounded-full border border-gray-600 text-gray-300 hover:border-blue-500 hover:text-white transition-colors"
+                >
+                  {question}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {messages.map((message, index) => (
+            <div
+              key={index}
+              className={`p-1.5 rounded leading-relaxed ${
+                message.role === "user"
+                  ? "ml-6 bg-blue-900/30 text-blue-200"
+                  : "mr-6 bg-gray-700/50 text-gray-200"
+              }`}
+            >
+              {message.content}
+            </div>
+          ))}
+
+          {isSending && (
+            <div className="flex items-center gap-1 text-gray-400">
+              <Loader2 className="h-3 w-3 animate-spin text-blue-500" />
+              Thinking...
+            </div>
+          )}
+
+          {error && <p className="text-red-400">⚠️ {error}</p>}
+
+          {limitReached ? (
+            <p className="text-gray-500">Conversation limit reached — change the hand to start over</p>
+          ) : (
+            <form
+              onSubmit={(event) => {
+                event.preventDefault();
+                ask(input);
+              }}
+              className="flex gap-1"
+            >
+              <input
+                value={input}
+                onChange={(event) => setInput(event.target.value)}
+                placeholder='e.g. "Why not 2x?"'
+                maxLength={500}
+                disabled={isSending}
+                className="flex-1 px-2 py-1 rounded bg-gray-700 border border-gray-600 text-white placeholder-gray-500 focus:outline-none focus:border-blue-500"
+              />
+              <button
+                type="submit"
+                disabled={isSending || !input.trim()}
+                className="px-2 rounded bg-blue-600 text-white disabled:opacity-50 hover:bg-blue-500 transition-colors"
+                title="Send"
+              >
+                <Send className="h-3 w-3" />
+              </button>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
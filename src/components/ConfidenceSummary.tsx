@@ -0,0 +1,59 @@
+import type { SimulationResult } from "../utils/monteCarlo";
+import { formatEV } from "./BetAdvisor";
+
+/**
+ * ConfidenceSummary Props Interface
+ */
+interface ConfidenceSummaryProps {
+  result: SimulationResult;
+  isSimulating: boolean;
+}
+
+/**
+ * Sample count and 95% confidence intervals for a simulation result.
+ *
+ * While sampling is still running this shows the intervals tightening;
+ * once it stops it says whether the decision was resolved or was too
+ * close to call within the sampling budget.
+ */
+export default function ConfidenceSummary({
+  result,
+  isSimulating,
+}: ConfidenceSummaryProps) {
+  const exact = result.method === "exact";
+  const win = result.winInterval;
+  const margin = result.decisionMargin;
+  const halfWidth = (interval: { lower: number; upper: number }) =>
+    (interval.upper - interval.lower) / 2;
+
+  let status = "⚖️ Too close to call";
+  let statusColor = "text-yellow-400";
+  if (isSimulating) {
+    status = "⏳ Sampling until the estimate settles";
+    statusColor = "text-blue-400";
+  } else if (result.converged) {
+    status = margin ? "✅ Decision resolved" : "✅ Estimate settled";
+    statusColor = "text-green-400";
+  }
+
+  return (
+    <div className="pt-2 border-t border-gray-600 text-xs text-center space-y-1">
+      <div className="text-gray-400">
+        {result.iterations.toLocaleString()}{" "}
+        {exact ? "outcomes (exact)" : "iterations"}
+        {!exact && win && ` · win ±${halfWidth(win).toFixed(1)}%`}
+      </div>
+      {!exact && (
+        <>
+          {margin && isFinite(margin.standardError) && (
+            <div className="text-gray-400">
+              Best action leads by {formatEV(margin.estimate)} ±
+              {halfWidth(margin).toFixed(2)} antes (95%)
+            </div>
+          )}
+          <div className={statusColor}>{status}</div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { formatCards, type DealerOuts } from "./HandEvaluator";
+import { DEALER_OUTS_LIMIT } from "./BasicStrategy";
+
+/**
+ * DealerOutsPanel Props Interface
+ */
+interface DealerOutsPanelProps {
+  outs: DealerOuts;
+}
+
+/**
+ * River dealer-outs breakdown: how many unseen cards beat or tie the
+ * player, checked against the 21-out betting threshold, with every out
+ * card listed.
+ */
+export default function DealerOutsPanel({ outs }: DealerOutsPanelProps) {
+  const { winning, tying, unseen } = outs;
+  const underLimit = winning.length < DEALER_OUTS_LIMIT;
+
+  return (
+    <div className="pt-2 border-t border-gray-600 text-xs">
+      <div className="flex justify-between items-center mb-1">
+        <span className="text-gray-400">Dealer outs</span>
+        <span className={underLimit ? "text-green-400" : "text-red-400"}>
+          {winning.length} beat you · {tying.length} tie · of {unseen}
+        </span>
+      </div>
+      <p className="text-gray-500 mb-2">
+        {underLimit
+          ? `Under ${DEALER_OUTS_LIMIT} outs — the 1x bet is worth making`
+          : `${DEALER_OUTS_LIMIT}+ outs — basic strategy folds`}
+      </p>
+      <div className="flex flex-wrap gap-1">
+        {winning.map((card) => (
+          <span
+            key={card}
+            className="px-1 rounded bg-red-900/40 border border-red-500 text-red-300 font-mono"
+          >
+            {formatCards([card])}
+          </span>
+        ))}
+        {tying.map((card) => (
+          <span
+            key={card}
+            className="px-1 rounded bg-yellow-900/40 border border-yellow-500 text-yellow-300 font-mono"
+          >
+            {formatCards([card])}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { getDraws } from "./DrawAnalyzer";
+
+describe("getDraws", () => {
+  it("calls a four-card run with both ends open open-ended", () => {
+    const [draw] = getDraws(["8h", "7c", "6d", "5s", "Kh"]).draws;
+    expect(draw.type).toBe("openEnded");
+    expect(draw.outs).toHaveLength(8);
+  });
+
+  it("tells a double gutshot from an open-ended draw", () => {
+    const [draw] = getDraws(["9h", "7c", "6d", "5s", "3h"]).draws;
+    expect(draw.type).toBe("doubleGutshot");
+    expect(draw.description).toBe("Double gutshot straight draw (needs an 8 or a 4)");
+    expect(draw.outs).toHaveLength(8);
+  });
+
+  it("calls a wheel draw needing only a 5 a gutshot", () => {
+    const [draw] = getDraws(["Ah", "2c", "3d", "4s", "Kh"]).draws;
+    expect(draw.type).toBe("gutshot");
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Draw Analyzer for Ultimate Texas Hold'em
+ *
+ * On the flop the turn and river are still to come (dealt together), so a
+ * hand's value depends on what it can become. The analyzer finds:
+ * - Flush draws (four to a flush) and backdoor flush draws (three)
+ * - Open-ended, double gutshot and gutshot straight draws, and backdoor
+ *   straight draws
+ * - Overcards: hole cards above every board card, with no pair yet
+ *
+ * Only draws that use a hole card are reported; a draw made by the board
+ * alone is shared with the dealer. Outs and the chance of hitting by the
+ * river are counted exactly over every turn and river pair.
+ */
+
+import { HAND_RANK } from "../utils/expectedValue";
+import { encodeCard, getScoreRank, scoreHand } from "./HandEvaluator";
+
+/**
+ * Kinds of draw, strongest first
+ */
+export type DrawType =
+  | "flushDraw"
+  | "openEnded"
+  | "doubleGutshot"
+  | "gutshot"
+  | "overcards"
+  | "backdoorFlush"
+  | "backdoorStraight";
+
+/**
+ * One draw and its odds
+ */
+export interface Draw {
+  type: DrawType;
+  /** The draw as a player would state it, e.g. "Flush draw (♥)" */
+  description: string;
+  /** Hole cards that are part of the draw */
+  holeCards: string[];
+  /**
+   * Unseen cards that complete the draw; for backdoor draws, the cards
+   * that can make up the two-card runout
+   */
+  outs: string[];
+  /** Probability of completing the draw by the river */
+  probability: number;
+}
+
+/**
+ * Every draw of a flop hand
+ */
+export interface DrawAnalysis {
+  draws: Draw[];
+  /** Unseen cards that complete a draw on their own, across all draws */
+  outs: string[];
+  /** Probability of completing at least one draw by the river */
+  probability: number;
+  /** Number of unseen cards the turn and river are dealt from */
+  unseen: number;
+}
+
+const rankOrder = ['2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A'];
+const suitOrder = ['h', 'd', 's', 'c'];
+const suitSymbols: Record<string, string> = { h: '♥', d: '♦', s: '♠', c: '♣' };
+
+const DRAW_ORDER: DrawType[] = [
+  "flushDraw",
+  "openEnded",
+  "doubleGutshot",
+  "gutshot",
+  "overcards",
+  "backdoorFlush",
+  "backdoorStraight",
+];
+
+/**
+ * Whether a draw needs both the turn and the river
+ */
+export function isBackdoor(type: DrawType): boolean {
+  return type === "backdoorFlush" || type === "backdoorStraight";
+}
+
+function rankOf(card: string): number {
+  return rankOrder.indexOf(card.slice(0, -1));
+}
+
+function suitOf(card: string): string {
+  return card.slice(-1);
+}
+
+/**
+ * Ranks (0-12) of the highest straight in a rank mask, or null if none;
+ * the wheel plays its ace low
+ */
+function straightRanks(mask: number): number[] | null {
+  for (let high = 12; high >= 3; high--) {
+    const ranks = high === 3 ? [12, 0, 1, 2, 3] : [high - 4, high - 3, high - 2, high - 1, high];
+    if (ranks.every((rank) => mask & (1 << rank))) return ranks;
+  }
+  return null;
+}
+
+/**
+ * Whether two of the ranks completing a straight are the ends of one
+ * four-card run, e.g. a 4 or a 9 to 5-6-7-8; the ace also counts low
+ */
+function hasOpenEnds(ranks: number[]): boolean {
+  const positions = ranks.flatMap((rank) => (rank === 12 ? [-1, 12] : [rank]));
+  return positions.some((low) => positions.includes(low + 5));
+}
+
+/**
+ * Article for a rank, e.g. "an 8", "a 9"
+ */
+function withArticle(rank: number): string {
+  const name = rankOrder[rank];
+  return `${name === '8' || name === 'A' ? "an" : "a"} ${name}`;
+}
+
+function rankMask(cards: string[]): number {
+  return cards.reduce((mask, card) => mask | (1 << rankOf(card)), 0);
+}
+
+/**
+ * Count how often a draw completes over every turn and river pair
+ *
+ * @param unseen Cards the turn and river are dealt from
+ * @param completes Whether a runout completes the draw
+ * @returns Completing runouts and the cards that take part in them
+ */
+function countRunouts(
+  unseen: string[],
+  completes: (turn: string, river: string) => boolean,
+): { hits: number; cards: Set<string> } {
+  let hits = 0;
+  const cards = new Set<string>();
+  for (let i = 0; i < unseen.length; i++) {
+    for (let j = i + 1; j < unseen.length; j++) {
+      if (completes(unseen[i], unseen[j])) {
+        hits++;
+        cards.add(unseen[i]);
+        cards.add(unseen[j]);
+      }
+    }
+  }
+  return { hits, cards };
+}
+
+/**
+ * Finds every draw of a flop hand
+ *
+ * @param cards 2 hole cards followed by the 3 flop cards
+ * @param deadCards Cards seen elsewhere, which cannot come on the turn or river
+ * @returns Draws strongest first, with their outs and odds
+ */
+export function getDraws(cards: string[], deadCards: string[] = []): DrawAnalysis {
+  if (cards.length !== 5) {
+    throw new Error("Draws need 2 hole cards and 3 community cards");
+  }
+
+  const known = [...cards, ...deadCards];
+  known.forEach(encodeCard);
+  if (new Set(known).size !== known.length) {
+    throw new Error("Duplicate cards detected");
+  }
+
+  const holeCards = cards.slice(0, 2);
+  const board = cards.slice(2);
+  const unseen = suitOrder.flatMap((suit) =>
+    rankOrder.map((rank) => `${rank}${suit}`).filter((card) => !known.includes(card)),
+  );
+  const pairs = (unseen.length * (unseen.length - 1)) / 2;
+
+  const draws: Draw[] = [];
+  // Whether a runout completes each draw, by draw
+  const completions = new Map<Draw, (turn: string, river: string) => boolean>();
+  const addDraw = (
+    type: DrawType,
+    description: string,
+    drawHoleCards: string[],
+    completes: (turn: string, river: string) => boolean,
+  ) => {
+    const { hits, cards: runoutCards } = countRunouts(unseen, completes);
+    if (hits === 0) return;
+    const draw: Draw = {
+      type,
+      description,
+      holeCards: drawHoleCards,
+      outs: isBackdoor(type)
+        ? [...runoutCards]
+        : unseen.filter((card) => unseen.every((other) => other === card || completes(card, other))),
+      probability: hits / pairs,
+    };
+    draws.push(draw);
+    completions.set(draw, completes);
+  };
+
+  // Flush draws, from a hole card of the suit
+  for (const suit of suitOrder) {
+    const suited = cards.filter((card) => suitOf(card) === suit).length;
+    const suitedHoleCards = holeCards.filter((card) => suitOf(card) === suit);
+    if (suitedHoleCards.length === 0 || suited < 3 || suited >= 5) continue;
+
+    const needed = 5 - suited;
+    addDraw(
+      needed === 1 ? "flushDraw" : "backdoorFlush",
+      needed === 1 ? `Flush draw (${suitSymbols[suit]})` : `Backdoor flush draw (${suitSymbols[suit]})`,
+      suitedHoleCards,
+      (turn, river) => [turn, river].filter((card) => suitOf(card) === suit).length >= needed,
+    );
+  }
+
+  // Straight draws: a straight using a hole card, when there is none yet
+  const mask = rankMask(cards);
+  if (!straightRanks(mask)) {
+    const playsHoleCard = (ranks: number[] | null) =>
+      !!ranks && holeCards.some((card) => ranks.includes(rankOf(card)));
+    const makesStraight = (turn: string, river: string) =>
+      playsHoleCard(straightRanks(mask | rankMask([turn, river])));
+    const singleRanks = rankOrder
+      .map((_, rank) => rank)
+      .filter((rank) => !(mask & (1 << rank)) && playsHoleCard(straightRanks(mask | (1 << rank))));
+    const windowCards = (ranks: number[]) =>
+      holeCards.filter((card) => ranks.some((rank) => straightRanks(mask | (1 << rank))?.includes(rankOf(card))));
+
+    if (singleRanks.length >= 2 && hasOpenEnds(singleRanks)) {
+      addDraw("openEnded", "Open-ended straight draw", windowCards(singleRanks), makesStraight);
+    } else if (singleRanks.length >= 2) {
+      const needs = [...singleRanks].reverse().map(withArticle).join(" or ");
+      addDraw("doubleGutshot", `Double gutshot straight draw (needs ${needs})`, windowCards(singleRanks), makesStraight);
+    } else if (singleRanks.length === 1) {
+      addDraw("gutshot", `Gutshot straight draw (needs ${withArticle(singleRanks[0])})`, windowCards(singleRanks), makesStraight);
+    } else {
+      addDraw("backdoorStraight", "Backdoor straight draw", holeCards, makesStraight);
+    }
+  }
+
+  // Overcards: hole cards above the board, with no pair made yet
+  const boardHigh = Math.max(...board.map(rankOf));
+  const overcards = holeCards.filter((card) => rankOf(card) > boardHigh);
+  if (overcards.length > 0 && getScoreRank(scoreHand(cards)) === HAND_RANK.highCard) {
+    const overRanks = overcards.map(rankOf);
+    addDraw(
+      "overcards",
+      overcards.length === 2 ? "Two overcards" : `One overcard (${overcards[0].slice(0, -1)})`,
+      overcards,
+      (turn, river) => overRanks.includes(rankOf(turn)) || overRanks.includes(rankOf(river)),
+    );
+  }
+
+  draws.sort((a, b) => DRAW_ORDER.indexOf(a.type) - DRAW_ORDER.indexOf(b.type));
+
+  // Combined odds count each runout once, however many draws it completes
+  const { hits } = countRunouts(unseen, (turn, river) =>
+    draws.some((draw) => completions.get(draw)!(turn, river)),
+  );
+  const outs = unseen.filter((card) =>
+    draws.some((draw) => !isBackdoor(draw.type) && draw.outs.includes(card)),
+  );
+
+  return {
+    draws,
+    outs,
+    probability: hits / pairs,
+    unseen: unseen.length,
+  };
+}
+
+/**
+ * Describes a draw with its outs and odds, e.g. "Flush draw (♥): 9 outs, 35.0%"
+ *
+ * @param draw Draw from `getDraws`
+ * @returns One-line summary
+ */
+export function describeDraw(draw: Draw): string {
+  const odds = `${(draw.probability * 100).toFixed(1)}%`;
+  return isBackdoor(draw.type)
+    ? `${draw.description}: needs turn and river, ${odds}`
+    : `${draw.description}: ${draw.outs.length} outs, ${odds}`;
+}
@@ -0,0 +1,55 @@
+import { formatCards } from "./HandEvaluator";
+import { isBackdoor, type DrawAnalysis } from "./DrawAnalyzer";
+
+/**
+ * DrawsPanel Props Interface
+ */
+interface DrawsPanelProps {
+  analysis: DrawAnalysis;
+}
+
+/**
+ * Flop draws breakdown: every draw with its outs and the chance of hitting
+ * it by the river, and the combined chance of hitting any of them.
+ */
+export default function DrawsPanel({ analysis }: DrawsPanelProps) {
+  const { draws, outs, probability } = analysis;
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+  return (
+    <div className="pt-2 border-t border-gray-600 text-xs">
+      <div className="flex justify-between items-center mb-1">
+        <p className="text-gray-400">🎣 Draws</p>
+        {draws.length > 0 && (
+          <span className="text-green-400">
+            {outs.length} outs · {percent(probability)} by the river
+          </span>
+        )}
+      </div>
+
+      {draws.length === 0 ? (
+        <p className="text-gray-500">No draws</p>
+      ) : (
+        <div className="space-y-1">
+          {draws.map((draw) => (
+            <div key={draw.type + draw.description}>
+              <div className="flex justify-between gap-2">
+                <span className="text-gray-300">{draw.description}</span>
+                <span className="font-mono text-gray-400">
+                  {isBackdoor(draw.type) ? "runner-runner" : `${draw.outs.length} outs`}
+                  {" · "}
+                  {percent(draw.probability)}
+                </span>
+              </div>
+              {!isBackdoor(draw.type) && (
+                <p className="font-mono text-gray-500 break-all">
+                  {formatCards(draw.outs)}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import {
   Bot,
   Loader2,
@@ -9,17 +9,46 @@ import {
   Key,
 } from "lucide-react";
 import { formatCards } from "./HandEvaluator";
+import {
+  getBoardTexture,
+  getBoardTextureLabels,
+  isPlayingTheBoard,
+} from "./BoardTexture";
 import type { SimulationResult } from "../utils/monteCarlo";
-import type { GameStage } from "./BetAdvisor";
+import {
+  getBetAction,
+  getDecisionPoint,
+  type UTHAction,
+} from "../utils/expectedValue";
+import {
+  clearAdviceLog,
+  compareAdvice,
+  getAdviceLogStats,
+  logAdviceComparison,
+} from "../utils/adviceComparison";
+import { readServerSentEvents } from "../utils/serverSentEvents";
+import { formatEV, getActionLabel, type BettingAdvice } from "./BetAdvisor";
+import CoachChat from "./CoachChat";
+import type { GameStage } from "./HandState";
+import {
+  describeTableRules,
+  getMaxBetSize,
+  type TableRules,
+} from "../utils/tableRules";
 
 /**
- * OpenAI Advisor Props Interface
+ * AI Advisor Props Interface
  */
 interface GeminiAdvisorProps {
   selectedCards: string[];
   simulationResult: SimulationResult | null;
   gameStage: GameStage;
   handDescription: string;
+  rules: TableRules;
+  /** Cards seen elsewhere at the table */
+  deadCards: string[];
+  /** The local engine's advice for the same spot, to compare the AI with */
+  engineAdvice: BettingAdvice;
 }
 
 /**
@@ -27,11 +56,66 @@ interface GeminiAdvisorProps {
  */
 interface AIAdvice {
   recommendation: string;
+  /** The recommendation as a canonical action, checked by the server to be legal now */
+  action?: UTHAction;
   reasoning: string;
   confidence: "high" | "medium" | "low";
   riskLevel: "conservative" | "moderate" | "aggressive";
 }
 
+/**
+ * The AI provider that answered, as reported by the server
+ */
+interface AIProviderInfo {
+  id: string;
+  name: string;
+  model: string;
+}
+
+/**
+ * Advice API response, the same whichever provider answered
+ */
+interface AdviceResponse {
+  success: boolean;
+  advice?: AIAdvice;
+  provider?: AIProviderInfo;
+  /** Model replies it took to get advice that passed validation */
+  attempts?: number;
+  error?: string;
+}
+
+// Milliseconds the advice stream may stay silent before giving up
+const ADVICE_IDLE_TIMEOUT = 10000;
+
+/**
+ * Reads a string field from a JSON reply that is still streaming in, e.g.
+ * the reasoning so far from `{"recommendation":"Check","reasoning":"Your k`
+ *
+ * @returns The field's text so far, or "" before it starts
+ */
+function readPartialField(reply: string, field: string): string {
+  const match = new RegExp(`"${field}"\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)`).exec(reply);
+  if (!match) return "";
+
+  // Drop an escape sequence cut off by the end of the stream
+  const text = match[1].replace(/\\$/, "");
+  try {
+    return JSON.parse(`"${text}"`) as string;
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Actions legal at a stage under the table rules, for the server to check
+ * the AI's recommendation against (none at showdown)
+ */
+function getStageActions(gameStage: GameStage, rules: TableRules): UTHAction[] {
+  if (gameStage === "showdown") return [];
+  const bets = rules.betSizes[gameStage].map(getBetAction);
+  return [...bets, gameStage === "river" ? "fold" : "check"];
+}
+
 /**
  * Generate fallback advice based on simulation results and game theory
  */
@@ -40,6 +124,7 @@ function generateFallbackAdvice(
   simulationResult: SimulationResult | null,
   gameStage: GameStage,
   handDescription: string,
+  rules: TableRules,
 ): AIAdvice {
   const holeCards = selectedCards.slice(0, 2);
   const communityCards = selectedCards.slice(2);
@@ -56,9 +141,11 @@ function generateFallbackAdvice(
     const isPair = rank1 === rank2;
     const strongRanks = ["A", "K", "Q", "J", "10"];
 
+    const betSize = getMaxBetSize(rules, "preflop");
+
     if (isPair && rank1 === "A") {
       return {
-        recommendation: "Max Bet 4x",
+        recommendation: `Max Bet ${betSize}x`,
         reasoning:
           "Pocket Aces are the strongest starting hand. Maximum aggression is warranted.",
         confidence: "high",
@@ -71,7 +158,7 @@ function generateFallbackAdvice(
       (suited && strongRanks.includes(rank1) && strongRanks.includes(rank2))
     ) {
       return {
-        recommendation: "Bet 4x",
+        recommendation: `Bet ${betSize}x`,
         reasoning:
           "Premium starting hand with excellent potential. Strong betting position.",
         confidence: "high",
@@ -90,10 +177,11 @@ function generateFallbackAdvice(
 
   // Post-flop advice based on simulation
   const winRate = simulationResult.win;
+  const betSize = getMaxBetSize(rules, gameStage === "flop" ? "flop" : "river");
 
   if (winRate >= 70) {
     return {
-      recommendation: "Bet 3x Aggressively",
+      recommendation: `Bet ${betSize}x Aggressively`,
       reasoning: `Excellent ${winRate.toFixed(1)}% win rate. Strong hand with great equity. Maximize value.`,
       confidence: "high",
       riskLevel: "aggressive",
@@ -102,7 +190,7 @@ function generateFallbackAdvice(
 
   if (winRate >= 55) {
     return {
-      recommendation: "Bet 3x Confidently",
+      recommendation: `Bet ${betSize}x Confidently`,
       reasoning: `Strong ${winRate.toFixed(1)}% win rate gives you a significant edge. Press your advantage.`,
       confidence: "high",
       riskLevel: "moderate",
@@ -111,7 +199,7 @@ function generateFallbackAdvice(
 
   if (winRate >= 45) {
     return {
-      recommendation: "Bet 2x Cautiously",
+      recommendation: `Bet ${betSize}x Cautiously`,
       reasoning: `Favorable ${winRate.toFixed(1)}% win rate. Moderate betting to build pot while managing risk.`,
       confidence: "medium",
       riskLevel: "moderate",
@@ -136,9 +224,9 @@ function generateFallbackAdvice(
 }
 
 /**
- * OpenAI Strategic Advisor Component
+ * AI Strategic Advisor Component
  *
- * Provides advanced poker strategy advice using OpenAI API with
+ * Provides advanced poker strategy advice using the configured AI provider with
  * sophisticated fallback logic based on game theory and simulation results.
  */
 export default function GeminiAdvisor({
@@ -146,27 +234,41 @@ export default function GeminiAdvisor({
   simulationResult,
   gameStage,
   handDescription,
+  rules,
+  deadCards,
+  engineAdvice,
 }: GeminiAdvisorProps) {
   const [aiAdvice, setAiAdvice] = useState<AIAdvice | null>(null);
+  const [provider, setProvider] = useState<AIProviderInfo | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [usingFallback, setUsingFallback] = useState(false);
   const [apiError, setApiError] = useState<string | null>(null);
   const [lastRequestCards, setLastRequestCards] = useState<string>("");
+  // Cards key of the hand the current AI advice answers
+  const [adviceCards, setAdviceCards] = useState<string>("");
+  const [logStats, setLogStats] = useState(() => getAdviceLogStats());
   const [needsApiKey, setNeedsApiKey] = useState(false);
+  // Model reply streamed so far, and which attempt it is (retries follow invalid replies)
+  const [streamedReply, setStreamedReply] = useState("");
+  const [streamAttempt, setStreamAttempt] = useState(1);
 
   // Ref to track current request to prevent race conditions
   const currentRequestRef = useRef<number>(0);
+  // Aborts the request in flight when the cards change or the advisor unmounts
+  const abortRef = useRef<AbortController | null>(null);
+  // AI advice already logged against the engine
+  const loggedAdviceRef = useRef<AIAdvice | null>(null);
+
+  const cardsKey = `${rules.id}:${selectedCards.join(",")}:${deadCards.join(",")}`;
 
   /**
-   * Generate AI advice prompt based on current game state
+   * Describe the hand: cards, simulation numbers and table rules
    */
-  const generatePrompt = (): string => {
+  const describeHand = (): string => {
     const holeCards = selectedCards.slice(0, 2);
     const communityCards = selectedCards.slice(2);
 
-    let prompt = `Analyze this Ultimate Texas Hold'em hand:
-
-SITUATION:
+    let prompt = `SITUATION:
 - Stage: ${gameStage.toUpperCase()}
 - Hole Cards: ${formatCards(holeCards)}`;
 
@@ -176,125 +278,232 @@ SITUATION:
 - Best Hand: ${handDescription}`;
     }
 
+    if (communityCards.length >= 3) {
+      prompt += `
+- Board Texture: ${getBoardTextureLabels(getBoardTexture(communityCards)).join(", ")}`;
+      if (isPlayingTheBoard(selectedCards)) {
+        prompt += `
+- Playing the Board: no hole card plays, so the dealer ties or beats the player`;
+      }
+    }
+
+    if (deadCards.length > 0) {
+      prompt += `
+- Dead Cards (seen elsewhere, not in the deck): ${formatCards(deadCards)}`;
+    }
+
     if (simulationResult) {
+      const winError = simulationResult.winInterval?.standardError;
       prompt += `
-- Win Rate: ${simulationResult.win.toFixed(1)}%
+- Win Rate: ${simulationResult.win.toFixed(1)}%${winError ? ` ± ${winError.toFixed(2)}` : ""}
 - Tie Rate: ${simulationResult.tie.toFixed(1)}%
 - Lose Rate: ${simulationResult.lose.toFixed(1)}%`;
     }
 
     prompt += `
 
-BETTING OPTIONS:
-- Pre-flop: 4x bet, 2x bet, or check
-- Post-flop: 3x bet, 2x bet, or check
-- Turn/River: 1x bet or fold
+TABLE RULES (${rules.name}):
+${describeTableRules(rules)
+  .map((line) => `- ${line}`)
+  .join("\n")}`;
+
+    return prompt;
+  };
+
+  /**
+   * Generate AI advice prompt based on current game state
+   */
+  const generatePrompt = (): string => `Analyze this Ultimate Texas Hold'em hand:
+
+${describeHand()}
 
 Provide your recommendation in JSON format with these exact fields:
-- recommendation: specific action
+- recommendation: exactly one legal action, e.g. "Bet 4x", "Check" or "Fold"
 - reasoning: brief strategic explanation
 - confidence: "high", "medium", or "low"
 - riskLevel: "conservative", "moderate", or "aggressive"`;
 
-    return prompt;
+  /**
+   * Hand context for the coach chat: the situation plus the engine's and
+   * the AI's advice, so follow-up questions can refer to either
+   */
+  const getChatContext = (): string => {
+    const engineAction = engineAdvice.recommendedAction;
+    let context = `${describeHand()}
+
+ENGINE ADVICE:
+- Engine Advice: ${engineAction ? getActionLabel(engineAction, false) : engineAdvice.action} — ${engineAdvice.reasoning}`;
+
+    if (engineAdvice.actionEVs) {
+      context += `
+- Action EVs (antes): ${engineAdvice.actionEVs
+        .map(({ action, ev, standardError }) =>
+          `${getActionLabel(action, false)} ${formatEV(ev)}${standardError ? ` ± ${standardError.toFixed(3)}` : ""}`,
+        )
+        .join(", ")}`;
+    }
+    if (engineAdvice.rule) {
+      context += `
+- Rule: ${engineAdvice.rule}`;
+    }
+    if (aiAdvice) {
+      context += `
+
+YOUR EARLIER ADVICE:
+- AI Advice: ${aiAdvice.recommendation} (${aiAdvice.confidence} confidence) — ${aiAdvice.reasoning}`;
+    }
+
+    return context;
   };
 
   /**
-   * Try OpenAI API first, fallback to local logic if it fails
+   * Try the AI provider first, fallback to local logic if it fails.
+   * The reply is streamed so the reasoning shows as it is generated; the
+   * validated advice arrives as the stream's last event.
    */
   const getAdvice = async (): Promise<void> => {
-    // Increment request counter to cancel any previous requests
+    // Increment request counter and abort the previous request, if any
     currentRequestRef.current += 1;
     const thisRequest = currentRequestRef.current;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     setIsLoading(true);
     setUsingFallback(false);
     setApiError(null);
     setNeedsApiKey(false);
+    setStreamedReply("");
+    setStreamAttempt(1);
+
+    // Give up when the server goes quiet, however long the whole stream takes
+    let timedOut = false;
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+    const resetIdleTimer = () => {
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, ADVICE_IDLE_TIMEOUT);
+    };
 
-    // First try OpenAI API
+    // First try the AI provider
     try {
-      console.log("🤖 Attempting Gemini API request...");
+      console.log("🤖 Attempting AI advice request...");
 
       const prompt = generatePrompt();
 
-      // Try the API with a reasonable timeout
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
-
+      resetIdleTimer();
       const response = await fetch("/api/gemini-advice", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          Accept: "text/event-stream",
         },
-        body: JSON.stringify({ prompt }),
+        body: JSON.stringify({
+          prompt,
+          legalActions: getStageActions(gameStage, rules),
+        }),
         signal: controller.signal,
       });
 
-      clearTimeout(timeoutId);
-
-      if (response.ok) {
-        const data = await response.json();
-
-        // Only update if this request is still current
-        if (currentRequestRef.current === thisRequest) {
-          if (data.success && data.advice) {
-            console.log("✅ Gemini API successful:", data.advice);
-            setAiAdvice(data.advice);
-            setIsLoading(false);
-            setApiError(null);
-            return;
-          } else {
-            throw new Error(data.error || "Invalid API response");
+      if (!response.ok) {
+        const errorData: AdviceResponse = await response.json();
+        throw new Error(errorData.error || `API failed: ${response.status}`);
+      }
+
+      let data: AdviceResponse = {
+        success: false,
+        error: "Advice stream ended early",
+      };
+      if (response.headers.get("Content-Type")?.includes("text/event-stream")) {
+        let reply = "";
+        await readServerSentEvents(response, ({ event, data: payload }) => {
+          resetIdleTimer();
+          if (currentRequestRef.current !== thisRequest) return;
+
+          const message = JSON.parse(payload);
+          switch (event) {
+            case "token":
+              reply += message.text;
+              setStreamedReply(reply);
+              break;
+            case "retry":
+              console.log(`🔁 Invalid AI reply, attempt ${message.attempt}:`, message.errors);
+              reply = "";
+              setStreamedReply("");
+              setStreamAttempt(message.attempt);
+              break;
+            case "advice":
+              data = { success: true, ...message };
+              break;
+            case "error":
+              data = { success: false, error: message.error };
+              break;
           }
-        }
+        });
       } else {
-        const errorData = await response.json();
-        const errorMessage =
-          errorData.error || `API failed: ${response.status}`;
-
-        // Check if it's an API key issue
-        if (
-          errorMessage.includes("API key") ||
-          errorMessage.includes("not configured")
-        ) {
-          setNeedsApiKey(true);
-        }
-
-        throw new Error(errorMessage);
+        // Server without streaming: the whole advice in one response
+        data = await response.json();
       }
+
+      // Only update if this request is still current
+      if (currentRequestRef.current !== thisRequest) return;
+
+      if (!data.success || !data.advice) {
+        throw new Error(data.error || "Invalid API response");
+      }
+
+      console.log(`✅ ${data.provider?.name ?? "AI"} advice received:`, data.advice);
+      setAiAdvice(data.advice);
+      setAdviceCards(cardsKey);
+      setProvider(data.provider ?? null);
+      setIsLoading(false);
+      setApiError(null);
     } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : "Unknown error";
-      console.log("⚠️ Gemini API failed, using fallback:", errorMessage);
-
-      // Only proceed with fallback if this request is still current
-      if (currentRequestRef.current === thisRequest) {
-        // Check if it's an API key configuration issue
-        if (
-          errorMessage.includes("API key") ||
-          errorMessage.includes("not configured")
-        ) {
-          setNeedsApiKey(true);
-          setApiError(null); // Don't show error for missing API key, just use fallback
-        } else {
-          setApiError(errorMessage);
-        }
-
-        // Use fallback logic
-        const fallbackAdvice = generateFallbackAdvice(
-          selectedCards,
-          simulationResult,
-          gameStage,
-          handDescription,
-        );
-
-        setAiAdvice(fallbackAdvice);
-        setUsingFallback(true);
-        setIsLoading(false);
-
-        console.log("🧠 Fallback advice generated:", fallbackAdvice);
+      // Superseded by newer cards, or the advisor is gone: nothing to show
+      if (currentRequestRef.current !== thisRequest) {
+        console.log("🛑 AI advice request aborted");
+        return;
       }
+
+      const errorMessage = timedOut
+        ? "AI took too long to respond"
+        : error instanceof Error
+          ? error.message
+          : "Unknown error";
+      console.log("⚠️ AI advice failed, using fallback:", errorMessage);
+
+      // Check if it's an API key configuration issue
+      if (
+        errorMessage.includes("API key") ||
+        errorMessage.includes("not configured")
+      ) {
+        setNeedsApiKey(true);
+        setApiError(null); // Don't show error for missing API key, just use fallback
+      } else {
+        setApiError(errorMessage);
+      }
+
+      // Use fallback logic
+      const fallbackAdvice = generateFallbackAdvice(
+        selectedCards,
+        simulationResult,
+        gameStage,
+        handDescription,
+        rules,
+      );
+
+      setAiAdvice(fallbackAdvice);
+      setProvider(null);
+      setUsingFallback(true);
+      setIsLoading(false);
+
+      console.log("🧠 Fallback advice generated:", fallbackAdvice);
+    } finally {
+      clearTimeout(idleTimer);
+      // Close the stream if reading stopped before the server ended it
+      controller.abort();
     }
   };
 
@@ -303,30 +512,80 @@ Provide your recommendation in JSON format with these exact fields:
    */
   useEffect(() => {
     // Provide advice for any hand with 2+ cards
-    if (selectedCards.length >= 2 && !isLoading) {
-      const cardsKey = selectedCards.join(",");
+    if (selectedCards.length >= 2) {
 
-      // Avoid duplicate requests for the same cards
-      if (cardsKey !== lastRequestCards) {
-        setLastRequestCards(cardsKey);
+      // Post-flop prompts quote the simulated win rate: wait for it
+      if (selectedCards.length >= 5 && !simulationResult) return;
 
-        // Add small delay for post-flop to let Monte Carlo complete
-        const delay = selectedCards.length >= 5 && simulationResult ? 500 : 100;
+      // Avoid duplicate requests for the same cards; new cards abort a
+      // request still streaming for the old ones
+      if (cardsKey !== lastRequestCards) {
+        // Marked as requested only once sent, so a timer cancelled by a
+        // re-render is scheduled again
         const timer = setTimeout(() => {
+          setLastRequestCards(cardsKey);
           getAdvice();
-        }, delay);
+        }, 100);
 
         return () => clearTimeout(timer);
       }
-    } else if (selectedCards.length < 2) {
-      // Clear advice for insufficient cards
+    } else {
+      // Cancel any request in flight and clear advice for insufficient cards
+      currentRequestRef.current += 1;
+      abortRef.current?.abort();
+      setIsLoading(false);
       setAiAdvice(null);
+      setProvider(null);
       setUsingFallback(false);
       setApiError(null);
       setNeedsApiKey(false);
       setLastRequestCards("");
     }
-  }, [selectedCards, simulationResult]);
+  }, [selectedCards, simulationResult, rules, deadCards]);
+
+  // Abort the request in flight when the advisor unmounts
+  useEffect(
+    () => () => {
+      currentRequestRef.current += 1;
+      abortRef.current?.abort();
+    },
+    [],
+  );
+
+  /**
+   * The AI's action against the engine's, once the AI has answered for
+   * these cards (fallback advice is not compared)
+   */
+  const comparison = useMemo(() => {
+    const engineAction = engineAdvice.recommendedAction;
+    if (!aiAdvice?.action || !engineAction || usingFallback || isLoading) return null;
+    if (adviceCards !== cardsKey) return null;
+    return compareAdvice(aiAdvice.action, engineAction, engineAdvice.actionEVs);
+  }, [aiAdvice, engineAdvice, usingFallback, isLoading, adviceCards, cardsKey]);
+
+  /**
+   * Log each AI answer once, when the engine has priced both actions
+   */
+  useEffect(() => {
+    const stage = getDecisionPoint(selectedCards.length);
+    if (!comparison || comparison.evCost === undefined || !stage) return;
+    if (loggedAdviceRef.current === aiAdvice) return;
+
+    loggedAdviceRef.current = aiAdvice;
+    logAdviceComparison({
+      ...comparison,
+      time: new Date().toISOString(),
+      cards: selectedCards,
+      stage,
+      rulesId: rules.id,
+      provider: provider?.name ?? "AI",
+    });
+    setLogStats(getAdviceLogStats());
+  }, [comparison, aiAdvice, selectedCards, rules.id, provider]);
+
+  // Fields of the reply streamed so far
+  const streamingRecommendation = readPartialField(streamedReply, "recommendation");
+  const streamingReasoning = readPartialField(streamedReply, "reasoning");
 
   /**
    * Get styling for advice based on risk level
@@ -374,16 +633,31 @@ Provide your recommendation in JSON format with these exact fields:
             <div className="flex items-center justify-center py-3">
               <Loader2 className="h-3 w-3 animate-spin text-blue-500 mr-2" />
               <span className="text-xs text-gray-400">
-                Analyzing strategy...
+                {streamAttempt > 1
+                  ? `Fixing the reply format (attempt ${streamAttempt})...`
+                  : "Analyzing strategy..."}
               </span>
             </div>
           )}
 
+          {/* Reasoning as the model writes it */}
+          {isLoading && streamingReasoning && (
+            <div className="p-2 rounded-lg border border-gray-600 bg-gray-700/20 text-gray-300">
+              {streamingRecommendation && (
+                <p className="text-xs font-bold mb-1">🤖 {streamingRecommendation}</p>
+              )}
+              <p className="text-xs opacity-90 leading-relaxed">
+                {streamingReasoning}
+                <span className="animate-pulse">▍</span>
+              </p>
+            </div>
+          )}
+
           {needsApiKey && !isLoading && !aiAdvice && (
             <div className="p-2 rounded-lg border border-gray-600 bg-gray-700/20 text-gray-400 mb-2">
               <div className="flex items-center gap-1 mb-1">
                 <Key className="h-3 w-3" />
-                <p className="text-xs font-bold">Gemini Not Configured</p>
+                <p className="text-xs font-bold">AI Provider Not Configured</p>
               </div>
               <p className="text-xs opacity-90">
                 Using advanced game theory algorithms instead
@@ -428,6 +702,41 @@ Provide your recommendation in JSON format with these exact fields:
                 {aiAdvice.reasoning}
               </p>
 
+              {/* AI vs engine */}
+              {comparison && (
+                <div
+                  className={`mt-1 p-1 rounded text-xs ${
+                    comparison.agrees
+                      ? "text-green-400"
+                      : "bg-orange-900/30 border border-orange-500 text-orange-300"
+                  }`}
+                >
+                  {comparison.agrees ? (
+                    <p>✅ Agrees with the engine</p>
+                  ) : (
+                    <>
+                      <p className="font-bold">
+                        ⚖️ Disagrees with the engine: AI says{" "}
+                        {getActionLabel(comparison.aiAction, false)}, engine says{" "}
+                        {getActionLabel(comparison.engineAction, false)}
+                      </p>
+                      {comparison.evCost !== undefined &&
+                      comparison.aiEV !== undefined &&
+                      comparison.engineEV !== undefined ? (
+                        <p>
+                          Following the AI costs {comparison.evCost.toFixed(2)} antes
+                          (EV {formatEV(comparison.aiEV)} vs {formatEV(comparison.engineEV)})
+                        </p>
+                      ) : (
+                        <p className="opacity-75">
+                          EV cost shown once the engine has priced both actions
+                        </p>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
+
               {/* Status indicators */}
               <div className="mt-1 pt-1 border-t border-gray-600">
                 {usingFallback && (
@@ -439,15 +748,43 @@ Provide your recommendation in JSON format with these exact fields:
                     )}
                   </p>
                 )}
-                {!usingFallback && !apiError && (
-                  <p className="text-xs text-green-400 italic flex items-center gap-1">
+                {!usingFallback && !apiError && provider && (
+                  <p
+                    className="text-xs text-green-400 italic flex items-center gap-1"
+                    title={provider.model}
+                  >
                     <Zap className="h-2 w-2" />
-                    Powered by Gemini
+                    Powered by {provider.name}
                   </p>
                 )}
               </div>
             </div>
           )}
+
+          {/* Follow-up questions, reset whenever the hand changes */}
+          {aiAdvice && !usingFallback && !isLoading && adviceCards === cardsKey && (
+            <CoachChat key={cardsKey} context={getChatContext()} />
+          )}
+
+          {logStats.compared > 0 && (
+            <div className="mt-1 flex justify-between items-center text-xs text-gray-500">
+              <span title="Logged in this browser; details in localStorage under uth-advice-log">
+                AI vs engine: {logStats.disagreements} disagreement
+                {logStats.disagreements === 1 ? "" : "s"} in {logStats.compared} hands
+                {logStats.disagreements > 0 &&
+                  ` · ${logStats.totalEVCost.toFixed(2)} antes given up`}
+              </span>
+              <button
+                onClick={() => {
+                  clearAdviceLog();
+                  setLogStats(getAdviceLogStats());
+                }}
+                className="hover:text-white transition-colors"
+              >
+                Clear
+              </button>
+            </div>
+          )}
         </>
       )}
     </div>
@@ -1,46 +1,456 @@
-import { Hand } from "pokersolver";
-
 /**
  * Hand Evaluator Module
  * 
- * Uses the 'pokersolver' library to evaluate poker hands and provide
- * hand rankings, descriptions, and formatting utilities.
+ * Evaluates poker hands with a native integer evaluator and provides hand
+ * rankings, structured hand results (`HandResult`) and formatting
+ * utilities. Simulations call the integer scorer directly.
+ */
+
+/**
+ * Native Fast Evaluator
+ * 
+ * Cards are encoded as integers `rank * 4 + suit` (rank 0 = '2' … 12 = 'A').
+ * Hands of 5-7 cards are scored to a single comparable integer:
+ * 
+ *   category << 20 | five rank nibbles (most significant first)
+ * 
+ * Categories match `HandCategory` (1 = High Card … 9 = Straight Flush).
+ * Straights and flushes are resolved from 13-bit rank masks through lookup
+ * tables built once at module load, so scoring never allocates.
+ */
+
+const cardRanks = ['2','3','4','5','6','7','8','9','10','J','Q','K','A'];
+const cardSuits = ['h','d','s','c'];
+
+// Bit offset of the hand category within a score
+const CATEGORY_SHIFT = 20;
+
+// Lookup tables indexed by 13-bit rank mask
+const straightHigh = new Int8Array(8192);   // top rank of the best straight, -1 if none
+const topRanks = new Int32Array(8192);      // up to five highest ranks as nibbles from bit 16 down
+
+for (let mask = 0; mask < 8192; mask++) {
+  let nibbles = 0;
+  let taken = 0;
+  for (let rank = 12; rank >= 0 && taken < 5; rank--) {
+    if (mask & (1 << rank)) {
+      nibbles |= rank << (16 - 4 * taken);
+      taken++;
+    }
+  }
+  topRanks[mask] = nibbles;
+
+  straightHigh[mask] = -1;
+  for (let high = 12; high >= 3; high--) {
+    // The wheel (A-2-3-4-5) plays the ace low
+    const pattern = high === 3 ? 0x100f : 0x1f << (high - 4);
+    if ((mask & pattern) === pattern) {
+      straightHigh[mask] = high;
+      break;
+    }
+  }
+}
+
+// Scratch buffers reused by every evaluation
+const rankCounts = new Uint8Array(13);
+const suitCounts = new Uint8Array(4);
+const suitMasks = new Int32Array(4);
+
+/**
+ * Encode a card string ("10h", "As") as an integer
+ * 
+ * @param card Card string
+ * @returns Card code from 0 to 51
  */
+export function encodeCard(card: string): number {
+  const rank = cardRanks.indexOf(card.slice(0, -1));
+  const suit = cardSuits.indexOf(card.slice(-1));
+  if (rank < 0 || suit < 0) {
+    throw new Error(`Invalid card format: ${card}`);
+  }
+  return rank * 4 + suit;
+}
 
 /**
- * Convert card format from "10h" to "Th" for pokersolver compatibility
+ * Decode an integer card back to its string form
+ * 
+ * @param code Card code from 0 to 51
+ * @returns Card string like "10h"
  */
-function convertCardForSolver(card: string): string {
-  return card.replace('10', 'T');
+export function decodeCard(code: number): string {
+  return `${cardRanks[code >> 2]}${cardSuits[code & 3]}`;
 }
 
 /**
- * Evaluates the best 5-card poker hand from given cards using pokersolver library.
+ * Score 5-7 encoded cards as a comparable integer (higher is better)
  * 
- * @param cards Array of card strings (e.g., ['Ah','Kd','Qs','Jc','10s'])
- * @returns Hand description string like "Straight", "Two Pair", "Full House", etc.
+ * @param cards Card codes
+ * @returns Hand score
+ */
+export function evaluateCards(cards: ArrayLike<number>): number {
+  rankCounts.fill(0);
+  suitCounts.fill(0);
+  suitMasks.fill(0);
+  let rankMask = 0;
+
+  for (let i = 0; i < cards.length; i++) {
+    const rank = cards[i] >> 2;
+    const suit = cards[i] & 3;
+    rankCounts[rank]++;
+    suitCounts[suit]++;
+    suitMasks[suit] |= 1 << rank;
+    rankMask |= 1 << rank;
+  }
+
+  // Flushes and straight flushes (only one suit can hold 5+ of 7 cards)
+  for (let suit = 0; suit < 4; suit++) {
+    if (suitCounts[suit] >= 5) {
+      const high = straightHigh[suitMasks[suit]];
+      if (high >= 0) return (9 << CATEGORY_SHIFT) | (high << 16);
+      return (6 << CATEGORY_SHIFT) | topRanks[suitMasks[suit]];
+    }
+  }
+
+  let quads = -1;
+  let trips = -1;
+  let secondTrips = -1;
+  let pair = -1;
+  let secondPair = -1;
+  for (let rank = 12; rank >= 0; rank--) {
+    const count = rankCounts[rank];
+    if (count === 4) quads = rank;
+    else if (count === 3) {
+      if (trips < 0) trips = rank;
+      else if (secondTrips < 0) secondTrips = rank;
+    } else if (count === 2) {
+      if (pair < 0) pair = rank;
+      else if (secondPair < 0) secondPair = rank;
+    }
+  }
+
+  if (quads >= 0) {
+    const kicker = (topRanks[rankMask & ~(1 << quads)] >> 4) & 0xf000;
+    return (8 << CATEGORY_SHIFT) | (quads << 16) | kicker;
+  }
+
+  if (trips >= 0 && (secondTrips >= 0 || pair >= 0)) {
+    const filler = Math.max(secondTrips, pair);
+    return (7 << CATEGORY_SHIFT) | (trips << 16) | (filler << 12);
+  }
+
+  const high = straightHigh[rankMask];
+  if (high >= 0) return (5 << CATEGORY_SHIFT) | (high << 16);
+
+  if (trips >= 0) {
+    const kickers = (topRanks[rankMask & ~(1 << trips)] >> 4) & 0xff00;
+    return (4 << CATEGORY_SHIFT) | (trips << 16) | kickers;
+  }
+
+  if (pair >= 0 && secondPair >= 0) {
+    const kicker = (topRanks[rankMask & ~(1 << pair) & ~(1 << secondPair)] >> 8) & 0xf00;
+    return (3 << CATEGORY_SHIFT) | (pair << 16) | (secondPair << 12) | kicker;
+  }
+
+  if (pair >= 0) {
+    const kickers = (topRanks[rankMask & ~(1 << pair)] >> 4) & 0xfff0;
+    return (2 << CATEGORY_SHIFT) | (pair << 16) | kickers;
+  }
+
+  return (1 << CATEGORY_SHIFT) | topRanks[rankMask];
+}
+
+/**
+ * Score a hand of card strings as a comparable integer (higher is better)
+ * 
+ * @param cards Array of 5-7 card strings
+ * @returns Hand score
+ */
+export function scoreHand(cards: string[]): number {
+  return evaluateCards(cards.map(encodeCard));
+}
+
+/**
+ * Gets the payout rank of a hand score, using the same numbering as
+ * `getHandRank` (1 = High Card … 9 = Straight Flush, 10 = Royal Flush)
+ * 
+ * @param score Hand score from `evaluateCards` or `scoreHand`
+ * @returns Numeric rank
+ */
+export function getScoreRank(score: number): number {
+  const category = score >> CATEGORY_SHIFT;
+  const isRoyal = category === 9 && ((score >> 16) & 0xf) === 12;
+  return isRoyal ? 10 : category;
+}
+
+/**
+ * The dealer's outs at the river, split by outcome
+ */
+export interface DealerOuts {
+  /** Unseen cards that give the dealer a winning hand */
+  winning: string[];
+  /** Unseen cards that only give the dealer a tie */
+  tying: string[];
+  /** Number of unseen cards checked */
+  unseen: number;
+}
+
+/**
+ * Find the dealer's outs at the river: the unseen cards that, as one of
+ * the dealer's hole cards, make the dealer's hand with the board beat or
+ * tie the player's. The dealer's other hole card can only help, so these
+ * cards win (or tie) whatever it is.
+ * 
+ * @param cards 2 hole cards followed by the 5 community cards
+ * @param deadCards Cards seen elsewhere, which the dealer cannot hold
+ * @returns Winning and tying outs among the unseen cards (45 without dead cards)
+ */
+export function getDealerOuts(cards: string[], deadCards: string[] = []): DealerOuts {
+  if (cards.length !== 7) {
+    throw new Error("Dealer outs need 2 hole cards and 5 community cards");
+  }
+
+  const known = cards.map(encodeCard);
+  const dead = deadCards.map(encodeCard);
+  if (new Set([...known, ...dead]).size !== known.length + dead.length) {
+    throw new Error("Duplicate cards detected");
+  }
+
+  const playerScore = evaluateCards(known);
+  const dealerHand = [...known.slice(2), 0];
+  const outs: DealerOuts = { winning: [], tying: [], unseen: 0 };
+
+  for (let code = 51; code >= 0; code--) {
+    if (known.includes(code) || dead.includes(code)) continue;
+    outs.unseen++;
+    dealerHand[5] = code;
+    const dealerScore = evaluateCards(dealerHand);
+    if (dealerScore > playerScore) {
+      outs.winning.push(decodeCard(code));
+    } else if (dealerScore === playerScore) {
+      outs.tying.push(decodeCard(code));
+    }
+  }
+
+  return outs;
+}
+
+/**
+ * Hand categories, numbered like `getHandRank` (Royal Flush promoted to 10)
  */
-export function evaluateHand(cards: string[]): string {
+export enum HandCategory {
+  HighCard = 1,
+  OnePair,
+  TwoPair,
+  ThreeOfAKind,
+  Straight,
+  Flush,
+  FullHouse,
+  FourOfAKind,
+  StraightFlush,
+  RoyalFlush,
+}
+
+/**
+ * Display name of each hand category
+ */
+export const HAND_CATEGORY_NAMES: Record<HandCategory, string> = {
+  [HandCategory.HighCard]: "High Card",
+  [HandCategory.OnePair]: "Pair",
+  [HandCategory.TwoPair]: "Two Pair",
+  [HandCategory.ThreeOfAKind]: "Three of a Kind",
+  [HandCategory.Straight]: "Straight",
+  [HandCategory.Flush]: "Flush",
+  [HandCategory.FullHouse]: "Full House",
+  [HandCategory.FourOfAKind]: "Four of a Kind",
+  [HandCategory.StraightFlush]: "Straight Flush",
+  [HandCategory.RoyalFlush]: "Royal Flush",
+};
+
+/**
+ * The best five-card hand made from a player's cards
+ */
+export interface HandResult {
+  category: HandCategory;
+  /** Full description, e.g. "Two Pair, K's & 9's" */
+  description: string;
+  /** Comparable score from `evaluateCards` (higher is better) */
+  score: number;
+  /** The five cards that make the hand, most significant first */
+  bestFive: string[];
+  /** Cards of the best five that only break ties, highest first */
+  kickers: string[];
+  /** Hole cards among the best five; empty when the board plays */
+  playingHoleCards: string[];
+}
+
+/**
+ * Why a hand could not be evaluated
+ */
+export type HandEvaluationErrorCode =
+  | "notEnoughCards"
+  | "tooManyCards"
+  | "invalidCard"
+  | "duplicateCard";
+
+/**
+ * Failed evaluation, with a message fit for display
+ */
+export interface HandEvaluationFailure {
+  ok: false;
+  code: HandEvaluationErrorCode;
+  message: string;
+}
+
+/**
+ * Result of `evaluateHand`
+ */
+export type HandEvaluation = { ok: true; hand: HandResult } | HandEvaluationFailure;
+
+/**
+ * Check that 5-7 distinct, well-formed cards were given
+ */
+function checkHandCards(cards: string[]): HandEvaluationFailure | null {
   if (cards.length < 5) {
-    return "Need at least 5 cards to evaluate hand";
+    return { ok: false, code: "notEnoughCards", message: "Need at least 5 cards to evaluate hand" };
   }
-  
-  try {
-    // Convert cards to pokersolver format (10 -> T)
-    const solverCards = cards.map(convertCardForSolver);
-    const result = Hand.solve(solverCards);
-    return result.descr || "Unknown hand";
-  } catch (error) {
-    console.error("Error evaluating hand:", error);
-    return "Error evaluating hand";
+  if (cards.length > 7) {
+    return { ok: false, code: "tooManyCards", message: "A hand has at most 7 cards" };
+  }
+  const invalid = cards.find((card) => {
+    try {
+      encodeCard(card);
+      return false;
+    } catch {
+      return true;
+    }
+  });
+  if (invalid !== undefined) {
+    return { ok: false, code: "invalidCard", message: `Invalid card format: ${invalid}` };
+  }
+  if (new Set(cards).size !== cards.length) {
+    return { ok: false, code: "duplicateCard", message: "Duplicate cards detected" };
+  }
+  return null;
+}
+
+/**
+ * Order five cards the way the hand reads: larger rank groups first, then
+ * higher ranks; a wheel plays its ace low
+ */
+function orderBestFive(five: string[], category: HandCategory): string[] {
+  const rankOf = (card: string) => cardRanks.indexOf(card.slice(0, -1));
+  const count = (card: string) => five.filter((other) => rankOf(other) === rankOf(card)).length;
+  const ordered = [...five].sort((a, b) => count(b) - count(a) || rankOf(b) - rankOf(a));
+
+  const straight = category === HandCategory.Straight || category === HandCategory.StraightFlush;
+  if (straight && rankOf(ordered[0]) === 12 && rankOf(ordered[1]) === 3) {
+    return [...ordered.slice(1), ordered[0]];
+  }
+  return ordered;
+}
+
+/**
+ * Describe a hand from its ordered best five, e.g. "Full House, K's over 4's"
+ */
+function describeHand(category: HandCategory, bestFive: string[]): string {
+  const ranks = bestFive.map((card) => card.slice(0, -1));
+  const name = HAND_CATEGORY_NAMES[category];
+  switch (category) {
+    case HandCategory.HighCard:
+      return `${ranks[0]} High`;
+    case HandCategory.OnePair:
+    case HandCategory.ThreeOfAKind:
+    case HandCategory.FourOfAKind:
+      return `${name}, ${ranks[0]}'s`;
+    case HandCategory.TwoPair:
+      return `${name}, ${ranks[0]}'s & ${ranks[2]}'s`;
+    case HandCategory.FullHouse:
+      return `${name}, ${ranks[0]}'s over ${ranks[3]}'s`;
+    case HandCategory.Straight:
+    case HandCategory.Flush:
+    case HandCategory.StraightFlush:
+      return `${name}, ${ranks[0]} High`;
+    case HandCategory.RoyalFlush:
+      return name;
   }
 }
 
+/**
+ * Number of cards of each category that make the hand; the rest are kickers
+ */
+const MADE_CARD_COUNTS: Record<HandCategory, number> = {
+  [HandCategory.HighCard]: 1,
+  [HandCategory.OnePair]: 2,
+  [HandCategory.TwoPair]: 4,
+  [HandCategory.ThreeOfAKind]: 3,
+  [HandCategory.Straight]: 5,
+  [HandCategory.Flush]: 5,
+  [HandCategory.FullHouse]: 5,
+  [HandCategory.FourOfAKind]: 4,
+  [HandCategory.StraightFlush]: 5,
+  [HandCategory.RoyalFlush]: 5,
+};
+
+/**
+ * Evaluates the best 5-card poker hand from a player's cards.
+ * 
+ * When several five-card hands tie for best, the one using the fewest hole
+ * cards is kept, so `playingHoleCards` is empty whenever the board plays.
+ * 
+ * @param cards 2 hole cards followed by 3-5 community cards (any 5-7 cards
+ *   are accepted; the first two are treated as hole cards)
+ * @returns The hand, or a failure with its error code
+ */
+export function evaluateHand(cards: string[]): HandEvaluation {
+  const failure = checkHandCards(cards);
+  if (failure) return failure;
+
+  const codes = cards.map(encodeCard);
+  const five = new Array<number>(5);
+  let best: number[] = [];
+  let bestScore = -1;
+  let bestHoleCount = 0;
+
+  // Every five-card subset, as 5 indices chosen from the cards
+  const choose = (start: number, depth: number) => {
+    if (depth === 5) {
+      const score = evaluateCards(five);
+      const holeCount = five.filter((code) => code === codes[0] || code === codes[1]).length;
+      if (score > bestScore || (score === bestScore && holeCount < bestHoleCount)) {
+        best = [...five];
+        bestScore = score;
+        bestHoleCount = holeCount;
+      }
+      return;
+    }
+    for (let i = start; i <= codes.length - 5 + depth; i++) {
+      five[depth] = codes[i];
+      choose(i + 1, depth + 1);
+    }
+  };
+  choose(0, 0);
+
+  const category = getScoreRank(bestScore) as HandCategory;
+  const bestFive = orderBestFive(best.map(decodeCard), category);
+
+  return {
+    ok: true,
+    hand: {
+      category,
+      description: describeHand(category, bestFive),
+      score: bestScore,
+      bestFive,
+      kickers: bestFive.slice(MADE_CARD_COUNTS[category]),
+      playingHoleCards: cards.slice(0, 2).filter((card) => bestFive.includes(card)),
+    },
+  };
+}
+
 /**
  * Gets the rank value of a poker hand for comparison purposes.
  * Higher numbers indicate stronger hands.
  * 
- * Hand Rankings (from pokersolver):
+ * Hand Rankings (see `HandCategory`):
  * 1 = High Card
  * 2 = One Pair  
  * 3 = Two Pair
@@ -59,9 +469,7 @@ export function getHandRank(cards: string[]): number {
   if (cards.length < 5) return 0;
   
   try {
-    const solverCards = cards.map(convertCardForSolver);
-    const result = Hand.solve(solverCards);
-    return result.rank || 0;
+    return getScoreRank(scoreHand(cards));
   } catch (error) {
     console.error("Error getting hand rank:", error);
     return 0;
@@ -86,78 +494,38 @@ export function formatCards(cards: string[]): string {
 }
 
 /**
- * Determines if a hand is considered "premium" for pre-flop play
+ * Broad strength bucket of a hand, for AI prompts
+ */
+export type HandStrength = "weak" | "moderate" | "strong" | "very strong";
+
+/**
+ * Detailed hand analysis, or the failure that prevented it
+ */
+export type HandAnalysis =
+  | { ok: true; hand: HandResult; strength: HandStrength }
+  | HandEvaluationFailure;
+
+/**
+ * Gets the strength bucket of a hand category
  * 
- * @param holeCards Array of exactly 2 hole cards
- * @returns Boolean indicating if hand is premium
+ * @param category Hand category
+ * @returns Strength bucket
  */
-export function isPremiumHand(holeCards: string[]): boolean {
-  if (holeCards.length !== 2) return false;
-  
-  const [card1, card2] = holeCards;
-  const rank1 = card1.slice(0, -1);
-  const suit1 = card1.slice(-1);
-  const rank2 = card2.slice(0, -1);
-  const suit2 = card2.slice(-1);
-  
-  const suited = suit1 === suit2;
-  const isPair = rank1 === rank2;
-  const strongRanks = ['A', 'K', 'Q', 'J', '10'];
-  
-  // Any pair is premium
-  if (isPair) return true;
-  
-  // Suited Ace is premium
-  if ((rank1 === 'A' || rank2 === 'A') && suited) return true;
-  
-  // Suited Broadway cards are premium
-  if (strongRanks.includes(rank1) && strongRanks.includes(rank2) && suited) return true;
-  
-  // AK offsuit is premium
-  if ((rank1 === 'A' && rank2 === 'K') || (rank1 === 'K' && rank2 === 'A')) return true;
-  
-  return false;
+export function getHandStrength(category: HandCategory): HandStrength {
+  if (category >= HandCategory.FourOfAKind) return "very strong";
+  if (category >= HandCategory.Flush) return "strong";
+  if (category >= HandCategory.ThreeOfAKind) return "moderate";
+  return "weak";
 }
 
 /**
  * Get detailed hand analysis for AI prompts
  * 
- * @param cards Array of card strings
- * @returns Detailed hand analysis object
+ * @param cards 2 hole cards followed by 3-5 community cards
+ * @returns The hand with its strength bucket, or the evaluation failure
  */
-export function getHandAnalysis(cards: string[]) {
-  if (cards.length < 5) {
-    return {
-      handName: "Incomplete hand",
-      handRank: 0,
-      strength: "unknown"
-    };
-  }
-
-  try {
-    const solverCards = cards.map(convertCardForSolver);
-    const result = Hand.solve(solverCards);
-    
-    const handRank = result.rank || 0;
-    let strength = "weak";
-    
-    if (handRank >= 8) strength = "very strong";
-    else if (handRank >= 6) strength = "strong";
-    else if (handRank >= 4) strength = "moderate";
-    else if (handRank >= 2) strength = "weak";
-    
-    return {
-      handName: result.descr || "Unknown hand",
-      handRank,
-      strength,
-      cards: result.cards || []
-    };
-  } catch (error) {
-    console.error("Error analyzing hand:", error);
-    return {
-      handName: "Error analyzing hand",
-      handRank: 0,
-      strength: "unknown"
-    };
-  }
-}
\ No newline at end of file
+export function getHandAnalysis(cards: string[]): HandAnalysis {
+  const evaluation = evaluateHand(cards);
+  if (!evaluation.ok) return evaluation;
+  return { ...evaluation, strength: getHandStrength(evaluation.hand.category) };
+}
@@ -0,0 +1,262 @@
+/**
+ * Hand State Machine for Ultimate Texas Hold'em
+ *
+ * Models the three decision points of a hand (bet sizes under standard
+ * rules; the table rules of the hand decide which sizes are allowed):
+ * - Pre-flop (2 hole cards): bet 4x or 3x, or check
+ * - Flop (5 cards): bet 2x or check
+ * - River (7 cards, turn and river dealt together): bet 1x or fold
+ *
+ * Once a Play bet is made no further bets are allowed and the remaining
+ * cards are dealt straight through to the showdown.
+ */
+
+import {
+  getBetAction,
+  type DecisionPoint,
+  type UTHAction,
+} from "../utils/expectedValue";
+import { DEFAULT_TABLE_RULES, type TableRules } from "../utils/tableRules";
+
+/**
+ * Stages of a hand: the three decision points plus the showdown
+ */
+export type GameStage = DecisionPoint | "showdown";
+
+/**
+ * Action the player has recorded for the hand
+ */
+export type RecordedAction =
+  | { type: "bet"; multiplier: number; stage: DecisionPoint }
+  | { type: "fold"; stage: DecisionPoint };
+
+/**
+ * Events that drive the state machine
+ */
+export type HandEvent =
+  | { type: "deal"; cards: string[] }
+  | { type: "bet"; multiplier: number }
+  | { type: "check" }
+  | { type: "fold" };
+
+/**
+ * Current state of a hand
+ */
+export interface HandState {
+  stage: GameStage;
+  cards: string[];
+  /** Cards still to be dealt before the current stage can be played */
+  cardsNeeded: number;
+  /** Whether the player has acted at the current decision point */
+  acted: boolean;
+  playBet: { multiplier: number; stage: DecisionPoint } | null;
+  folded: boolean;
+  /** Table rules the hand is played under */
+  rules: TableRules;
+}
+
+/**
+ * Total known cards at each decision point
+ */
+export const STAGE_CARD_COUNTS: Record<DecisionPoint, number> = {
+  preflop: 2,
+  flop: 5,
+  river: 7,
+};
+
+// Stage that follows each decision point
+const nextStage: Record<DecisionPoint, GameStage> = {
+  preflop: "flop",
+  flop: "river",
+  river: "showdown",
+};
+
+/**
+ * Create the state for a new hand, waiting for the hole cards
+ *
+ * @param rules Table rules the hand is played under
+ */
+export function createHandState(
+  rules: TableRules = DEFAULT_TABLE_RULES,
+): HandState {
+  return {
+    stage: "preflop",
+    cards: [],
+    cardsNeeded: STAGE_CARD_COUNTS.preflop,
+    acted: false,
+    playBet: null,
+    folded: false,
+    rules,
+  };
+}
+
+/**
+ * Whether the player is facing a decision in this state
+ */
+export function isDecisionPending(state: HandState): boolean {
+  return state.stage !== "showdown" && state.cardsNeeded === 0 && !state.acted;
+}
+
+/**
+ * Gets the Play bet sizes still allowed in this state.
+ * Empty once a Play bet has been made or the hand is over.
+ *
+ * @param state Current hand state
+ * @returns Allowed multipliers, largest first
+ */
+export function getAllowedBetSizes(state: HandState): number[] {
+  if (!isDecisionPending(state) || state.playBet) return [];
+  return state.rules.betSizes[state.stage as DecisionPoint];
+}
+
+/**
+ * Gets every legal action in this state
+ *
+ * @param state Current hand state
+ * @returns Legal actions, bets first
+ */
+export function getLegalActions(state: HandState): UTHAction[] {
+  if (!isDecisionPending(state) || state.playBet) return [];
+
+  const bets = getAllowedBetSizes(state).map(getBetAction);
+  return [...bets, state.stage === "river" ? "fold" : "check"];
+}
+
+/**
+ * Advance the hand state with a single event.
+ *
+ * Cards must be dealt a full street at a time (2 hole cards, 3 flop cards,
+ * then turn and river together) and actions must be legal at the current
+ * decision point.
+ *
+ * @param state Current hand state
+ * @param event Event to apply
+ * @returns New hand state
+ */
+export function advanceHand(state: HandState, event: HandEvent): HandState {
+  const stage = state.stage;
+
+  if (stage === "showdown") {
+    throw new Error("Hand is already complete");
+  }
+
+  switch (event.type) {
+    case "deal": {
+      if (state.cardsNeeded === 0) {
+        throw new Error(`Cannot deal cards during the ${stage} decision`);
+      }
+      if (event.cards.length !== state.cardsNeeded) {
+        throw new Error(
+          `The ${stage} needs exactly ${state.cardsNeeded} cards, got ${event.cards.length}`,
+        );
+      }
+      const cards = [...state.cards, ...event.cards];
+      if (new Set(cards).size !== cards.length) {
+        throw new Error("Duplicate cards detected");
+      }
+      // With a Play bet already made there is nothing left to decide
+      const skipDecision = state.playBet !== null;
+      return {
+        ...state,
+        cards,
+        cardsNeeded: 0,
+        acted: skipDecision,
+        stage: skipDecision && stage === "river" ? "showdown" : stage,
+      };
+    }
+
+    case "bet": {
+      if (!getAllowedBetSizes(state).includes(event.multiplier)) {
+        throw new Error(`A ${event.multiplier}x bet is not allowed on the ${stage}`);
+      }
+      return advanceStage({
+        ...state,
+        playBet: { multiplier: event.multiplier, stage },
+      });
+    }
+
+    case "check": {
+      if (!getLegalActions(state).includes("check")) {
+        throw new Error(`Cannot check on the ${stage}`);
+      }
+      return advanceStage(state);
+    }
+
+    case "fold": {
+      if (!getLegalActions(state).includes("fold")) {
+        throw new Error(`Cannot fold on the ${stage}`);
+      }
+      return { ...state, stage: "showdown", acted: true, folded: true };
+    }
+  }
+}
+
+/**
+ * Move past the current decision point to the next street
+ */
+function advanceStage(state: HandState): HandState {
+  const stage = nextStage[state.stage as DecisionPoint];
+  if (stage === "showdown") {
+    return { ...state, stage, cardsNeeded: 0, acted: true };
+  }
+  return {
+    ...state,
+    stage,
+    cardsNeeded: STAGE_CARD_COUNTS[stage] - state.cards.length,
+    acted: false,
+  };
+}
+
+/**
+ * Build the hand state from the cards selected so far and the action the
+ * player has recorded. Streets that are only partly selected leave the
+ * state waiting for the remaining cards of that street.
+ *
+ * @param cards Selected cards (hole cards first, then community cards)
+ * @param action Action recorded by the player, if any
+ * @param rules Table rules the hand is played under
+ * @returns Hand state
+ */
+export function buildHandState(
+  cards: string[],
+  action: RecordedAction | null = null,
+  rules: TableRules = DEFAULT_TABLE_RULES,
+): HandState {
+  let state = createHandState(rules);
+
+  while (state.stage !== "showdown") {
+    const stage = state.stage;
+    const target = STAGE_CARD_COUNTS[stage];
+
+    if (cards.length < target) {
+      return { ...state, cardsNeeded: target - cards.length };
+    }
+    if (state.cardsNeeded > 0) {
+      state = advanceHand(state, {
+        type: "deal",
+        cards: cards.slice(state.cards.length, target),
+      });
+    }
+    if (!isDecisionPending(state)) {
+      // Play bet already made: deal on through the remaining streets
+      if (cards.length === target) return state;
+      state = advanceStage(state);
+      continue;
+    }
+    if (action?.stage === stage) {
+      state = advanceHand(
+        state,
+        action.type === "bet"
+          ? { type: "bet", multiplier: action.multiplier }
+          : { type: "fold" },
+      );
+      continue;
+    }
+    if (cards.length === target) {
+      return state;
+    }
+    state = advanceHand(state, { type: "check" });
+  }
+
+  return state;
+}
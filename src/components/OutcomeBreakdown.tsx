@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { HAND_CATEGORY_NAMES, HandCategory } from "./HandEvaluator";
+import { getBlindOutcomes } from "../utils/expectedValue";
+import type { SimulationResult } from "../utils/monteCarlo";
+import type { TableRules } from "../utils/tableRules";
+
+/**
+ * OutcomeBreakdown Props Interface
+ */
+interface OutcomeBreakdownProps {
+  result: SimulationResult;
+  rules: TableRules;
+}
+
+// Hand categories, best first
+const CATEGORIES = Object.values(HandCategory)
+  .filter((category): category is HandCategory => typeof category === "number")
+  .sort((a, b) => b - a);
+
+/**
+ * Collapsible chart of where the equity comes from: the player's final
+ * hands split into wins, ties and losses, the dealer's final hands and
+ * qualification, and how the Blind settles.
+ */
+export default function OutcomeBreakdown({ result, rules }: OutcomeBreakdownProps) {
+  const [open, setOpen] = useState(false);
+  const { outcomeByHand, dealerHandDistribution, dealerNotQualified } = result;
+  if (!outcomeByHand || !dealerHandDistribution) return null;
+
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+  const playerRow = (category: HandCategory) => ({
+    win: outcomeByHand.win[category] ?? 0,
+    tie: outcomeByHand.tie[category] ?? 0,
+    lose: outcomeByHand.lose[category] ?? 0,
+  });
+  const playerRows = CATEGORIES.map((category) => ({ category, ...playerRow(category) }))
+    .map((row) => ({ ...row, total: row.win + row.tie + row.lose }))
+    .filter((row) => row.total > 0);
+  const dealerRows = CATEGORIES.map((category) => ({
+    category,
+    total: dealerHandDistribution[category] ?? 0,
+  })).filter((row) => row.total > 0);
+
+  // Bars are scaled to the most likely hand so small categories stay visible
+  const scale = Math.max(...playerRows.map((row) => row.total), ...dealerRows.map((row) => row.total));
+  const width = (value: number) => `${(value / scale) * 100}%`;
+
+  const blindOutcomes = getBlindOutcomes(outcomeByHand, rules);
+  const blindReturn = blindOutcomes.reduce(
+    (sum, outcome) => sum + outcome.payout * outcome.probability,
+    0,
+  );
+
+  return (
+    <div className="pt-2 border-t border-gray-600 text-xs">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex justify-between items-center text-gray-400 hover:text-white transition-colors"
+      >
+        <span>📊 Outcomes by hand {open ? "▲" : "▼"}</span>
+        {dealerNotQualified !== undefined && rules.dealerMustQualify && (
+          <span>Dealer doesn't qualify {percent(dealerNotQualified)}</span>
+        )}
+      </button>
+
+      {open && (
+        <div className="mt-2 space-y-3">
+          <div>
+            <p className="text-gray-400 mb-1">Your final hand</p>
+            {playerRows.map((row) => (
+              <div key={row.category} className="flex items-center gap-2">
+                <span className="w-24 text-gray-300 truncate">
+                  {HAND_CATEGORY_NAMES[row.category]}
+                </span>
+                <div className="flex-1 h-2 bg-gray-700 rounded overflow-hidden flex">
+                  <div className="bg-green-500" style={{ width: width(row.win) }} />
+                  <div className="bg-blue-500" style={{ width: width(row.tie) }} />
+                  <div className="bg-red-500" style={{ width: width(row.lose) }} />
+                </div>
+                <span
+                  className="w-12 text-right font-mono"
+                  title={`Win ${percent(row.win)} · Tie ${percent(row.tie)} · Lose ${percent(row.lose)}`}
+                >
+                  {percent(row.total)}
+                </span>
+              </div>
+            ))}
+            <p className="text-gray-500 mt-1">
+              <span className="text-green-400">■</span> win{" "}
+              <span className="text-blue-400">■</span> tie{" "}
+              <span className="text-red-400">■</span> lose
+            </p>
+          </div>
+
+          <div>
+            <p className="text-gray-400 mb-1">Dealer's final hand</p>
+            {dealerRows.map((row) => (
+              <div key={row.category} className="flex items-center gap-2">
+                <span className="w-24 text-gray-300 truncate">
+                  {HAND_CATEGORY_NAMES[row.category]}
+                </span>
+                <div className="flex-1 h-2 bg-gray-700 rounded overflow-hidden">
+                  <div className="h-full bg-yellow-500" style={{ width: width(row.total) }} />
+                </div>
+                <span className="w-12 text-right font-mono">{percent(row.total)}</span>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <div className="flex justify-between text-gray-400 mb-1">
+              <span>Blind at showdown</span>
+              <span className={blindReturn >= 0 ? "text-green-400" : "text-red-400"}>
+                {blindReturn >= 0 ? "+" : ""}
+                {blindReturn.toFixed(3)} per unit
+              </span>
+            </div>
+            {blindOutcomes.map((outcome) => (
+              <div key={outcome.label} className="flex justify-between gap-2">
+                <span className="text-gray-300">{outcome.label}</span>
+                <span className="text-gray-400 font-mono">
+                  {outcome.payout > 0 ? `${outcome.payout}:1 · ` : ""}
+                  {percent(outcome.probability)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+import { useEffect, useState } from "react";
+import { exploreRunouts, type Runout } from "../utils/runoutExplorer";
+import type { TableRules } from "../utils/tableRules";
+import { getActionLabel } from "./BetAdvisor";
+import { formatCards } from "./HandEvaluator";
+
+/**
+ * RunoutExplorer Props Interface
+ */
+interface RunoutExplorerProps {
+  /** 2 hole cards followed by the 3 flop cards */
+  knownCards: string[];
+  /** Win percentage at the flop */
+  baselineWin: number;
+  rules: TableRules;
+  /** Cards seen elsewhere at the table */
+  deadCards: string[];
+}
+
+const ranks = ["2", "3", "4", "5", "6", "7", "8", "9", "10", "J", "Q", "K", "A"];
+const suits = ["h", "d", "s", "c"];
+const suitSymbols: Record<string, string> = { h: "♥", d: "♦", s: "♠", c: "♣" };
+
+/**
+ * Background shade for a change in win percentage: green when the card
+ * helps, red when it hurts, stronger for bigger swings
+ */
+function getChangeColor(winChange: number): string {
+  const strength = Math.min(Math.abs(winChange) / 40, 1) * 0.8 + 0.1;
+  return winChange >= 0
+    ? `rgba(34, 197, 94, ${strength})`
+    : `rgba(239, 68, 68, ${strength})`;
+}
+
+/**
+ * Grid of runout cards, one row per suit
+ */
+function RunoutGrid({
+  runouts,
+  selected,
+  onSelect,
+  showAction,
+}: {
+  runouts: Runout[];
+  selected?: string | null;
+  onSelect?: (card: string) => void;
+  showAction: boolean;
+}) {
+  const byCard = new Map(runouts.map((runout) => [runout.card, runout]));
+
+  return (
+    <div className="grid gap-0.5" style={{ gridTemplateColumns: "repeat(13, minmax(0, 1fr))" }}>
+      {suits.flatMap((suit) =>
+        ranks.map((rank) => {
+          const card = `${rank}${suit}`;
+          const runout = byCard.get(card);
+          if (!runout) {
+            return <div key={card} className="h-9 rounded bg-gray-800" />;
+          }
+
+          const sign = runout.winChange >= 0 ? "+" : "";
+          return (
+            <button
+              key={card}
+              onClick={() => onSelect?.(card)}
+              disabled={!onSelect}
+              className={`h-9 rounded leading-tight text-[10px] font-mono text-white ${
+                selected === card ? "ring-2 ring-yellow-400" : ""
+              } ${onSelect ? "hover:ring-1 hover:ring-white" : "cursor-default"}`}
+              style={{ backgroundColor: getChangeColor(runout.winChange) }}
+              title={`${rank}${suitSymbols[suit]}: win ${runout.result.win.toFixed(1)}% (${sign}${runout.winChange.toFixed(1)})${
+                runout.bestAction ? ` — ${getActionLabel(runout.bestAction, false)}` : ""
+              }`}
+            >
+              <div>
+                {rank}
+                {suitSymbols[suit]}
+              </div>
+              <div>
+                {showAction && runout.bestAction
+                  ? getActionLabel(runout.bestAction).split(" ")[0]
+                  : `${runout.result.win.toFixed(0)}%`}
+              </div>
+            </button>
+          );
+        }),
+      )}
+    </div>
+  );
+}
+
+/**
+ * Collapsible "what if" view from the flop: every turn card colored by how
+ * much it moves the win rate, and for a chosen turn card every river card
+ * with its win rate and best river action. Runouts are only priced once
+ * the panel is opened.
+ */
+export default function RunoutExplorer({
+  knownCards,
+  baselineWin,
+  rules,
+  deadCards,
+}: RunoutExplorerProps) {
+  const [open, setOpen] = useState(false);
+  const [turns, setTurns] = useState<Runout[] | null>(null);
+  const [turn, setTurn] = useState<string | null>(null);
+  const [rivers, setRivers] = useState<Runout[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<string | null>(null);
+
+  // Price every turn card whenever the flop changes while open
+  useEffect(() => {
+    setTurns(null);
+    setTurn(null);
+    setRivers(null);
+    setError(null);
+    setProgress(null);
+    if (!open) return;
+
+    const controller = new AbortController();
+    exploreRunouts(knownCards, baselineWin, {
+      signal: controller.signal,
+      rules,
+      deadCards,
+      onProgress: (priced, total) => setProgress(`${priced}/${total}`),
+    })
+      .then(setTurns)
+      .catch((err) => {
+        if (!controller.signal.aborted) {
+          setError(err instanceof Error ? err.message : "Runout exploration failed");
+        }
+      });
+    return () => controller.abort();
+  }, [open, knownCards, baselineWin, rules, deadCards]);
+
+  // Price every river card after the chosen turn card
+  useEffect(() => {
+    setRivers(null);
+    setProgress(null);
+    const turnRunout = turns?.find((runout) => runout.card === turn);
+    if (!turnRunout) return;
+
+    const controller = new AbortController();
+    exploreRunouts([...knownCards, turnRunout.card], turnRunout.result.win, {
+      signal: controller.signal,
+      rules,
+      deadCards,
+      onProgress: (priced, total) => setProgress(`${priced}/${total}`),
+    })
+      .then(setRivers)
+      .catch((err) => {
+        if (!controller.signal.aborted) {
+          setError(err instanceof Error ? err.message : "Runout exploration failed");
+        }
+      });
+    return () => controller.abort();
+  }, [turn, turns, knownCards, rules, deadCards]);
+
+  const best = turns && [...turns].sort((a, b) => b.winChange - a.winChange);
+
+  return (
+    <div className="pt-2 border-t border-gray-600 text-xs">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex justify-between items-center text-gray-400 hover:text-white transition-colors"
+      >
+        <span>🔮 Runout explorer {open ? "▲" : "▼"}</span>
+        {open && !turns && !error && (
+          <span className="text-blue-400 animate-pulse">Calculating {progress ?? ""}</span>
+        )}
+      </button>
+
+      {open && error && <p className="mt-2 text-red-400">⚠️ {error}</p>}
+
+      {open && turns && best && (
+        <div className="mt-2 space-y-2">
+          <p className="text-gray-400">
+            Win rate after each turn card (from {baselineWin.toFixed(1)}%) — pick one to see the rivers
+          </p>
+          <RunoutGrid runouts={turns} selected={turn} onSelect={setTurn} showAction={false} />
+          <p className="text-gray-500">
+            Best turn {formatCards([best[0].card])} ({best[0].result.win.toFixed(1)}%) · worst{" "}
+            {formatCards([best[best.length - 1].card])} ({best[best.length - 1].result.win.toFixed(1)}%)
+          </p>
+
+          {turn && (
+            <div className="space-y-1">
+              <p className="text-gray-400">
+                Rivers after {formatCards([turn])}: best river action, colored by win rate change
+              </p>
+              {rivers ? (
+                <RunoutGrid runouts={rivers} showAction={true} />
+              ) : (
+                <p className="text-blue-400 animate-pulse">Calculating {progress ?? ""}</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { formatCards } from "./HandEvaluator";
+import { getActionLabel } from "./BetAdvisor";
+import type { StrategyDecision } from "./BasicStrategy";
+import { MAX_SEATS, type TableState } from "./TableState";
+
+/**
+ * SeatsPanel Props Interface
+ */
+interface SeatsPanelProps {
+  table: TableState;
+  /** Basic-strategy decision of each seat, or null when it is not deciding */
+  decisions: (StrategyDecision | null)[];
+  onSelectSeat: (index: number) => void;
+  onAddSeat: () => void;
+  onRemoveSeat: (index: number) => void;
+}
+
+/**
+ * Strip of table seats. Each seat shows its hole cards and its next
+ * basic-strategy decision (or its recorded action); picking a seat makes
+ * the advisor and card picker work for it.
+ */
+export default function SeatsPanel({
+  table,
+  decisions,
+  onSelectSeat,
+  onAddSeat,
+  onRemoveSeat,
+}: SeatsPanelProps) {
+  const canRemove = table.seats.length > 1;
+
+  return (
+    <div className="flex justify-center items-center gap-2 flex-wrap text-xs">
+      {table.seats.map((seat, index) => {
+        const active = index === table.activeSeat;
+        const decision = decisions[index];
+        const action = seat.recordedAction;
+
+        let status = seat.holeCards.length < 2 ? "Waiting for cards" : "—";
+        if (action) {
+          status =
+            action.type === "bet" ? `✅ ${action.multiplier}x in` : "🛑 Folded";
+        } else if (decision) {
+          status = getActionLabel(decision.action);
+        }
+
+        return (
+          <div
+            key={seat.number}
+            className={`flex items-center gap-1 rounded-lg border px-2 py-1 transition-colors ${
+              active
+                ? "bg-yellow-900/30 border-yellow-500 text-yellow-200"
+                : "bg-gray-700/50 border-gray-600 text-gray-300 hover:bg-gray-600/50"
+            }`}
+          >
+            <button
+              onClick={() => onSelectSeat(index)}
+              className="flex items-center gap-2"
+              aria-pressed={active}
+              title={decision?.description}
+            >
+              <span className="font-bold">Seat {seat.number}</span>
+              <span className="font-mono">
+                {seat.holeCards.length > 0 ? formatCards(seat.holeCards) : "··"}
+              </span>
+              <span className="text-gray-400">{status}</span>
+            </button>
+            {canRemove && (
+              <button
+                onClick={() => onRemoveSeat(index)}
+                className="ml-1 text-gray-500 hover:text-red-400"
+                aria-label={`Remove seat ${seat.number}`}
+              >
+                ✕
+              </button>
+            )}
+          </div>
+        );
+      })}
+
+      {table.seats.length < MAX_SEATS && (
+        <button
+          onClick={onAddSeat}
+          className="bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded-lg transition-colors"
+        >
+          ➕ Seat
+        </button>
+      )}
+    </div>
+  );
+}
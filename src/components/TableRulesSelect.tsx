@@ -0,0 +1,41 @@
+import {
+  TABLE_RULES_PRESETS,
+  describeTableRules,
+  type TableRules,
+} from "../utils/tableRules";
+
+/**
+ * TableRulesSelect Props Interface
+ */
+interface TableRulesSelectProps {
+  rules: TableRules;
+  onChange: (rules: TableRules) => void;
+}
+
+/**
+ * Picker for the table's rule set. Hovering it lists the active rules.
+ */
+export default function TableRulesSelect({
+  rules,
+  onChange,
+}: TableRulesSelectProps) {
+  return (
+    <select
+      value={rules.id}
+      onChange={(e) => {
+        const preset = TABLE_RULES_PRESETS.find(
+          (candidate) => candidate.id === e.target.value,
+        );
+        if (preset) onChange(preset);
+      }}
+      title={describeTableRules(rules).join("\n")}
+      className="text-xs bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded-lg transition-colors"
+    >
+      {TABLE_RULES_PRESETS.map((preset) => (
+        <option key={preset.id} value={preset.id}>
+          📜 {preset.name}
+        </option>
+      ))}
+    </select>
+  );
+}
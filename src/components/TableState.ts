@@ -0,0 +1,247 @@
+/**
+ * Table State for Ultimate Texas Hold'em
+ *
+ * Models a table of up to 6 seats playing against one dealer:
+ * - Every seat shares the same board (flop, turn and river)
+ * - Each seat has its own hole cards and its own Play bet
+ * - From one seat's point of view the other seats' hole cards are out of
+ *   the deck, exactly like dead cards
+ *
+ * The advisor works for one seat at a time, the active seat; its cards are
+ * presented as a single selection (hole cards first, then the board).
+ */
+
+import { DEFAULT_TABLE_RULES, type TableRules } from "../utils/tableRules";
+import { getStrategyDecision, type StrategyDecision } from "./BasicStrategy";
+import {
+  buildHandState,
+  isDecisionPending,
+  STAGE_CARD_COUNTS,
+  type RecordedAction,
+} from "./HandState";
+
+/**
+ * Most seats at one table
+ */
+export const MAX_SEATS = 6;
+
+/**
+ * One player's seat
+ */
+export interface Seat {
+  /** Seat number shown to players, from 1 */
+  number: number;
+  holeCards: string[];
+  recordedAction: RecordedAction | null;
+}
+
+/**
+ * State of the whole table
+ */
+export interface TableState {
+  seats: Seat[];
+  /** Index of the seat the advisor is working for */
+  activeSeat: number;
+  /** Community cards shared by every seat */
+  board: string[];
+}
+
+function createSeat(number: number): Seat {
+  return { number, holeCards: [], recordedAction: null };
+}
+
+/**
+ * Create a table with a single empty seat
+ */
+export function createTableState(): TableState {
+  return { seats: [createSeat(1)], activeSeat: 0, board: [] };
+}
+
+/**
+ * Gets one seat's known cards: its hole cards, followed by the board once
+ * both hole cards are known
+ *
+ * @param table Table state
+ * @param index Seat index
+ * @returns Cards in the order the advisor expects (hole cards first)
+ */
+export function getSeatCards(table: TableState, index: number): string[] {
+  const { holeCards } = table.seats[index];
+  return holeCards.length === 2 ? [...holeCards, ...table.board] : [...holeCards];
+}
+
+/**
+ * Gets the hole cards of every seat except one
+ *
+ * @param table Table state
+ * @param index Seat index to leave out
+ * @returns Cards that are out of the deck for that seat
+ */
+export function getOtherSeatCards(table: TableState, index: number): string[] {
+  return table.seats.flatMap((seat, i) => (i === index ? [] : seat.holeCards));
+}
+
+/**
+ * Drop recorded actions whose street is no longer fully dealt
+ */
+function pruneRecordedActions(table: TableState): TableState {
+  return {
+    ...table,
+    seats: table.seats.map((seat, index) => {
+      const action = seat.recordedAction;
+      if (action && getSeatCards(table, index).length < STAGE_CARD_COUNTS[action.stage]) {
+        return { ...seat, recordedAction: null };
+      }
+      return seat;
+    }),
+  };
+}
+
+/**
+ * Replace the active seat's selection (hole cards first, then the board).
+ *
+ * Cards missing from the new selection are taken off the seat or the
+ * board; new cards complete the hole cards first and then the board. The
+ * board is shared, so board changes apply to every seat.
+ *
+ * @param table Table state
+ * @param cards New selection for the active seat
+ * @returns Updated table state
+ */
+export function selectSeatCards(table: TableState, cards: string[]): TableState {
+  const current = getSeatCards(table, table.activeSeat);
+  const removed = current.filter((card) => !cards.includes(card));
+  const added = cards.filter((card) => !current.includes(card));
+
+  const taken = getOtherSeatCards(table, table.activeSeat);
+  if (added.some((card) => taken.includes(card))) {
+    throw new Error("Card is already held by another seat");
+  }
+
+  let holeCards = table.seats[table.activeSeat].holeCards.filter(
+    (card) => !removed.includes(card),
+  );
+  let board = table.board.filter((card) => !removed.includes(card));
+
+  for (const card of added) {
+    if (holeCards.length < 2) {
+      holeCards = [...holeCards, card];
+    } else if (board.length < 5 && !board.includes(card)) {
+      board = [...board, card];
+    }
+  }
+
+  const seats = table.seats.map((seat, index) =>
+    index === table.activeSeat ? { ...seat, holeCards } : seat,
+  );
+  return pruneRecordedActions({ ...table, seats, board });
+}
+
+/**
+ * Record (or clear) the active seat's action
+ *
+ * @param table Table state
+ * @param action Action to record, or null to undo
+ * @returns Updated table state
+ */
+export function recordSeatAction(
+  table: TableState,
+  action: RecordedAction | null,
+): TableState {
+  return {
+    ...table,
+    seats: table.seats.map((seat, index) =>
+      index === table.activeSeat ? { ...seat, recordedAction: action } : seat,
+    ),
+  };
+}
+
+/**
+ * Clear every seat's recorded action
+ */
+export function clearRecordedActions(table: TableState): TableState {
+  return {
+    ...table,
+    seats: table.seats.map((seat) => ({ ...seat, recordedAction: null })),
+  };
+}
+
+/**
+ * Start a new hand at the same seats: every card and action is cleared
+ */
+export function clearTable(table: TableState): TableState {
+  return {
+    ...table,
+    board: [],
+    seats: table.seats.map((seat) => createSeat(seat.number)),
+  };
+}
+
+/**
+ * Add an empty seat, numbered with the lowest free seat number, and make
+ * it the active seat
+ */
+export function addSeat(table: TableState): TableState {
+  if (table.seats.length >= MAX_SEATS) {
+    throw new Error(`A table has at most ${MAX_SEATS} seats`);
+  }
+
+  const numbers = table.seats.map((seat) => seat.number);
+  let number = 1;
+  while (numbers.includes(number)) number++;
+
+  const seats = [...table.seats, createSeat(number)].sort((a, b) => a.number - b.number);
+  return { ...table, seats, activeSeat: seats.findIndex((seat) => seat.number === number) };
+}
+
+/**
+ * Remove a seat and its hole cards from the table
+ */
+export function removeSeat(table: TableState, index: number): TableState {
+  if (table.seats.length <= 1) {
+    throw new Error("A table needs at least one seat");
+  }
+
+  const seats = table.seats.filter((_, i) => i !== index);
+  const activeSeat =
+    index < table.activeSeat
+      ? table.activeSeat - 1
+      : Math.min(table.activeSeat, seats.length - 1);
+  return { ...table, seats, activeSeat };
+}
+
+/**
+ * Make a seat the one the advisor works for
+ */
+export function setActiveSeat(table: TableState, index: number): TableState {
+  if (index < 0 || index >= table.seats.length) {
+    throw new Error(`No seat at index ${index}`);
+  }
+  return { ...table, activeSeat: index };
+}
+
+/**
+ * Basic-strategy decision for one seat, with every other seat's hole cards
+ * (and any dead cards) out of the deck
+ *
+ * @param table Table state
+ * @param index Seat index
+ * @param rules Table rules
+ * @param deadCards Cards seen elsewhere at the table
+ * @returns Decision, or null when the seat is not facing one
+ */
+export function getSeatDecision(
+  table: TableState,
+  index: number,
+  rules: TableRules = DEFAULT_TABLE_RULES,
+  deadCards: string[] = [],
+): StrategyDecision | null {
+  const cards = getSeatCards(table, index);
+  const state = buildHandState(cards, table.seats[index].recordedAction, rules);
+  if (!isDecisionPending(state)) return null;
+
+  return getStrategyDecision(cards, rules, [
+    ...deadCards,
+    ...getOtherSeatCards(table, index),
+  ]);
+}
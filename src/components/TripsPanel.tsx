@@ -0,0 +1,135 @@
+import { useState } from "react";
+import {
+  CUSTOM_TRIPS_PAYTABLE_ID,
+  TRIPS_PAYTABLES,
+  getTripsHouseEdge,
+  getTripsOdds,
+  getTripsReturn,
+  validateTripsPayouts,
+  type TripsPaytable,
+} from "../utils/tripsBonus";
+
+/**
+ * TripsPanel Props Interface
+ */
+interface TripsPanelProps {
+  /** Probability of each final player hand, indexed by hand rank */
+  handDistribution: number[];
+  paytable: TripsPaytable;
+  onPaytableChange: (paytable: TripsPaytable) => void;
+  /** Size of the Trips bet already placed */
+  bet: number;
+  onBetChange: (bet: number) => void;
+}
+
+/**
+ * Collapsible Trips side-bet breakdown: the chance of each paying hand from
+ * the current cards, what the placed bet is worth now, and the house edge
+ * of the selected paytable.
+ */
+export default function TripsPanel({
+  handDistribution,
+  paytable,
+  onPaytableChange,
+  bet,
+  onBetChange,
+}: TripsPanelProps) {
+  const [open, setOpen] = useState(false);
+
+  const odds = getTripsOdds(handDistribution, paytable.payouts);
+  const expectedReturn = getTripsReturn(handDistribution, paytable.payouts);
+  const houseEdge = getTripsHouseEdge(paytable.payouts);
+  const custom = paytable.id === CUSTOM_TRIPS_PAYTABLE_ID;
+
+  const selectPaytable = (id: string) => {
+    const preset = TRIPS_PAYTABLES.find((table) => table.id === id);
+    onPaytableChange(
+      preset ?? { id: CUSTOM_TRIPS_PAYTABLE_ID, name: "Custom", payouts: { ...paytable.payouts } },
+    );
+  };
+
+  const setPayout = (rank: number, value: string) => {
+    const payouts = { ...paytable.payouts, [rank]: Number(value) };
+    try {
+      validateTripsPayouts(payouts);
+      onPaytableChange({ ...paytable, payouts });
+    } catch {
+      // Keep the last valid paytable while the input is being edited
+    }
+  };
+
+  const percent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+  return (
+    <div className="pt-2 border-t border-gray-600 text-xs">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex justify-between items-center text-gray-400 hover:text-white transition-colors"
+      >
+        <span>🎰 Trips side bet {open ? "▲" : "▼"}</span>
+        <span className={expectedReturn >= 0 ? "text-green-400" : "text-red-400"}>
+          {expectedReturn >= 0 ? "+" : ""}
+          {percent(expectedReturn)}
+        </span>
+      </button>
+
+      {open && (
+        <div className="mt-2 space-y-2">
+          <select
+            value={paytable.id}
+            onChange={(e) => selectPaytable(e.target.value)}
+            className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1"
+          >
+            {TRIPS_PAYTABLES.map((table) => (
+              <option key={table.id} value={table.id}>
+                {table.name}
+              </option>
+            ))}
+            <option value={CUSTOM_TRIPS_PAYTABLE_ID}>Custom</option>
+          </select>
+
+          <div className="space-y-1">
+            {odds.map((hand) => (
+              <div key={hand.rank} className="flex justify-between items-center gap-2">
+                <span className="text-gray-300 flex-1">{hand.label}</span>
+                {custom ? (
+                  <input
+                    type="number"
+                    min={0}
+                    defaultValue={hand.payout}
+                    onChange={(e) => setPayout(hand.rank, e.target.value)}
+                    className="w-14 bg-gray-900 border border-gray-600 rounded px-1 font-mono text-right"
+                  />
+                ) : (
+                  <span className="text-gray-400 font-mono">{hand.payout}:1</span>
+                )}
+                <span className="w-16 text-right font-mono">
+                  {percent(hand.probability)}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-gray-400">Trips bet</span>
+            <input
+              type="number"
+              min={0}
+              value={bet}
+              onChange={(e) => onBetChange(Math.max(0, Number(e.target.value) || 0))}
+              className="w-20 bg-gray-900 border border-gray-600 rounded px-2 py-1 font-mono text-right"
+            />
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-400">Worth now</span>
+            <span className="font-mono">{(bet * (1 + expectedReturn)).toFixed(2)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-400">House edge (new hand)</span>
+            <span className="font-mono">{percent(houseEdge)}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+/**
+ * AI vs Engine Advice Comparison for Ultimate Texas Hold'em
+ *
+ * The AI advisor and the local engine both recommend one action from the
+ * same enum (`UTHAction`). When they differ, the engine's action EVs tell
+ * how much following the AI gives up. Every comparison is kept in a small
+ * log in localStorage so the AI's track record can be reviewed later.
+ */
+
+import type { ActionEV, DecisionPoint, UTHAction } from "./expectedValue";
+
+/**
+ * The AI's and the engine's action for one spot
+ */
+export interface AdviceComparison {
+  aiAction: UTHAction;
+  engineAction: UTHAction;
+  agrees: boolean;
+  aiEV?: number;
+  engineEV?: number;
+  /**
+   * Antes given up by following the AI instead of the engine (0 when they
+   * agree); undefined while either action has no EV
+   */
+  evCost?: number;
+}
+
+/**
+ * One logged comparison
+ */
+export interface AdviceLogEntry extends AdviceComparison {
+  time: string;
+  cards: string[];
+  stage: DecisionPoint;
+  rulesId: string;
+  /** Provider that gave the AI advice, e.g. "Gemini" */
+  provider: string;
+}
+
+/**
+ * Totals over the logged comparisons
+ */
+export interface AdviceLogStats {
+  compared: number;
+  disagreements: number;
+  /** Antes given up over every disagreement with a known cost */
+  totalEVCost: number;
+}
+
+const STORAGE_KEY = "uth-advice-log";
+
+// Most comparisons kept in the log; older ones are dropped
+const MAX_LOG_ENTRIES = 500;
+
+/**
+ * Compares the AI's action with the engine's
+ *
+ * @param aiAction Action recommended by the AI
+ * @param engineAction Action recommended by the engine
+ * @param actionEVs Engine EVs for the spot, when known
+ * @returns Comparison, with the EV cost of the AI's line when both actions are priced
+ */
+export function compareAdvice(
+  aiAction: UTHAction,
+  engineAction: UTHAction,
+  actionEVs: ActionEV[] = [],
+): AdviceComparison {
+  const evOf = (action: UTHAction) => actionEVs.find((entry) => entry.action === action)?.ev;
+  const aiEV = evOf(aiAction);
+  const engineEV = evOf(engineAction);
+  const agrees = aiAction === engineAction;
+
+  return {
+    aiAction,
+    engineAction,
+    agrees,
+    aiEV,
+    engineEV,
+    evCost: agrees ? 0 : aiEV !== undefined && engineEV !== undefined ? engineEV - aiEV : undefined,
+  };
+}
+
+/**
+ * Reads the comparison log, oldest first
+ */
+export function getAdviceLog(): AdviceLogEntry[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as AdviceLogEntry[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Adds a comparison to the log; disagreements are also reported on the console
+ *
+ * @param entry Comparison and the spot it was made in
+ */
+export function logAdviceComparison(entry: AdviceLogEntry): void {
+  if (!entry.agrees) {
+    console.warn(
+      `⚖️ AI disagrees with the engine: ${entry.aiAction} vs ${entry.engineAction}` +
+        (entry.evCost !== undefined ? ` (costs ${entry.evCost.toFixed(2)} antes)` : ""),
+      entry,
+    );
+  }
+
+  try {
+    const log = [...getAdviceLog(), entry].slice(-MAX_LOG_ENTRIES);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(log));
+  } catch (error) {
+    console.warn("⚠️ Could not save the advice log:", error);
+  }
+}
+
+/**
+ * Totals over the logged comparisons
+ */
+export function getAdviceLogStats(log: AdviceLogEntry[] = getAdviceLog()): AdviceLogStats {
+  const disagreements = log.filter((entry) => !entry.agrees);
+  return {
+    compared: log.length,
+    disagreements: disagreements.length,
+    totalEVCost: disagreements.reduce((total, entry) => total + (entry.evCost ?? 0), 0),
+  };
+}
+
+/**
+ * Clears the comparison log
+ */
+export function clearAdviceLog(): void {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Storage unavailable: nothing to clear
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * Expected Value Engine for Ultimate Texas Hold'em
+ *
+ * Models the Ante, Blind and Play bets together so every legal action at a
+ * decision point can be priced in ante units, under the given table rules:
+ * - Dealer must qualify with a pair or better (where the rules require it),
+ *   otherwise the Ante pushes
+ * - Blind pays from its paytable only when the player wins with a straight
+ *   or better, otherwise it pushes on a win
+ * - Play bet pays even money against the dealer
+ * - Folding forfeits the Ante and the Blind
+ */
+
+import { HAND_CATEGORY_NAMES, type HandCategory } from "../components/HandEvaluator";
+import type { TableRules } from "./tableRules";
+
+/**
+ * Decision points where the player can act
+ */
+export type DecisionPoint = "preflop" | "flop" | "river";
+
+/**
+ * Every betting action available in Ultimate Texas Hold'em
+ */
+export type UTHAction = "bet4x" | "bet3x" | "bet2x" | "bet1x" | "check" | "fold";
+
+/**
+ * Expected value of a single action, in ante units
+ */
+export interface ActionEV {
+  action: UTHAction;
+  ev: number;
+  /** Standard error of a sampled EV (0 when exact) */
+  standardError?: number;
+}
+
+/**
+ * Result of one showdown, from the player's side
+ */
+export type ShowdownResult = "win" | "tie" | "lose";
+
+/**
+ * Every showdown result
+ */
+export const SHOWDOWN_RESULTS: ShowdownResult[] = ["win", "tie", "lose"];
+
+/**
+ * One way the Blind bet can settle, with its probability
+ */
+export interface BlindOutcome {
+  label: string;
+  /** Blind result per unit bet: the paytable odds on a paying win, 0 on a push, -1 on a loss */
+  payout: number;
+  probability: number;
+}
+
+/**
+ * Running totals of showdown results at one decision point.
+ *
+ * The EV of a Play bet of size m is `anteBlind / samples + m * play / samples`,
+ * so one tally prices every bet size at once.
+ */
+export interface ShowdownTally {
+  samples: number;
+  anteBlind: number;
+  play: number;
+}
+
+/**
+ * Hand rank values (same numbering as `HandCategory`, Royal Flush promoted to 10)
+ */
+export const HAND_RANK = {
+  highCard: 1,
+  pair: 2,
+  twoPair: 3,
+  trips: 4,
+  straight: 5,
+  flush: 6,
+  fullHouse: 7,
+  quads: 8,
+  straightFlush: 9,
+  royalFlush: 10,
+} as const;
+
+/**
+ * Folding loses the Ante and the Blind
+ */
+export const FOLD_EV = -2;
+
+/**
+ * Play bet size for each betting action
+ */
+const playMultipliers: Partial<Record<UTHAction, number>> = {
+  bet4x: 4,
+  bet3x: 3,
+  bet2x: 2,
+  bet1x: 1,
+};
+
+/**
+ * Gets the Play bet size of a betting action (0 for check and fold)
+ */
+export function getPlayMultiplier(action: UTHAction): number {
+  return playMultipliers[action] ?? 0;
+}
+
+/**
+ * Gets the betting action for a Play bet size
+ *
+ * @param multiplier Play bet size in antes (1-4)
+ * @returns Betting action, e.g. "bet4x"
+ */
+export function getBetAction(multiplier: number): UTHAction {
+  const action = `bet${multiplier}x` as UTHAction;
+  if (!(action in playMultipliers)) {
+    throw new Error(`Unsupported Play bet size: ${multiplier}x`);
+  }
+  return action;
+}
+
+/**
+ * Gets the decision point for a number of known cards (hole + community).
+ *
+ * The turn and river are dealt together in Ultimate Texas Hold'em, so there
+ * is no decision with 6 known cards.
+ *
+ * @param knownCardCount Number of known cards
+ * @returns Decision point, or null when the player cannot act
+ */
+export function getDecisionPoint(knownCardCount: number): DecisionPoint | null {
+  if (knownCardCount === 2) return "preflop";
+  if (knownCardCount === 5) return "flop";
+  if (knownCardCount === 7) return "river";
+  return null;
+}
+
+/**
+ * Create an empty showdown tally
+ */
+export function createTally(): ShowdownTally {
+  return { samples: 0, anteBlind: 0, play: 0 };
+}
+
+/**
+ * Record one showdown in a tally, or `count` identical ones.
+ *
+ * @param tally Tally to update
+ * @param result Showdown result from the player's point of view
+ * @param playerRank Player's final hand rank
+ * @param dealerRank Dealer's final hand rank
+ * @param rules Table rules the bets are settled under
+ * @param count Number of identical showdowns to record
+ */
+export function recordShowdown(
+  tally: ShowdownTally,
+  result: ShowdownResult,
+  playerRank: number,
+  dealerRank: number,
+  rules: TableRules,
+  count: number = 1,
+): void {
+  const dealerQualifies = !rules.dealerMustQualify || dealerRank >= HAND_RANK.pair;
+  tally.samples += count;
+
+  if (result === "win") {
+    const ante = dealerQualifies ? 1 : 0;
+    const blind = rules.blindPaytable[playerRank] ?? 0;
+    tally.anteBlind += count * (ante + blind);
+    tally.play += count;
+  } else if (result === "lose") {
+    const ante = dealerQualifies ? -1 : 0;
+    tally.anteBlind += count * (ante - 1);
+    tally.play -= count;
+  }
+}
+
+/**
+ * Add the totals of one tally into another
+ */
+export function mergeTally(target: ShowdownTally, source: ShowdownTally): void {
+  target.samples += source.samples;
+  target.anteBlind += source.anteBlind;
+  target.play += source.play;
+}
+
+/**
+ * Expected value of reaching showdown with a Play bet of the given size
+ *
+ * @param tally Showdown tally for the current decision point
+ * @param multiplier Play bet size in antes
+ * @returns EV in ante units
+ */
+export function betEV(tally: ShowdownTally, multiplier: number): number {
+  if (tally.samples === 0) return 0;
+  return (tally.anteBlind + multiplier * tally.play) / tally.samples;
+}
+
+/**
+ * Prices every legal action at a decision point.
+ *
+ * Bets are priced directly from the showdown tally, for every bet size the
+ * rules allow. Checking is priced from `checkValue`, the average value of
+ * playing the next decision point optimally; at the river the alternative
+ * is folding instead.
+ *
+ * @param point Current decision point
+ * @param tally Showdown tally of all outcomes below this point
+ * @param rules Table rules giving the allowed bet sizes
+ * @param checkValue Expected value of checking (ignored at the river)
+ * @returns Action EVs in legal betting order
+ */
+export function getActionEVs(
+  point: DecisionPoint,
+  tally: ShowdownTally,
+  rules: TableRules,
+  checkValue: number = FOLD_EV,
+): ActionEV[] {
+  const bets = rules.betSizes[point].map((multiplier): ActionEV => ({
+    action: getBetAction(multiplier),
+    ev: betEV(tally, multiplier),
+  }));
+
+  return point === "river"
+    ? [...bets, { action: "fold", ev: FOLD_EV }]
+    : [...bets, { action: "check", ev: checkValue }];
+}
+
+/**
+ * Gets the action with the highest expected value.
+ * Ties favour the earlier (more aggressive) action.
+ */
+export function getBestAction(actionEVs: ActionEV[]): ActionEV {
+  return actionEVs.reduce((best, current) =>
+    current.ev > best.ev ? current : best,
+  );
+}
+
+/**
+ * How the Blind settles, from the joint distribution of showdown results
+ * and final player hands: one line per paying hand, then the pushes and
+ * the loss. Folds are not included.
+ *
+ * @param outcomeByHand Probability of each result with each final player hand, indexed by hand rank
+ * @param rules Table rules giving the Blind paytable
+ * @returns Blind outcomes, best first
+ */
+export function getBlindOutcomes(
+  outcomeByHand: Record<ShowdownResult, number[]>,
+  rules: TableRules,
+): BlindOutcome[] {
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+  const payingRanks = Object.keys(rules.blindPaytable)
+    .map(Number)
+    .sort((a, b) => b - a);
+
+  const paying = payingRanks.map((rank) => ({
+    label: `Win with ${HAND_CATEGORY_NAMES[rank as HandCategory]}`,
+    payout: rules.blindPaytable[rank],
+    probability: outcomeByHand.win[rank] ?? 0,
+  }));
+
+  return [
+    ...paying,
+    {
+      label: "Win, Blind pushes",
+      payout: 0,
+      probability: sum(outcomeByHand.win) - sum(paying.map(({ probability }) => probability)),
+    },
+    { label: "Tie", payout: 0, probability: sum(outcomeByHand.tie) },
+    { label: "Lose", payout: -1, probability: sum(outcomeByHand.lose) },
+  ];
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import type { UTHAction } from "./expectedValue";
+import {
+  buildSimulationResult,
+  enumerateOutcomes,
+  sampleOutcomes,
+  type SimulationResult,
+} from "./monteCarlo";
+import { createRandom } from "./random";
+
+function getActionEV(result: SimulationResult, action: UTHAction) {
+  const actionEV = result.actionEVs?.find((entry) => entry.action === action);
+  if (!actionEV) throw new Error(`No EV for ${action}`);
+  return actionEV;
+}
+
+describe("sampleOutcomes", () => {
+  it("prices checking on the flop like exact enumeration", async () => {
+    const cards = ["Kh", "7c", "2d", "9s", "4h"];
+    const exact = buildSimulationResult(cards, await enumerateOutcomes(cards), "exact");
+    const sampled = buildSimulationResult(
+      cards,
+      await sampleOutcomes(cards, 6_000_000, { random: createRandom(2024) }),
+      "monteCarlo",
+    );
+
+    for (const action of ["check", "bet2x"] as const) {
+      const { ev, standardError = 0 } = getActionEV(sampled, action);
+      expect(standardError).toBeGreaterThan(0);
+      expect(Math.abs(ev - getActionEV(exact, action).ev)).toBeLessThan(3 * standardError);
+    }
+  });
+});
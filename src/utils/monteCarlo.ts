@@ -1,4 +1,49 @@
-import { Hand } from "pokersolver";
+import { getFlopDecision } from "../components/BasicStrategy";
+import {
+  decodeCard,
+  encodeCard,
+  evaluateCards,
+  getScoreRank,
+} from "../components/HandEvaluator";
+import {
+  betEV,
+  createTally,
+  getActionEVs,
+  getBestAction,
+  getDecisionPoint,
+  getPlayMultiplier,
+  mergeTally,
+  recordShowdown,
+  FOLD_EV,
+  HAND_RANK,
+  SHOWDOWN_RESULTS,
+  type ActionEV,
+  type DecisionPoint,
+  type ShowdownResult,
+  type ShowdownTally,
+} from "./expectedValue";
+import {
+  createMoments,
+  getDifferenceInterval,
+  getEVStandardErrors,
+  getWinInterval,
+  mergeMoments,
+  recordSample,
+  toInterval,
+  type ConfidenceInterval,
+  type SampleMoments,
+} from "./statistics";
+import {
+  createRandom,
+  deriveSeed,
+  randomSeed,
+  type RandomSource,
+} from "./random";
+import {
+  DEFAULT_TABLE_RULES,
+  validateTableRules,
+  type TableRules,
+} from "./tableRules";
 
 /**
  * Monte Carlo Simulation Module for Ultimate Texas Hold'em
@@ -8,9 +53,11 @@ import { Hand } from "pokersolver";
  * and performance optimizations.
  */
 
-// All possible ranks and suits for deck generation
-const allRanks = ['2','3','4','5','6','7','8','9','10','J','Q','K','A'] as const;
-const allSuits = ['h','d','s','c'] as const;
+/**
+ * How a result was calculated: exact enumeration of every outcome, or
+ * random sampling
+ */
+export type SimulationMethod = 'exact' | 'monteCarlo';
 
 /**
  * Monte Carlo simulation result interface
@@ -20,38 +67,59 @@ export interface SimulationResult {
   tie: number;
   lose: number;
   iterations: number;
+  method: SimulationMethod;
+  decisionPoint?: DecisionPoint;
+  actionEVs?: ActionEV[];
+  /** 95% confidence interval on the win percentage */
+  winInterval?: ConfidenceInterval;
+  /** 95% confidence interval on the best action's EV lead over the alternative it is least certainly ahead of */
+  decisionMargin?: ConfidenceInterval;
+  /** Adaptive runs only: whether sampling stopped because the estimate was resolved */
+  converged?: boolean;
+  /** Seed of a sampled run; passing it back as `seed` replays the run exactly */
+  seed?: number;
+  /** Probability of each final player hand, indexed by hand rank (see HAND_RANK) */
+  handDistribution?: number[];
+  /** Probability of each final dealer hand, indexed by hand rank */
+  dealerHandDistribution?: number[];
+  /** Probability that the dealer does not qualify and the Ante pushes (0 when the rules have no qualifier) */
+  dealerNotQualified?: number;
+  /** Probability of each result together with each final player hand, indexed by hand rank */
+  outcomeByHand?: Record<ShowdownResult, number[]>;
 }
 
 /**
- * Convert card format from "10h" to "Th" for pokersolver compatibility
+ * Generate complete 52-card deck as encoded cards
  */
-function convertCardForSolver(card: string): string {
-  return card.replace('10', 'T');
+function generateDeck(): number[] {
+  return Array.from({ length: 52 }, (_, code) => code);
 }
 
 /**
- * Generate complete 52-card deck
+ * Partial Fisher-Yates shuffle: moves `count` random cards to the front of
+ * the deck in place. Only the cards actually dealt are shuffled.
  */
-function generateDeck(): string[] {
-  return allRanks.flatMap(r => allSuits.map(s => `${r}${s}`));
+function drawCards(deck: number[], count: number, random: RandomSource): void {
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(random() * (deck.length - i));
+    const card = deck[i];
+    deck[i] = deck[j];
+    deck[j] = card;
+  }
 }
 
 /**
- * Optimized Fisher-Yates shuffle algorithm
+ * Encoded cards left in the deck once the known and dead cards are removed
  */
-function shuffleArray<T>(array: T[]): T[] {
-  const shuffled = [...array];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-  }
-  return shuffled;
+function getRemainingDeck(knownCards: string[], deadCards: string[]): number[] {
+  const removed = [...knownCards, ...deadCards].map(encodeCard);
+  return generateDeck().filter(card => !removed.includes(card));
 }
 
 /**
  * Validate input cards for simulation
  */
-function validateCards(knownCards: string[]): void {
+export function validateCards(knownCards: string[], deadCards: string[] = []): void {
   if (!knownCards || knownCards.length < 2) {
     throw new Error("Need at least 2 cards for simulation");
   }
@@ -60,21 +128,585 @@ function validateCards(knownCards: string[]): void {
     throw new Error("Too many cards (maximum 7: 2 hole + 5 community)");
   }
 
-  // Check for duplicate cards
-  const uniqueCards = new Set(knownCards);
-  if (uniqueCards.size !== knownCards.length) {
+  if (deadCards.length > MAX_DEAD_CARDS) {
+    throw new Error(`Too many dead cards (maximum ${MAX_DEAD_CARDS})`);
+  }
+
+  // Check for duplicate cards, including cards marked dead
+  const allCards = [...knownCards, ...deadCards];
+  const uniqueCards = new Set(allCards);
+  if (uniqueCards.size !== allCards.length) {
     throw new Error("Duplicate cards detected");
   }
 
   // Validate card format
   const validCardRegex = /^(2|3|4|5|6|7|8|9|10|J|Q|K|A)[hdsc]$/;
-  for (const card of knownCards) {
+  for (const card of allCards) {
     if (!validCardRegex.test(card)) {
       throw new Error(`Invalid card format: ${card}`);
     }
   }
 }
 
+/**
+ * Validate the requested number of iterations
+ */
+export function validateIterations(iterations: number): void {
+  if (iterations < 10 || iterations > 1000000) {
+    throw new Error("Iterations must be between 10 and 1,000,000");
+  }
+}
+
+/**
+ * Win/tie/lose counts accumulated across a simulation
+ */
+export interface OutcomeCounts {
+  wins: number;
+  ties: number;
+  losses: number;
+  /** Showdowns ending with each final player hand, indexed by hand rank */
+  handCounts: number[];
+  /** Showdowns ending with each final dealer hand, indexed by hand rank */
+  dealerHandCounts: number[];
+  /** Showdowns where the dealer did not qualify */
+  dealerNotQualified: number;
+  /** Showdowns of each result, by final player hand rank */
+  outcomeHandCounts: Record<ShowdownResult, number[]>;
+}
+
+/**
+ * Running totals of a simulation, or of one shard of it. Totals from
+ * separate shards can be merged before the result is built.
+ */
+export interface SimulationTotals extends OutcomeCounts {
+  tally: ShowdownTally;
+  /** Sum of the value of checking over every priced check */
+  checkTotal: number;
+  checkSamples: number;
+  /** Moments of the independent samples (Monte Carlo only) */
+  moments: SampleMoments;
+}
+
+/**
+ * Options accepted by the public simulation functions
+ */
+export interface SimulationOptions {
+  /** Stops the simulation; the promise rejects with the abort reason */
+  signal?: AbortSignal;
+  /** Called with the partial result at every yield point */
+  onProgress?: (result: SimulationResult) => void;
+  /**
+   * Keep sampling only until `hasConverged` holds, treating `iterations`
+   * as an upper bound
+   */
+  adaptive?: boolean;
+  /** Seed for the random number generator; a fresh one is picked if omitted */
+  seed?: number;
+  /** Table rules the hand is priced under (default: standard rules) */
+  rules?: TableRules;
+  /** Cards seen elsewhere at the table, removed from the deck */
+  deadCards?: string[];
+}
+
+/**
+ * Why a batch scenario failed
+ */
+export type BatchErrorCode = 'invalidCards' | 'simulationFailed';
+
+/**
+ * Outcome of one batch scenario: its result, or why it has none
+ */
+export type BatchOutcome =
+  | { ok: true; scenario: string[]; result: SimulationResult }
+  | { ok: false; scenario: string[]; code: BatchErrorCode; message: string };
+
+/**
+ * Runs one simulation; `monteCarloSimulation` and `runPooledSimulation` both fit
+ */
+export type SimulationRunner = (
+  knownCards: string[],
+  iterations: number,
+  options: SimulationOptions,
+) => Promise<SimulationResult>;
+
+/**
+ * Options accepted by `batchSimulation`
+ */
+export interface BatchOptions extends Omit<SimulationOptions, 'onProgress'> {
+  /** Called with a scenario's partial result while it runs */
+  onScenarioProgress?: (index: number, result: SimulationResult) => void;
+  /** Called with a scenario's outcome as soon as it settles */
+  onScenarioDone?: (index: number, outcome: BatchOutcome) => void;
+  /** Most scenarios running at once (default: 4) */
+  concurrency?: number;
+  /** Runs each scenario (default: `monteCarloSimulation` on the calling thread) */
+  simulate?: SimulationRunner;
+}
+
+/**
+ * Options for running one shard of a simulation
+ */
+export interface ShardOptions {
+  signal?: AbortSignal;
+  /** Index of this shard (enumeration only) */
+  shard?: number;
+  /** Number of shards the enumeration is split into */
+  shardCount?: number;
+  /** Called with the running totals at every yield point */
+  onTotals?: (totals: SimulationTotals) => void;
+  /** Random source for sampling (default: Math.random) */
+  random?: RandomSource;
+  /** Table rules the showdowns are settled under (default: standard rules) */
+  rules?: TableRules;
+  /** Cards seen elsewhere at the table, removed from the deck */
+  deadCards?: string[];
+}
+
+// Most cards that can be out of the deck as dead (other seats' hole cards
+// included), with plenty of deck left to deal from
+export const MAX_DEAD_CARDS = 30;
+
+// River showdowns grouped into one independent sample
+const SHOWDOWNS_PER_SAMPLE = 20;
+
+// Upper bound on showdowns for exact enumeration (flop: 1,081 runouts × 990 dealer hands)
+const EXACT_ENUMERATION_LIMIT = 1_100_000;
+
+// Scenarios of a batch running at once
+const BATCH_CONCURRENCY = 4;
+
+// Milliseconds of work between UI yield points during enumeration
+const ENUMERATION_YIELD_MS = 30;
+
+// Showdowns per seeded block of a sampled run. Each block draws from its
+// own seed, so a run gives the same numbers however its blocks are spread
+// across workers.
+export const SAMPLE_BLOCK_SIZE = 20000;
+
+// Adaptive stopping: minimum showdowns before the intervals are trusted
+const ADAPTIVE_MIN_ITERATIONS = 20000;
+
+// Adaptive stopping: a decision margin known to within this many antes is
+// close enough to call, and a win rate known to within this many points
+const DECISION_TOLERANCE = 0.05;
+const WIN_TOLERANCE = 0.5;
+
+/**
+ * Settle `count` showdowns with the same result and final hands into the
+ * outcome counts and a tally
+ */
+function settleShowdowns(
+  result: ShowdownResult,
+  playerRank: number,
+  dealerRank: number,
+  count: number,
+  counts: OutcomeCounts,
+  tally: ShowdownTally,
+  rules: TableRules,
+): void {
+  if (result === "win") {
+    counts.wins += count;
+  } else if (result === "lose") {
+    counts.losses += count;
+  } else {
+    counts.ties += count;
+  }
+  counts.handCounts[playerRank] += count;
+  counts.dealerHandCounts[dealerRank] += count;
+  counts.outcomeHandCounts[result][playerRank] += count;
+  if (rules.dealerMustQualify && dealerRank < HAND_RANK.pair) counts.dealerNotQualified += count;
+  recordShowdown(tally, result, playerRank, dealerRank, rules, count);
+}
+
+/**
+ * Settle one showdown into the outcome counts and a tally
+ */
+function settleShowdown(
+  playerScore: number,
+  dealerScore: number,
+  counts: OutcomeCounts,
+  tally: ShowdownTally,
+  rules: TableRules,
+): void {
+  const result: ShowdownResult =
+    playerScore > dealerScore ? "win" : playerScore < dealerScore ? "lose" : "tie";
+  settleShowdowns(result, getScoreRank(playerScore), getScoreRank(dealerScore), 1, counts, tally, rules);
+}
+
+/**
+ * Sample showdowns from a fixed state: completes the board and deals the
+ * dealer's hole cards from the remaining deck.
+ */
+function sampleShowdowns(
+  playerHole: number[],
+  communityCards: number[],
+  deck: number[],
+  samples: number,
+  counts: OutcomeCounts,
+  random: RandomSource,
+  rules: TableRules,
+): ShowdownTally {
+  const tally = createTally();
+  const communityNeeded = 5 - communityCards.length;
+  const remaining = [...deck];
+
+  // 7-card hands share the known board; dealt cards fill the tail slots
+  const playerHand = [...playerHole, ...communityCards];
+  const dealerHand = [0, 0, ...communityCards];
+
+  for (let i = 0; i < samples; i++) {
+    // Deal dealer cards first, then complete the community cards
+    drawCards(remaining, 2 + communityNeeded, random);
+    dealerHand[0] = remaining[0];
+    dealerHand[1] = remaining[1];
+    for (let k = 0; k < communityNeeded; k++) {
+      playerHand[2 + communityCards.length + k] = remaining[2 + k];
+      dealerHand[2 + communityCards.length + k] = remaining[2 + k];
+    }
+
+    // Evaluate and compare 7-card hands
+    settleShowdown(evaluateCards(playerHand), evaluateCards(dealerHand), counts, tally, rules);
+  }
+
+  return tally;
+}
+
+/**
+ * Settle a complete board against every dealer hand left in the deck,
+ * giving the exact showdown tally for that board
+ *
+ * @param deck Remaining cards; the first `start` of them are on the board
+ */
+function settleBoard(
+  playerHole: number[],
+  board: number[],
+  deck: number[],
+  start: number,
+  counts: OutcomeCounts,
+  rules: TableRules,
+): ShowdownTally {
+  const tally = createTally();
+  const playerScore = evaluateCards([...playerHole, ...board]);
+  const dealerHand = [0, 0, ...board];
+
+  // The player's hand is fixed, so dealer hands are counted by result and
+  // final rank and settled in bulk
+  const dealerRanks: Record<ShowdownResult, number[]> = {
+    win: createRankCounts(),
+    tie: createRankCounts(),
+    lose: createRankCounts(),
+  };
+  for (let i = start; i < deck.length; i++) {
+    dealerHand[0] = deck[i];
+    for (let j = i + 1; j < deck.length; j++) {
+      dealerHand[1] = deck[j];
+      const dealerScore = evaluateCards(dealerHand);
+      const result = playerScore > dealerScore ? "win" : playerScore < dealerScore ? "lose" : "tie";
+      dealerRanks[result][getScoreRank(dealerScore)]++;
+    }
+  }
+
+  const playerRank = getScoreRank(playerScore);
+  for (const result of SHOWDOWN_RESULTS) {
+    dealerRanks[result].forEach((count, dealerRank) => {
+      if (count > 0) settleShowdowns(result, playerRank, dealerRank, count, counts, tally, rules);
+    });
+  }
+
+  return tally;
+}
+
+/**
+ * Sample one board completion and settle it against every dealer hand.
+ *
+ * Pricing checks from exact per-board tallies keeps the estimate unbiased:
+ * choosing the river action from a handful of sampled dealer hands and
+ * averaging the best of those noisy EVs would overstate what checking is
+ * worth.
+ */
+function sampleBoard(
+  playerHole: number[],
+  communityCards: number[],
+  deck: number[],
+  counts: OutcomeCounts,
+  random: RandomSource,
+  rules: TableRules,
+): { board: number[]; tally: ShowdownTally } {
+  const needed = 5 - communityCards.length;
+  drawCards(deck, needed, random);
+  const board = [...communityCards, ...deck.slice(0, needed)];
+  return { board, tally: settleBoard(playerHole, board, deck, needed, counts, rules) };
+}
+
+/**
+ * Value of the optimal river decision, from a board's exact tally
+ */
+function getRiverValue(tally: ShowdownTally, rules: TableRules): number {
+  return getBestAction(getActionEVs("river", tally, rules)).ev;
+}
+
+/**
+ * Value of checking pre-flop on a sampled board: the flop is played by
+ * the basic-strategy rule and the river optimally.
+ *
+ * The flop rule sees only the cards, never the sampled outcomes, so the
+ * estimate is unbiased for that line of play. Pricing the flop decision
+ * exactly would take a million showdowns per sample; the rule trails the
+ * optimal flop decision by a few thousandths of an ante at most.
+ */
+function getFlopPolicyValue(
+  playerHole: number[],
+  board: number[],
+  tally: ShowdownTally,
+  rules: TableRules,
+): number {
+  const { action } = getFlopDecision([...playerHole, ...board.slice(0, 3)].map(decodeCard), rules);
+  return action === "check" ? getRiverValue(tally, rules) : betEV(tally, getPlayMultiplier(action));
+}
+
+/**
+ * One zero count per hand rank
+ */
+function createRankCounts(): number[] {
+  return new Array<number>(HAND_RANK.royalFlush + 1).fill(0);
+}
+
+/**
+ * Create empty simulation totals
+ */
+export function createTotals(): SimulationTotals {
+  return {
+    wins: 0,
+    ties: 0,
+    losses: 0,
+    handCounts: createRankCounts(),
+    dealerHandCounts: createRankCounts(),
+    dealerNotQualified: 0,
+    outcomeHandCounts: { win: createRankCounts(), tie: createRankCounts(), lose: createRankCounts() },
+    tally: createTally(),
+    checkTotal: 0,
+    checkSamples: 0,
+    moments: createMoments(),
+  };
+}
+
+/**
+ * Add the totals of one simulation shard into another
+ */
+export function mergeTotals(target: SimulationTotals, source: SimulationTotals): void {
+  target.wins += source.wins;
+  target.ties += source.ties;
+  target.losses += source.losses;
+  const addCounts = (into: number[], from: number[]) =>
+    from.forEach((count, rank) => {
+      into[rank] += count;
+    });
+  addCounts(target.handCounts, source.handCounts);
+  addCounts(target.dealerHandCounts, source.dealerHandCounts);
+  target.dealerNotQualified += source.dealerNotQualified;
+  for (const result of SHOWDOWN_RESULTS) {
+    addCounts(target.outcomeHandCounts[result], source.outcomeHandCounts[result]);
+  }
+  mergeTally(target.tally, source.tally);
+  target.checkTotal += source.checkTotal;
+  target.checkSamples += source.checkSamples;
+  mergeMoments(target.moments, source.moments);
+}
+
+/**
+ * Turn simulation totals into win/tie/lose percentages and action EVs
+ * 
+ * @param knownCards Array of known cards (hole + community)
+ * @param totals Totals accumulated so far
+ * @param method How the totals were produced
+ * @param rules Table rules giving the legal actions
+ * @returns SimulationResult for the totals
+ */
+export function buildSimulationResult(
+  knownCards: string[],
+  totals: SimulationTotals,
+  method: SimulationMethod,
+  rules: TableRules = DEFAULT_TABLE_RULES
+): SimulationResult {
+  const { wins, ties, losses } = totals;
+  const total = wins + ties + losses;
+
+  if (total === 0) {
+    throw new Error("No valid simulations completed");
+  }
+
+  const result: SimulationResult = {
+    win: (wins / total) * 100,
+    tie: (ties / total) * 100,
+    lose: (losses / total) * 100,
+    iterations: total,
+    method,
+    handDistribution: totals.handCounts.map(count => count / total),
+    dealerHandDistribution: totals.dealerHandCounts.map(count => count / total),
+    dealerNotQualified: totals.dealerNotQualified / total,
+    outcomeByHand: {
+      win: totals.outcomeHandCounts.win.map(count => count / total),
+      tie: totals.outcomeHandCounts.tie.map(count => count / total),
+      lose: totals.outcomeHandCounts.lose.map(count => count / total),
+    },
+  };
+
+  // Exact results carry zero-width intervals
+  const { moments } = totals;
+  const sampled = method === 'monteCarlo';
+  result.winInterval = toInterval(result.win, sampled ? getWinInterval(moments).standardError : 0);
+
+  const decisionPoint = getDecisionPoint(knownCards.length);
+  if (decisionPoint) {
+    const checkValue = totals.checkSamples > 0 ? totals.checkTotal / totals.checkSamples : FOLD_EV;
+    const standardErrors = sampled ? getEVStandardErrors(moments) : [];
+    const actionEVs: ActionEV[] = getActionEVs(decisionPoint, totals.tally, rules, checkValue).map((actionEV, i) => ({
+      ...actionEV,
+      standardError: standardErrors[i] ?? 0,
+    }));
+
+    // Compare the best action with every alternative on the same samples
+    // and keep the comparison it is least certainly ahead in
+    const best = actionEVs.indexOf(getBestAction(actionEVs));
+    const margins = actionEVs
+      .filter((_, i) => i !== best)
+      .map((actionEV, i) => {
+        const other = i < best ? i : i + 1;
+        const marginError = sampled ? getDifferenceInterval(moments, best, other).standardError : 0;
+        return toInterval(actionEVs[best].ev - actionEV.ev, marginError);
+      });
+
+    result.decisionPoint = decisionPoint;
+    result.actionEVs = actionEVs;
+    result.decisionMargin = margins.reduce((weakest, margin) =>
+      margin.lower < weakest.lower ? margin : weakest,
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Whether a result is precise enough to act on: the best action is
+ * clearly ahead of every alternative, or the closest call is known to
+ * within DECISION_TOLERANCE antes either way. Without a decision the win rate
+ * has to be known to within WIN_TOLERANCE points.
+ * 
+ * @param result Partial or final simulation result
+ * @returns True once further sampling would not change the advice
+ */
+export function hasConverged(result: SimulationResult): boolean {
+  if (result.method === 'exact') return true;
+  if (result.iterations < ADAPTIVE_MIN_ITERATIONS) return false;
+
+  const margin = result.decisionMargin;
+  if (margin) {
+    return margin.lower > 0 || (margin.upper - margin.lower) / 2 < DECISION_TOLERANCE;
+  }
+
+  const win = result.winInterval;
+  return win !== undefined && (win.upper - win.lower) / 2 < WIN_TOLERANCE;
+}
+
+/**
+ * Record one independent sample of a simulation in its moments
+ */
+function recordUnit(
+  totals: SimulationTotals,
+  winsBefore: number,
+  showdowns: number,
+  actionEVs: ActionEV[],
+): void {
+  recordSample(
+    totals.moments,
+    (totals.wins - winsBefore) / showdowns,
+    actionEVs.map(({ ev }) => ev),
+  );
+}
+
+/**
+ * Yield control so the UI (or a worker's message queue) can run, then stop
+ * if the simulation was cancelled meanwhile
+ */
+async function yieldControl(signal?: AbortSignal): Promise<void> {
+  await new Promise(resolve => setTimeout(resolve, 1));
+  signal?.throwIfAborted();
+}
+
+/**
+ * Sample showdowns from a known state and return the raw totals.
+ * 
+ * This is the sampling core shared by `monteCarloSimulation` and the
+ * simulation workers; several calls can run side by side and have their
+ * totals merged.
+ * 
+ * @param knownCards Array of known cards (hole + community)
+ * @param iterations Number of showdowns to sample
+ * @param options Cancellation signal, progress callback, random source and rules
+ * @returns Promise<SimulationTotals> Totals over every sampled showdown
+ */
+export async function sampleOutcomes(
+  knownCards: string[],
+  iterations: number,
+  options: ShardOptions = {}
+): Promise<SimulationTotals> {
+  const { signal, onTotals, random = Math.random, rules = DEFAULT_TABLE_RULES, deadCards = [] } = options;
+  signal?.throwIfAborted();
+
+  // Create remaining deck, without the dead cards
+  const knownCodes = knownCards.map(encodeCard);
+  const remainingCards = getRemainingDeck(knownCards, deadCards);
+
+  if (remainingCards.length < 7) {
+    throw new Error("Not enough remaining cards for simulation");
+  }
+
+  // Extract known cards
+  const playerHole = knownCodes.slice(0, 2);
+  const communityCards = knownCodes.slice(2);
+  const decisionPoint = getDecisionPoint(knownCards.length);
+
+  const totals = createTotals();
+  const batchSize = SAMPLE_BLOCK_SIZE; // Showdowns between yield points
+  let completed = 0;
+
+  while (completed < iterations) {
+    const batchEnd = Math.min(completed + batchSize, iterations);
+
+    if (decisionPoint === "flop" || decisionPoint === "preflop") {
+      // Each sample is a board completion settled against every dealer
+      // hand, followed by the next decisions
+      while (completed < batchEnd) {
+        const winsBefore = totals.wins;
+        const { board, tally } = sampleBoard(playerHole, communityCards, remainingCards, totals, random, rules);
+        const checkValue = decisionPoint === "flop"
+          ? getRiverValue(tally, rules)
+          : getFlopPolicyValue(playerHole, board, tally, rules);
+        mergeTally(totals.tally, tally);
+        totals.checkTotal += checkValue;
+        totals.checkSamples++;
+        recordUnit(totals, winsBefore, tally.samples, getActionEVs(decisionPoint, tally, rules, checkValue));
+        completed += tally.samples;
+      }
+    } else {
+      // Showdowns are grouped into small independent samples
+      while (completed < batchEnd) {
+        const winsBefore = totals.wins;
+        const showdowns = Math.min(SHOWDOWNS_PER_SAMPLE, batchEnd - completed);
+        const tally = sampleShowdowns(playerHole, communityCards, remainingCards, showdowns, totals, random, rules);
+        mergeTally(totals.tally, tally);
+        recordUnit(totals, winsBefore, showdowns, decisionPoint ? getActionEVs(decisionPoint, tally, rules) : []);
+        completed += showdowns;
+      }
+    }
+
+    onTotals?.(totals);
+    await yieldControl(signal);
+  }
+
+  return totals;
+}
+
 /**
  * Advanced Monte Carlo simulation with optimizations
  * 
@@ -82,127 +714,88 @@ function validateCards(knownCards: string[]): void {
  * - Input validation and error handling
  * - Efficient deck generation and shuffling
  * - Batch processing with yield points for UI responsiveness
+ * - Expected value of every legal action at the current decision point
+ * - Cancellation through an AbortSignal and partial-result progress
  * - Detailed logging for debugging
- * - Race condition prevention
+ * 
+ * Before the river each sample completes the board and settles it against
+ * every dealer hand, so checking is priced from exact per-board counts
+ * (see `sampleBoard`); `iterations` counts showdowns rather than samples.
+ * 
+ * When every remaining outcome can be enumerated (flop and river) the
+ * exact result is returned instead and `iterations` is ignored.
+ * 
+ * Every result carries 95% confidence intervals. In adaptive mode
+ * sampling stops as soon as `hasConverged` holds, so clear-cut spots
+ * finish long before `iterations` is reached.
+ * 
+ * Sampling runs in seeded blocks of SAMPLE_BLOCK_SIZE showdowns and
+ * convergence is only checked between blocks, so the same seed always
+ * reproduces the same result.
+ * 
+ * This runs on the calling thread; `runPooledSimulation` in `workerPool.ts`
+ * spreads the same work across Web Workers.
  * 
  * @param knownCards Array of known cards (hole + community)
  * @param iterations Number of simulation iterations (default: 1000)
- * @returns Promise<SimulationResult> Win/tie/lose percentages
+ * @param options Cancellation signal, progress callback and table rules
+ * @returns Promise<SimulationResult> Win/tie/lose percentages and action EVs
  */
 export async function monteCarloSimulation(
   knownCards: string[],
-  iterations: number = 1000
+  iterations: number = 1000,
+  options: SimulationOptions = {}
 ): Promise<SimulationResult> {
   
   console.log(`🎯 Starting Monte Carlo simulation with ${knownCards.length} cards:`, knownCards);
   console.log(`🔢 Running ${iterations} iterations`);
   
   // Validate inputs
-  validateCards(knownCards);
-  
-  if (iterations < 10 || iterations > 10000) {
-    throw new Error("Iterations must be between 10 and 10,000");
+  const { deadCards = [] } = options;
+  validateCards(knownCards, deadCards);
+  validateIterations(iterations);
+  validateTableRules(options.rules ?? DEFAULT_TABLE_RULES);
+
+  // Small state spaces are enumerated exactly instead of sampled
+  if (canEnumerate(knownCards, deadCards)) {
+    console.log(`🧮 ${countShowdowns(knownCards, deadCards).toLocaleString()} outcomes — using exact enumeration`);
+    return exactEnumeration(knownCards, options);
   }
 
-  // Create remaining deck
-  const fullDeck = generateDeck();
-  const remainingCards = fullDeck.filter(card => !knownCards.includes(card));
-  
-  console.log(`📦 Remaining deck size: ${remainingCards.length}`);
-  
-  if (remainingCards.length < 7) {
-    throw new Error("Not enough remaining cards for simulation");
+  console.log(`🃏 Player hole: ${knownCards.slice(0, 2).join(', ')}`);
+  console.log(`🏘️ Community: ${knownCards.slice(2).join(', ')} (decision: ${getDecisionPoint(knownCards.length) ?? 'none'})`);
+  if (deadCards.length > 0) {
+    console.log(`💀 Dead cards: ${deadCards.join(', ')}`);
   }
 
-  // Extract known cards
-  const playerHole = knownCards.slice(0, 2);
-  const communityCards = knownCards.slice(2);
-  const communityNeeded = Math.max(0, 5 - communityCards.length);
-  
-  console.log(`🃏 Player hole: ${playerHole.join(', ')}`);
-  console.log(`🏘️ Community: ${communityCards.join(', ')} (need ${communityNeeded} more)`);
+  const { signal, onProgress, adaptive, seed = randomSeed(), rules = DEFAULT_TABLE_RULES } = options;
+  console.log(`🌱 Seed: ${seed} (${rules.name} rules)`);
 
-  let wins = 0;
-  let ties = 0;
-  let losses = 0;
-  let validSimulations = 0;
+  const totals = createTotals();
+  const blocks = getBlockSizes(iterations);
+  for (let block = 0; block < blocks.length; block++) {
+    mergeTotals(totals, await sampleOutcomes(knownCards, blocks[block], {
+      signal,
+      random: createRandom(deriveSeed(seed, block)),
+      rules,
+      deadCards,
+    }));
 
-  const batchSize = 50; // Process in batches for UI responsiveness
-  
-  // Run simulations in batches
-  for (let batch = 0; batch < Math.ceil(iterations / batchSize); batch++) {
-    const batchStart = batch * batchSize;
-    const batchEnd = Math.min(batchStart + batchSize, iterations);
-    
-    for (let i = batchStart; i < batchEnd; i++) {
-      try {
-        // Shuffle remaining deck
-        const shuffled = shuffleArray(remainingCards);
-        
-        // Deal dealer cards (first 2 from shuffled deck)
-        const dealerHole = shuffled.slice(0, 2);
-        
-        // Complete community cards if needed
-        const additionalCommunity = shuffled.slice(2, 2 + communityNeeded);
-        const fullCommunity = [...communityCards, ...additionalCommunity];
-        
-        // Ensure we have exactly 5 community cards
-        if (fullCommunity.length !== 5) {
-          console.warn(`Invalid community card count: ${fullCommunity.length}`);
-          continue;
-        }
-        
-        // Create 7-card hands for evaluation
-        const playerHand = [...playerHole, ...fullCommunity];
-        const dealerHand = [...dealerHole, ...fullCommunity];
-        
-        // Convert to pokersolver format
-        const playerSolver = playerHand.map(convertCardForSolver);
-        const dealerSolver = dealerHand.map(convertCardForSolver);
-        
-        // Evaluate hands
-        const playerResult = Hand.solve(playerSolver);
-        const dealerResult = Hand.solve(dealerSolver);
-        
-        // Compare hands using pokersolver's winner determination
-        const winners = Hand.winners([playerResult, dealerResult]);
-        
-        if (winners.length === 2) {
-          ties++;
-        } else if (winners[0] === playerResult) {
-          wins++;
-        } else {
-          losses++;
-        }
-        
-        validSimulations++;
-        
-      } catch (error) {
-        console.warn(`Simulation ${i} failed:`, error);
-        continue;
-      }
-    }
-    
-    // Yield control to prevent UI blocking
-    if (batch % 4 === 0) { // Every 4 batches (200 iterations)
-      await new Promise(resolve => setTimeout(resolve, 1));
+    if (block < blocks.length - 1) {
+      const partial = buildSimulationResult(knownCards, totals, 'monteCarlo', rules);
+      if (adaptive && hasConverged(partial)) break;
+      onProgress?.(partial);
     }
   }
 
-  if (validSimulations === 0) {
-    throw new Error("No valid simulations completed");
+  const result = buildSimulationResult(knownCards, totals, 'monteCarlo', rules);
+  result.seed = seed;
+  if (adaptive) {
+    result.converged = hasConverged(result);
   }
-
-  // Calculate percentages
-  const result: SimulationResult = {
-    win: (wins / validSimulations) * 100,
-    tie: (ties / validSimulations) * 100,
-    lose: (losses / validSimulations) * 100,
-    iterations: validSimulations
-  };
   
   console.log(`✅ Monte Carlo simulation complete:`, result);
-  console.log(`📊 Results: ${wins}W / ${ties}T / ${losses}L out of ${validSimulations} valid simulations`);
+  console.log(`📊 Results: ${totals.wins}W / ${totals.ties}T / ${totals.losses}L out of ${result.iterations} valid simulations`);
   
   // Validate result percentages
   const totalPercentage = result.win + result.tie + result.lose;
@@ -213,56 +806,281 @@ export async function monteCarloSimulation(
   return result;
 }
 
+/**
+ * Split a sampled run into seeded blocks
+ * 
+ * @param iterations Total showdowns to sample
+ * @returns Showdowns in each block; only the last one may be short
+ */
+export function getBlockSizes(iterations: number): number[] {
+  const blocks = Math.ceil(iterations / SAMPLE_BLOCK_SIZE);
+  return Array.from({ length: blocks }, (_, block) =>
+    Math.min(SAMPLE_BLOCK_SIZE, iterations - block * SAMPLE_BLOCK_SIZE)
+  );
+}
+
+/**
+ * Binomial coefficient n choose k
+ */
+function binomial(n: number, k: number): number {
+  if (k < 0 || k > n) return 0;
+  let result = 1;
+  for (let i = 1; i <= k; i++) {
+    result = (result * (n - k + i)) / i;
+  }
+  return Math.round(result);
+}
+
+/**
+ * All k-element combinations of the indices 0..n-1
+ */
+function combinations(n: number, k: number): number[][] {
+  const result: number[][] = [];
+  const current: number[] = [];
+  const build = (start: number) => {
+    if (current.length === k) {
+      result.push([...current]);
+      return;
+    }
+    for (let i = start; i < n; i++) {
+      current.push(i);
+      build(i + 1);
+      current.pop();
+    }
+  };
+  build(0);
+  return result;
+}
+
+/**
+ * Count the distinct showdowns (board completions × dealer hands) left
+ * from a known state
+ * 
+ * @param knownCards Array of known cards (hole + community)
+ * @param deadCards Cards removed from the deck
+ * @returns Number of showdowns an exact enumeration would evaluate
+ */
+export function countShowdowns(knownCards: string[], deadCards: string[] = []): number {
+  const remaining = 52 - knownCards.length - deadCards.length;
+  const communityNeeded = 7 - knownCards.length;
+  return binomial(remaining, communityNeeded) * binomial(remaining - communityNeeded, 2);
+}
+
+/**
+ * Whether the remaining state space is small enough to enumerate exactly.
+ * True from the flop onwards; pre-flop always has to be sampled.
+ * 
+ * @param knownCards Array of known cards (hole + community)
+ * @param deadCards Cards removed from the deck
+ */
+export function canEnumerate(knownCards: string[], deadCards: string[] = []): boolean {
+  return countShowdowns(knownCards, deadCards) <= EXACT_ENUMERATION_LIMIT;
+}
+
+/**
+ * Enumerate every remaining outcome, or every `shardCount`-th board
+ * completion starting at `shard`, and return the raw totals.
+ * 
+ * Walks each board completion and, for each one, every possible dealer
+ * hand, scoring both with the native evaluator. At the flop each board
+ * completion is followed by the optimal river decision, which gives the
+ * exact value of checking.
+ * 
+ * @param knownCards Array of known cards (hole + at least 3 community)
+ * @param options Shard selection, cancellation signal, progress callback and rules
+ * @returns Promise<SimulationTotals> Totals over every enumerated showdown
+ */
+export async function enumerateOutcomes(
+  knownCards: string[],
+  options: ShardOptions = {}
+): Promise<SimulationTotals> {
+  const { signal, onTotals, shard = 0, shardCount = 1, rules = DEFAULT_TABLE_RULES, deadCards = [] } = options;
+  signal?.throwIfAborted();
+
+  const knownCodes = knownCards.map(encodeCard);
+  const deck = getRemainingDeck(knownCards, deadCards);
+  const playerHole = knownCodes.slice(0, 2);
+  const communityCards = knownCodes.slice(2);
+  const decisionPoint = getDecisionPoint(knownCards.length);
+  const completions = combinations(deck.length, 5 - communityCards.length);
+
+  const totals = createTotals();
+  const dealerHand = new Array<number>(7);
+  let lastYield = Date.now();
+
+  for (let c = shard; c < completions.length; c += shardCount) {
+    const completion = completions[c];
+    const board = [...communityCards, ...completion.map(i => deck[i])];
+    const playerScore = evaluateCards([...playerHole, ...board]);
+    const completionTally = createTally();
+
+    for (let k = 0; k < 5; k++) {
+      dealerHand[2 + k] = board[k];
+    }
+
+    for (let i = 0; i < deck.length; i++) {
+      if (completion.includes(i)) continue;
+      dealerHand[0] = deck[i];
+      for (let j = i + 1; j < deck.length; j++) {
+        if (completion.includes(j)) continue;
+        dealerHand[1] = deck[j];
+        settleShowdown(playerScore, evaluateCards(dealerHand), totals, completionTally, rules);
+      }
+    }
+
+    mergeTally(totals.tally, completionTally);
+    if (decisionPoint === 'flop') {
+      totals.checkTotal += getBestAction(getActionEVs('river', completionTally, rules)).ev;
+      totals.checkSamples++;
+    }
+
+    // Yield control to prevent UI blocking
+    if (Date.now() - lastYield > ENUMERATION_YIELD_MS) {
+      onTotals?.(totals);
+      await yieldControl(signal);
+      lastYield = Date.now();
+    }
+  }
+
+  return totals;
+}
+
+/**
+ * Exact combinatorial enumeration of every remaining outcome
+ * 
+ * @param knownCards Array of known cards (hole + at least 3 community)
+ * @param options Cancellation signal, progress callback and table rules
+ * @returns Promise<SimulationResult> Exact win/tie/lose percentages and action EVs
+ */
+export async function exactEnumeration(
+  knownCards: string[],
+  options: SimulationOptions = {}
+): Promise<SimulationResult> {
+  console.log(`🧮 Starting exact enumeration with ${knownCards.length} cards:`, knownCards);
+
+  const { signal, onProgress, rules = DEFAULT_TABLE_RULES, deadCards = [] } = options;
+  validateCards(knownCards, deadCards);
+  validateTableRules(rules);
+
+  const totalShowdowns = countShowdowns(knownCards, deadCards);
+  if (totalShowdowns > EXACT_ENUMERATION_LIMIT) {
+    throw new Error(`Too many outcomes to enumerate (${totalShowdowns.toLocaleString()})`);
+  }
+
+  const totals = await enumerateOutcomes(knownCards, {
+    signal,
+    rules,
+    deadCards,
+    onTotals: onProgress && (partial => onProgress(buildSimulationResult(knownCards, partial, 'exact', rules))),
+  });
+
+  const result = buildSimulationResult(knownCards, totals, 'exact', rules);
+
+  console.log(`✅ Exact enumeration complete:`, result);
+  console.log(`📊 Results: ${totals.wins}W / ${totals.ties}T / ${totals.losses}L over ${result.iterations} showdowns`);
+
+  return result;
+}
+
 /**
  * Quick simulation with fewer iterations for faster results
  * 
  * @param knownCards Array of known cards
  * @param iterations Number of iterations (default: 300)
+ * @param options Cancellation signal and progress callback
  * @returns Promise<SimulationResult> Win/tie/lose percentages
  */
 export async function quickSimulation(
   knownCards: string[], 
-  iterations: number = 300
+  iterations: number = 300,
+  options: SimulationOptions = {}
 ): Promise<SimulationResult> {
   console.log(`⚡ Running quick simulation with ${iterations} iterations`);
-  return monteCarloSimulation(knownCards, iterations);
+  return monteCarloSimulation(knownCards, iterations, options);
 }
 
 /**
- * Batch simulation for multiple scenarios (future enhancement)
+ * Batch simulation for multiple scenarios, several at a time
+ * 
+ * Every scenario is sampled with the same seed (common random numbers),
+ * so differences between scenarios are not masked by sampling noise;
+ * scenarios small enough are enumerated exactly. A scenario that fails
+ * gets a failure outcome with its error code; the others still run.
+ * Invalid iterations or rules, and aborting the signal, reject the whole
+ * batch.
  * 
  * @param scenarios Array of card scenarios to simulate
  * @param iterations Iterations per scenario
- * @returns Promise<SimulationResult[]> Results for each scenario
+ * @param options Cancellation signal, per-scenario progress, concurrency, seed and table rules
+ * @returns Promise<BatchOutcome[]> One outcome per scenario, in order
  */
 export async function batchSimulation(
   scenarios: string[][],
-  iterations: number = 300
-): Promise<SimulationResult[]> {
-  console.log(`🔄 Running batch simulation for ${scenarios.length} scenarios`);
-  
-  const results: SimulationResult[] = [];
-  
-  for (let i = 0; i < scenarios.length; i++) {
-    console.log(`📊 Processing scenario ${i + 1}/${scenarios.length}`);
+  iterations: number = 300,
+  options: BatchOptions = {}
+): Promise<BatchOutcome[]> {
+  const {
+    signal,
+    onScenarioProgress,
+    onScenarioDone,
+    concurrency = BATCH_CONCURRENCY,
+    simulate = monteCarloSimulation,
+    deadCards = [],
+    ...simulationOptions
+  } = options;
+
+  validateIterations(iterations);
+  validateTableRules(options.rules ?? DEFAULT_TABLE_RULES);
+  signal?.throwIfAborted();
+
+  const seed = options.seed ?? randomSeed();
+  console.log(`🔄 Running batch simulation for ${scenarios.length} scenarios, ${concurrency} at a time`);
+
+  const runScenario = async (index: number): Promise<BatchOutcome> => {
+    const scenario = scenarios[index];
     try {
-      const result = await monteCarloSimulation(scenarios[i], iterations);
-      results.push(result);
+      validateCards(scenario, deadCards);
     } catch (error) {
-      console.error(`❌ Scenario ${i + 1} failed:`, error);
-      // Push error result
-      results.push({
-        win: 0,
-        tie: 0,
-        lose: 100,
-        iterations: 0
+      return { ok: false, scenario, code: 'invalidCards', message: getErrorMessage(error) };
+    }
+
+    try {
+      const result = await simulate(scenario, iterations, {
+        ...simulationOptions,
+        signal,
+        seed,
+        deadCards,
+        onProgress: onScenarioProgress && (partial => onScenarioProgress(index, partial)),
       });
+      return { ok: true, scenario, result };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error(`❌ Scenario ${index + 1} failed:`, error);
+      return { ok: false, scenario, code: 'simulationFailed', message: getErrorMessage(error) };
     }
-    
-    // Yield between scenarios
-    await new Promise(resolve => setTimeout(resolve, 10));
-  }
-  
-  console.log(`✅ Batch simulation complete: ${results.length} results`);
-  return results;
-}
\ No newline at end of file
+  };
+
+  // Each lane takes the next scenario as soon as its previous one settles
+  const outcomes: BatchOutcome[] = new Array(scenarios.length);
+  let next = 0;
+  const runLane = async (): Promise<void> => {
+    while (next < scenarios.length) {
+      signal?.throwIfAborted();
+      const index = next++;
+      outcomes[index] = await runScenario(index);
+      onScenarioDone?.(index, outcomes[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, scenarios.length)) }, runLane));
+
+  const failed = outcomes.filter(outcome => !outcome.ok).length;
+  console.log(`✅ Batch simulation complete: ${outcomes.length - failed} succeeded, ${failed} failed`);
+  return outcomes;
+}
+
+/**
+ * Message of a thrown value
+ */
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : "Unknown simulation error";
+}
@@ -0,0 +1,53 @@
+/**
+ * Pre-flop EV Table for Ultimate Texas Hold'em
+ *
+ * A pre-flop spot depends only on the starting-hand class and the table
+ * rules, so the win rates and action EVs of all 169 classes are simulated
+ * once at build time (`npm run generate:preflop`) and shipped in
+ * `preflopTableData.ts`. Looking a hand up is instant, but the numbers are
+ * still sampled: each EV carries its standard error, 0.01 to 0.07 antes
+ * (suited hands, whose Blind can hit a royal flush, are the noisiest). The
+ * actions of one hand are priced on the same deals, so the gaps between
+ * them are known more precisely than the EVs themselves.
+ *
+ * The table assumes a full deck: cards seen at other seats are ignored.
+ */
+
+import { getHandClass } from "../components/BasicStrategy";
+import type { ActionEV } from "./expectedValue";
+import { PREFLOP_TABLES } from "./preflopTableData";
+import type { TableRules } from "./tableRules";
+
+/**
+ * Simulated pre-flop result of one starting-hand class
+ */
+export interface PreflopEntry {
+  /** Win, tie and lose percentages against a random dealer hand */
+  win: number;
+  tie: number;
+  lose: number;
+  /**
+   * EV of each pre-flop action in ante units; checking is followed by the
+   * basic-strategy flop decision and the best river decision
+   */
+  actionEVs: ActionEV[];
+}
+
+/**
+ * Pre-flop results of every starting-hand class, keyed by `getHandClass`
+ */
+export type PreflopTable = Record<string, PreflopEntry>;
+
+/**
+ * Looks up the precomputed pre-flop result of two hole cards
+ *
+ * @param holeCards Array of exactly 2 hole cards
+ * @param rules Table rules the EVs were computed under
+ * @returns Table entry, or null when no table was generated for the rules
+ */
+export function getPreflopEntry(holeCards: string[], rules: TableRules): PreflopEntry | null {
+  if (holeCards.length !== 2) {
+    throw new Error("Pre-flop table lookup needs exactly 2 hole cards");
+  }
+  return PREFLOP_TABLES[rules.id]?.[getHandClass(holeCards)] ?? null;
+}
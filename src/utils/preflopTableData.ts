@@ -0,0 +1,361 @@
+/**
+ * Pre-flop EV Table Data
+ *
+ * Generated by `npm run generate:preflop` (scripts/generatePreflopTable.ts)
+ * with 40,000,000 showdowns per hand and seed 169. Do not edit by hand.
+ */
+
+import type { PreflopTable } from "./preflopTable";
+
+const STANDARD_TABLE: PreflopTable = {
+  "22": { win: 49.31, tie: 1.86, lose: 48.83, actionEVs: [{ action: "bet4x", ev: -0.2942, standardError: 0.0168 }, { action: "bet3x", ev: -0.2991, standardError: 0.0146 }, { action: "check", ev: -0.2006, standardError: 0.0115 }] },
+  "33": { win: 52.71, tie: 1.66, lose: 45.63, actionEVs: [{ action: "bet4x", ev: 0.0704, standardError: 0.0162 }, { action: "bet3x", ev: -0.0004, standardError: 0.0142 }, { action: "check", ev: -0.0711, standardError: 0.0122 }] },
+  "44": { win: 56.17, tie: 1.51, lose: 42.32, actionEVs: [{ action: "bet4x", ev: 0.448, standardError: 0.0156 }, { action: "bet3x", ev: 0.3095, standardError: 0.0136 }, { action: "check", ev: 0.1711, standardError: 0.0117 }] },
+  "55": { win: 59.57, tie: 1.33, lose: 39.1, actionEVs: [{ action: "bet4x", ev: 0.8273, standardError: 0.0154 }, { action: "bet3x", ev: 0.6226, standardError: 0.0136 }, { action: "check", ev: 0.4179, standardError: 0.0119 }] },
+  "66": { win: 62.76, tie: 1.14, lose: 36.11, actionEVs: [{ action: "bet4x", ev: 1.1626, standardError: 0.0145 }, { action: "bet3x", ev: 0.8961, standardError: 0.0128 }, { action: "check", ev: 0.6296, standardError: 0.0112 }] },
+  "77": { win: 65.79, tie: 1.04, lose: 33.16, actionEVs: [{ action: "bet4x", ev: 1.5011, standardError: 0.0139 }, { action: "bet3x", ev: 1.1748, standardError: 0.0124 }, { action: "check", ev: 0.8485, standardError: 0.0109 }] },
+  "88": { win: 68.79, tie: 0.88, lose: 30.33, actionEVs: [{ action: "bet4x", ev: 1.8298, standardError: 0.0136 }, { action: "bet3x", ev: 1.4452, standardError: 0.0123 }, { action: "check", ev: 1.0606, standardError: 0.011 }] },
+  "99": { win: 71.68, tie: 0.81, lose: 27.51, actionEVs: [{ action: "bet4x", ev: 2.138, standardError: 0.0125 }, { action: "bet3x", ev: 1.6963, standardError: 0.0113 }, { action: "check", ev: 1.2546, standardError: 0.0101 }] },
+  "1010": { win: 74.62, tie: 0.74, lose: 24.64, actionEVs: [{ action: "bet4x", ev: 2.4641, standardError: 0.0168 }, { action: "bet3x", ev: 1.9643, standardError: 0.0161 }, { action: "check", ev: 1.4646, standardError: 0.0154 }] },
+  "AA": { win: 84.93, tie: 0.55, lose: 14.52, actionEVs: [{ action: "bet4x", ev: 3.5934, standardError: 0.0156 }, { action: "bet3x", ev: 2.8893, standardError: 0.0151 }, { action: "check", ev: 2.1852, standardError: 0.0146 }] },
+  "AKs": { win: 66.29, tie: 1.65, lose: 32.06, actionEVs: [{ action: "bet4x", ev: 1.7842, standardError: 0.0683 }, { action: "bet3x", ev: 1.4418, standardError: 0.0678 }, { action: "check", ev: 1.0487, standardError: 0.0672 }] },
+  "AKo": { win: 64.47, tie: 1.7, lose: 33.83, actionEVs: [{ action: "bet4x", ev: 1.1635, standardError: 0.0186 }, { action: "bet3x", ev: 0.8571, standardError: 0.0169 }, { action: "check", ev: 0.4941, standardError: 0.0147 }] },
+  "AQs": { win: 65.33, tie: 1.79, lose: 32.88, actionEVs: [{ action: "bet4x", ev: 1.6297, standardError: 0.0628 }, { action: "bet3x", ev: 1.3052, standardError: 0.0623 }, { action: "check", ev: 0.9349, standardError: 0.0616 }] },
+  "AQo": { win: 63.49, tie: 1.86, lose: 34.65, actionEVs: [{ action: "bet4x", ev: 1.0832, standardError: 0.022 }, { action: "bet3x", ev: 0.7947, standardError: 0.0207 }, { action: "check", ev: 0.4544, standardError: 0.019 }] },
+  "AJs": { win: 64.42, tie: 1.96, lose: 33.62, actionEVs: [{ action: "bet4x", ev: 1.4824, standardError: 0.0568 }, { action: "bet3x", ev: 1.1745, standardError: 0.0562 }, { action: "check", ev: 0.8276, standardError: 0.0555 }] },
+  "AJo": { win: 62.57, tie: 2.03, lose: 35.39, actionEVs: [{ action: "bet4x", ev: 1.0081, standardError: 0.0251 }, { action: "bet3x", ev: 0.7363, standardError: 0.0239 }, { action: "check", ev: 0.421, standardError: 0.0225 }] },
+  "A10s": { win: 63.42, tie: 2.25, lose: 34.33, actionEVs: [{ action: "bet4x", ev: 1.3839, standardError: 0.0556 }, { action: "bet3x", ev: 1.093, standardError: 0.055 }, { action: "check", ev: 0.7662, standardError: 0.0543 }] },
+  "A10o": { win: 61.52, tie: 2.33, lose: 36.16, actionEVs: [{ action: "bet4x", ev: 0.9121, standardError: 0.0249 }, { action: "bet3x", ev: 0.6584, standardError: 0.0238 }, { action: "check", ev: 0.3665, standardError: 0.0224 }] },
+  "A9s": { win: 61.61, tie: 2.58, lose: 35.81, actionEVs: [{ action: "bet4x", ev: 0.9539, standardError: 0.0143 }, { action: "bet3x", ev: 0.6959, standardError: 0.012 }, { action: "check", ev: 0.42, standardError: 0.009 }] },
+  "A9o": { win: 59.52, tie: 2.69, lose: 37.79, actionEVs: [{ action: "bet4x", ev: 0.6666, standardError: 0.0135 }, { action: "bet3x", ev: 0.4494, standardError: 0.0114 }, { action: "check", ev: 0.213, standardError: 0.0084 }] },
+  "A8s": { win: 60.59, tie: 2.91, lose: 36.51, actionEVs: [{ action: "bet4x", ev: 0.8687, standardError: 0.0145 }, { action: "bet3x", ev: 0.6279, standardError: 0.0123 }, { action: "check", ev: 0.3772, standardError: 0.0094 }] },
+  "A8o": { win: 58.42, tie: 3.04, lose: 38.53, actionEVs: [{ action: "bet4x", ev: 0.5714, standardError: 0.0135 }, { action: "bet3x", ev: 0.3726, standardError: 0.0114 }, { action: "check", ev: 0.1649, standardError: 0.0085 }] },
+  "A7s": { win: 59.4, tie: 3.21, lose: 37.39, actionEVs: [{ action: "bet4x", ev: 0.7609, standardError: 0.0145 }, { action: "bet3x", ev: 0.5409, standardError: 0.0123 }, { action: "check", ev: 0.3213, standardError: 0.0093 }] },
+  "A7o": { win: 57.11, tie: 3.37, lose: 39.52, actionEVs: [{ action: "bet4x", ev: 0.4512, standardError: 0.0134 }, { action: "bet3x", ev: 0.2753, standardError: 0.0113 }, { action: "check", ev: 0.1018, standardError: 0.0083 }] },
+  "A6s": { win: 58.21, tie: 3.45, lose: 38.34, actionEVs: [{ action: "bet4x", ev: 0.6458, standardError: 0.0148 }, { action: "bet3x", ev: 0.4472, standardError: 0.0125 }, { action: "check", ev: 0.2606, standardError: 0.0095 }] },
+  "A6o": { win: 55.9, tie: 3.63, lose: 40.47, actionEVs: [{ action: "bet4x", ev: 0.3331, standardError: 0.0135 }, { action: "bet3x", ev: 0.1789, standardError: 0.0114 }, { action: "check", ev: 0.0415, standardError: 0.0084 }] },
+  "A5s": { win: 58.02, tie: 3.72, lose: 38.26, actionEVs: [{ action: "bet4x", ev: 0.6841, standardError: 0.0164 }, { action: "bet3x", ev: 0.4865, standardError: 0.0143 }, { action: "check", ev: 0.3003, standardError: 0.0116 }] },
+  "A5o": { win: 55.72, tie: 3.9, lose: 40.38, actionEVs: [{ action: "bet4x", ev: 0.345, standardError: 0.0139 }, { action: "bet3x", ev: 0.1916, standardError: 0.0118 }, { action: "check", ev: 0.0545, standardError: 0.0087 }] },
+  "A4s": { win: 57.04, tie: 3.8, lose: 39.17, actionEVs: [{ action: "bet4x", ev: 0.5597, standardError: 0.0156 }, { action: "bet3x", ev: 0.381, standardError: 0.0134 }, { action: "check", ev: 0.2266, standardError: 0.0104 }] },
+  "A4o": { win: 54.62, tie: 4.01, lose: 41.38, actionEVs: [{ action: "bet4x", ev: 0.2277, standardError: 0.014 }, { action: "bet3x", ev: 0.0953, standardError: 0.0118 }, { action: "check", ev: -0.0068, standardError: 0.0086 }] },
+  "A3s": { win: 56.32, tie: 3.76, lose: 39.92, actionEVs: [{ action: "bet4x", ev: 0.4863, standardError: 0.0162 }, { action: "bet3x", ev: 0.3223, standardError: 0.014 }, { action: "check", ev: 0.1939, standardError: 0.0111 }] },
+  "A3o": { win: 53.82, tie: 3.98, lose: 42.2, actionEVs: [{ action: "bet4x", ev: 0.1322, standardError: 0.014 }, { action: "bet3x", ev: 0.0161, standardError: 0.0118 }, { action: "check", ev: -0.0554, standardError: 0.0085 }] },
+  "A2s": { win: 55.43, tie: 3.78, lose: 40.79, actionEVs: [{ action: "bet4x", ev: 0.3834, standardError: 0.0161 }, { action: "bet3x", ev: 0.237, standardError: 0.0139 }, { action: "check", ev: 0.1367, standardError: 0.0109 }] },
+  "A2o": { win: 52.92, tie: 3.99, lose: 43.1, actionEVs: [{ action: "bet4x", ev: 0.0302, standardError: 0.0139 }, { action: "bet3x", ev: -0.068, standardError: 0.0117 }, { action: "check", ev: -0.1091, standardError: 0.0084 }] },
+  "KK": { win: 82.16, tie: 0.56, lose: 17.27, actionEVs: [{ action: "bet4x", ev: 3.3061, standardError: 0.0199 }, { action: "bet3x", ev: 2.6572, standardError: 0.0194 }, { action: "check", ev: 2.0083, standardError: 0.019 }] },
+  "KQs": { win: 62.53, tie: 1.99, lose: 35.48, actionEVs: [{ action: "bet4x", ev: 1.4605, standardError: 0.0699 }, { action: "bet3x", ev: 1.1901, standardError: 0.0693 }, { action: "check", ev: 0.928, standardError: 0.0685 }] },
+  "KQo": { win: 60.43, tie: 2.08, lose: 37.49, actionEVs: [{ action: "bet4x", ev: 0.778, standardError: 0.0194 }, { action: "bet3x", ev: 0.5487, standardError: 0.0175 }, { action: "check", ev: 0.3309, standardError: 0.0149 }] },
+  "KJs": { win: 61.66, tie: 2.15, lose: 36.2, actionEVs: [{ action: "bet4x", ev: 1.2233, standardError: 0.0549 }, { action: "bet3x", ev: 0.9687, standardError: 0.0542 }, { action: "check", ev: 0.7271, standardError: 0.0533 }] },
+  "KJo": { win: 59.6, tie: 2.24, lose: 38.15, actionEVs: [{ action: "bet4x", ev: 0.688, standardError: 0.0151 }, { action: "bet3x", ev: 0.4735, standardError: 0.0126 }, { action: "check", ev: 0.2771, standardError: 0.0088 }] },
+  "K10s": { win: 60.61, tie: 2.44, lose: 36.95, actionEVs: [{ action: "bet4x", ev: 1.0932, standardError: 0.0521 }, { action: "bet3x", ev: 0.8566, standardError: 0.0513 }, { action: "check", ev: 0.6357, standardError: 0.0504 }] },
+  "K10o": { win: 58.53, tie: 2.51, lose: 38.96, actionEVs: [{ action: "bet4x", ev: 0.5897, standardError: 0.015 }, { action: "bet3x", ev: 0.394, standardError: 0.0126 }, { action: "check", ev: 0.2199, standardError: 0.0088 }] },
+  "K9s": { win: 58.69, tie: 2.75, lose: 38.56, actionEVs: [{ action: "bet4x", ev: 0.6981, standardError: 0.0201 }, { action: "bet3x", ev: 0.4968, standardError: 0.0183 }, { action: "check", ev: 0.3305, standardError: 0.016 }] },
+  "K9o": { win: 56.5, tie: 2.84, lose: 40.66, actionEVs: [{ action: "bet4x", ev: 0.3861, standardError: 0.019 }, { action: "bet3x", ev: 0.2278, standardError: 0.0172 }, { action: "check", ev: 0.1124, standardError: 0.0149 }] },
+  "K8s": { win: 56.94, tie: 3.09, lose: 39.97, actionEVs: [{ action: "bet4x", ev: 0.5032, standardError: 0.0195 }, { action: "bet3x", ev: 0.3335, standardError: 0.0177 }, { action: "check", ev: 0.2126, standardError: 0.0154 }] },
+  "K8o": { win: 54.61, tie: 3.23, lose: 42.17, actionEVs: [{ action: "bet4x", ev: 0.1902, standardError: 0.0187 }, { action: "bet3x", ev: 0.0658, standardError: 0.017 }, { action: "check", ev: 0.0028, standardError: 0.0148 }] },
+  "K7s": { win: 55.81, tie: 3.41, lose: 40.78, actionEVs: [{ action: "bet4x", ev: 0.4028, standardError: 0.0195 }, { action: "bet3x", ev: 0.2524, standardError: 0.0176 }, { action: "check", ev: 0.1601, standardError: 0.0153 }] },
+  "K7o": { win: 53.42, tie: 3.58, lose: 43.01, actionEVs: [{ action: "bet4x", ev: 0.0851, standardError: 0.0186 }, { action: "bet3x", ev: -0.019, standardError: 0.0169 }, { action: "check", ev: -0.053, standardError: 0.0147 }] },
+  "K6s": { win: 54.84, tie: 3.69, lose: 41.47, actionEVs: [{ action: "bet4x", ev: 0.3185, standardError: 0.0197 }, { action: "bet3x", ev: 0.1848, standardError: 0.0178 }, { action: "check", ev: 0.1177, standardError: 0.0155 }] },
+  "K6o": { win: 52.37, tie: 3.87, lose: 43.76, actionEVs: [{ action: "bet4x", ev: -0.0103, standardError: 0.0187 }, { action: "bet3x", ev: -0.0963, standardError: 0.017 }, { action: "check", ev: -0.1006, standardError: 0.0147 }] },
+  "K5s": { win: 53.81, tie: 3.92, lose: 42.28, actionEVs: [{ action: "bet4x", ev: 0.2213, standardError: 0.0198 }, { action: "bet3x", ev: 0.106, standardError: 0.0179 }, { action: "check", ev: 0.07, standardError: 0.0155 }] },
+  "K5o": { win: 51.27, tie: 4.11, lose: 44.62, actionEVs: [{ action: "bet4x", ev: -0.1121, standardError: 0.0188 }, { action: "bet3x", ev: -0.1786, standardError: 0.0171 }, { action: "check", ev: -0.1494, standardError: 0.0148 }] },
+  "K4s": { win: 52.79, tie: 3.99, lose: 43.22, actionEVs: [{ action: "bet4x", ev: 0.1107, standardError: 0.0197 }, { action: "bet3x", ev: 0.015, standardError: 0.0178 }, { action: "check", ev: 0.0135, standardError: 0.0154 }] },
+  "K4o": { win: 50.18, tie: 4.2, lose: 45.62, actionEVs: [{ action: "bet4x", ev: -0.2306, standardError: 0.0187 }, { action: "bet3x", ev: -0.2762, standardError: 0.017 }, { action: "check", ev: -0.2086, standardError: 0.0147 }] },
+  "K3s": { win: 52.02, tie: 3.99, lose: 43.99, actionEVs: [{ action: "bet4x", ev: 0.0193, standardError: 0.0197 }, { action: "bet3x", ev: -0.061, standardError: 0.0178 }, { action: "check", ev: -0.0337, standardError: 0.0153 }] },
+  "K3o": { win: 49.29, tie: 4.2, lose: 46.51, actionEVs: [{ action: "bet4x", ev: -0.3314, standardError: 0.0188 }, { action: "bet3x", ev: -0.3592, standardError: 0.0171 }, { action: "check", ev: -0.2573, standardError: 0.0147 }] },
+  "K2s": { win: 51.16, tie: 3.98, lose: 44.86, actionEVs: [{ action: "bet4x", ev: -0.0773, standardError: 0.0198 }, { action: "bet3x", ev: -0.1404, standardError: 0.0179 }, { action: "check", ev: -0.0839, standardError: 0.0154 }] },
+  "K2o": { win: 48.44, tie: 4.21, lose: 47.35, actionEVs: [{ action: "bet4x", ev: -0.4296, standardError: 0.0187 }, { action: "bet3x", ev: -0.4406, standardError: 0.0169 }, { action: "check", ev: -0.3088, standardError: 0.0146 }] },
+  "QQ": { win: 79.58, tie: 0.61, lose: 19.81, actionEVs: [{ action: "bet4x", ev: 3.0035, standardError: 0.0161 }, { action: "bet3x", ev: 2.4058, standardError: 0.0155 }, { action: "check", ev: 1.808, standardError: 0.0149 }] },
+  "QJs": { win: 59.07, tie: 2.4, lose: 38.53, actionEVs: [{ action: "bet4x", ev: 0.9975, standardError: 0.0544 }, { action: "bet3x", ev: 0.7921, standardError: 0.0535 }, { action: "check", ev: 0.6511, standardError: 0.0524 }] },
+  "QJo": { win: 56.82, tie: 2.49, lose: 40.69, actionEVs: [{ action: "bet4x", ev: 0.4452, standardError: 0.0234 }, { action: "bet3x", ev: 0.2838, standardError: 0.0216 }, { action: "check", ev: 0.1988, standardError: 0.0192 }] },
+  "Q10s": { win: 58.04, tie: 2.63, lose: 39.33, actionEVs: [{ action: "bet4x", ev: 0.8743, standardError: 0.0516 }, { action: "bet3x", ev: 0.6872, standardError: 0.0507 }, { action: "check", ev: 0.5669, standardError: 0.0496 }] },
+  "Q10o": { win: 55.75, tie: 2.72, lose: 41.53, actionEVs: [{ action: "bet4x", ev: 0.3215, standardError: 0.016 }, { action: "bet3x", ev: 0.1793, standardError: 0.0133 }, { action: "check", ev: 0.1182, standardError: 0.0091 }] },
+  "Q9s": { win: 56.2, tie: 2.93, lose: 40.88, actionEVs: [{ action: "bet4x", ev: 0.4908, standardError: 0.0187 }, { action: "bet3x", ev: 0.3376, standardError: 0.0164 }, { action: "check", ev: 0.2677, standardError: 0.0132 }] },
+  "Q9o": { win: 53.83, tie: 3.03, lose: 43.14, actionEVs: [{ action: "bet4x", ev: 0.1204, standardError: 0.0157 }, { action: "bet3x", ev: 0.0136, standardError: 0.0132 }, { action: "check", ev: 0.0062, standardError: 0.0092 }] },
+  "Q8s": { win: 54.47, tie: 3.22, lose: 42.31, actionEVs: [{ action: "bet4x", ev: 0.2748, standardError: 0.0172 }, { action: "bet3x", ev: 0.1532, standardError: 0.0148 }, { action: "check", ev: 0.1303, standardError: 0.0113 }] },
+  "Q8o": { win: 51.94, tie: 3.38, lose: 44.68, actionEVs: [{ action: "bet4x", ev: -0.0781, standardError: 0.0153 }, { action: "bet3x", ev: -0.1507, standardError: 0.0129 }, { action: "check", ev: -0.105, standardError: 0.009 }] },
+  "Q7s": { win: 52.33, tie: 3.57, lose: 44.1, actionEVs: [{ action: "bet4x", ev: 0.0269, standardError: 0.016 }, { action: "bet3x", ev: -0.0555, standardError: 0.0134 }, { action: "check", ev: -0.019, standardError: 0.0097 }] },
+  "Q7o": { win: 49.72, tie: 3.75, lose: 46.52, actionEVs: [{ action: "bet4x", ev: -0.3112, standardError: 0.0149 }, { action: "bet3x", ev: -0.3432, standardError: 0.0125 }, { action: "check", ev: -0.2356, standardError: 0.0086 }] },
+  "Q6s": { win: 51.66, tie: 3.88, lose: 44.47, actionEVs: [{ action: "bet4x", ev: -0.0186, standardError: 0.0163 }, { action: "bet3x", ev: -0.0905, standardError: 0.0137 }, { action: "check", ev: -0.0405, standardError: 0.01 }] },
+  "Q6o": { win: 48.95, tie: 4.07, lose: 46.98, actionEVs: [{ action: "bet4x", ev: -0.3719, standardError: 0.0149 }, { action: "bet3x", ev: -0.3916, standardError: 0.0125 }, { action: "check", ev: -0.2659, standardError: 0.0087 }] },
+  "Q5s": { win: 50.61, tie: 4.09, lose: 45.31, actionEVs: [{ action: "bet4x", ev: -0.119, standardError: 0.0163 }, { action: "bet3x", ev: -0.172, standardError: 0.0138 }, { action: "check", ev: -0.0913, standardError: 0.0101 }] },
+  "Q5o": { win: 47.86, tie: 4.29, lose: 47.84, actionEVs: [{ action: "bet4x", ev: -0.4734, standardError: 0.015 }, { action: "bet3x", ev: -0.4736, standardError: 0.0126 }, { action: "check", ev: -0.3152, standardError: 0.0088 }] },
+  "Q4s": { win: 49.59, tie: 4.17, lose: 46.24, actionEVs: [{ action: "bet4x", ev: -0.2301, standardError: 0.0163 }, { action: "bet3x", ev: -0.2636, standardError: 0.0137 }, { action: "check", ev: -0.1472, standardError: 0.0099 }] },
+  "Q4o": { win: 46.71, tie: 4.4, lose: 48.9, actionEVs: [{ action: "bet4x", ev: -0.5999, standardError: 0.0148 }, { action: "bet3x", ev: -0.578, standardError: 0.0124 }, { action: "check", ev: -0.3776, standardError: 0.0086 }] },
+  "Q3s": { win: 48.86, tie: 4.17, lose: 46.98, actionEVs: [{ action: "bet4x", ev: -0.316, standardError: 0.0162 }, { action: "bet3x", ev: -0.3348, standardError: 0.0136 }, { action: "check", ev: -0.1912, standardError: 0.0097 }] },
+  "Q3o": { win: 45.86, tie: 4.39, lose: 49.74, actionEVs: [{ action: "bet4x", ev: -0.6937, standardError: 0.0149 }, { action: "bet3x", ev: -0.6549, standardError: 0.0125 }, { action: "check", ev: -0.4217, standardError: 0.0087 }] },
+  "Q2s": { win: 47.99, tie: 4.16, lose: 47.85, actionEVs: [{ action: "bet4x", ev: -0.4127, standardError: 0.0163 }, { action: "bet3x", ev: -0.4141, standardError: 0.0137 }, { action: "check", ev: -0.238, standardError: 0.0099 }] },
+  "Q2o": { win: 44.93, tie: 4.4, lose: 50.67, actionEVs: [{ action: "bet4x", ev: -0.8035, standardError: 0.0147 }, { action: "bet3x", ev: -0.7461, standardError: 0.0123 }, { action: "check", ev: -0.4757, standardError: 0.0084 }] },
+  "JJ": { win: 77.16, tie: 0.62, lose: 22.22, actionEVs: [{ action: "bet4x", ev: 2.7545, standardError: 0.0204 }, { action: "bet3x", ev: 2.205, standardError: 0.0198 }, { action: "check", ev: 1.6556, standardError: 0.0193 }] },
+  "J10s": { win: 56.2, tie: 2.78, lose: 41.03, actionEVs: [{ action: "bet4x", ev: 0.7132, standardError: 0.052 }, { action: "bet3x", ev: 0.5615, standardError: 0.051 }, { action: "check", ev: 0.5226, standardError: 0.0497 }] },
+  "J10o": { win: 53.73, tie: 2.89, lose: 43.37, actionEVs: [{ action: "bet4x", ev: 0.1567, standardError: 0.021 }, { action: "bet3x", ev: 0.0531, standardError: 0.0188 }, { action: "check", ev: 0.0842, standardError: 0.0155 }] },
+  "J9s": { win: 54.28, tie: 3.1, lose: 42.62, actionEVs: [{ action: "bet4x", ev: 0.3404, standardError: 0.0233 }, { action: "bet3x", ev: 0.2238, standardError: 0.0212 }, { action: "check", ev: 0.2369, standardError: 0.0183 }] },
+  "J9o": { win: 51.76, tie: 3.23, lose: 45.01, actionEVs: [{ action: "bet4x", ev: -0.0506, standardError: 0.0207 }, { action: "bet3x", ev: -0.1181, standardError: 0.0185 }, { action: "check", ev: -0.0299, standardError: 0.0154 }] },
+  "J8s": { win: 52.36, tie: 3.41, lose: 44.23, actionEVs: [{ action: "bet4x", ev: 0.1077, standardError: 0.0223 }, { action: "bet3x", ev: 0.0264, standardError: 0.0201 }, { action: "check", ev: 0.0937, standardError: 0.0172 }] },
+  "J8o": { win: 49.69, tie: 3.56, lose: 46.75, actionEVs: [{ action: "bet4x", ev: -0.2758, standardError: 0.0202 }, { action: "bet3x", ev: -0.3052, standardError: 0.0181 }, { action: "check", ev: -0.1567, standardError: 0.0151 }] },
+  "J7s": { win: 50.38, tie: 3.73, lose: 45.89, actionEVs: [{ action: "bet4x", ev: -0.1188, standardError: 0.0215 }, { action: "bet3x", ev: -0.1638, standardError: 0.0193 }, { action: "check", ev: -0.042, standardError: 0.0165 }] },
+  "J7o": { win: 47.68, tie: 3.91, lose: 48.42, actionEVs: [{ action: "bet4x", ev: -0.4845, standardError: 0.0199 }, { action: "bet3x", ev: -0.4771, standardError: 0.0179 }, { action: "check", ev: -0.2723, standardError: 0.015 }] },
+  "J6s": { win: 48.51, tie: 4.05, lose: 47.44, actionEVs: [{ action: "bet4x", ev: -0.3296, standardError: 0.0207 }, { action: "bet3x", ev: -0.3403, standardError: 0.0186 }, { action: "check", ev: -0.1663, standardError: 0.0157 }] },
+  "J6o": { win: 45.68, tie: 4.23, lose: 50.09, actionEVs: [{ action: "bet4x", ev: -0.6933, standardError: 0.0197 }, { action: "bet3x", ev: -0.6491, standardError: 0.0177 }, { action: "check", ev: -0.3859, standardError: 0.0149 }] },
+  "J5s": { win: 47.81, tie: 4.28, lose: 47.91, actionEVs: [{ action: "bet4x", ev: -0.3883, standardError: 0.0207 }, { action: "bet3x", ev: -0.3873, standardError: 0.0186 }, { action: "check", ev: -0.1954, standardError: 0.0157 }] },
+  "J5o": { win: 45, tie: 4.49, lose: 50.52, actionEVs: [{ action: "bet4x", ev: -0.7469, standardError: 0.0197 }, { action: "bet3x", ev: -0.6917, standardError: 0.0178 }, { action: "check", ev: -0.4125, standardError: 0.015 }] },
+  "J4s": { win: 46.68, tie: 4.36, lose: 48.96, actionEVs: [{ action: "bet4x", ev: -0.5102, standardError: 0.0207 }, { action: "bet3x", ev: -0.4873, standardError: 0.0186 }, { action: "check", ev: -0.2509, standardError: 0.0156 }] },
+  "J4o": { win: 43.71, tie: 4.6, lose: 51.69, actionEVs: [{ action: "bet4x", ev: -0.8849, standardError: 0.0196 }, { action: "bet3x", ev: -0.8052, standardError: 0.0177 }, { action: "check", ev: -0.4747, standardError: 0.0148 }] },
+  "J3s": { win: 45.89, tie: 4.36, lose: 49.75, actionEVs: [{ action: "bet4x", ev: -0.6029, standardError: 0.0206 }, { action: "bet3x", ev: -0.5643, standardError: 0.0185 }, { action: "check", ev: -0.3001, standardError: 0.0155 }] },
+  "J3o": { win: 42.83, tie: 4.59, lose: 52.58, actionEVs: [{ action: "bet4x", ev: -0.9844, standardError: 0.0196 }, { action: "bet3x", ev: -0.8869, standardError: 0.0177 }, { action: "check", ev: -0.5221, standardError: 0.0148 }] },
+  "J2s": { win: 45.13, tie: 4.36, lose: 50.52, actionEVs: [{ action: "bet4x", ev: -0.6862, standardError: 0.0207 }, { action: "bet3x", ev: -0.6323, standardError: 0.0186 }, { action: "check", ev: -0.3397, standardError: 0.0156 }] },
+  "J2o": { win: 41.94, tie: 4.61, lose: 53.45, actionEVs: [{ action: "bet4x", ev: -1.0866, standardError: 0.0194 }, { action: "bet3x", ev: -0.9716, standardError: 0.0175 }, { action: "check", ev: -0.571, standardError: 0.0147 }] },
+  "109s": { win: 52.44, tie: 3.34, lose: 44.22, actionEVs: [{ action: "bet4x", ev: 0.2048, standardError: 0.0249 }, { action: "bet3x", ev: 0.1227, standardError: 0.0227 }, { action: "check", ev: 0.2175, standardError: 0.0196 }] },
+  "109o": { win: 49.81, tie: 3.46, lose: 46.73, actionEVs: [{ action: "bet4x", ev: -0.2266, standardError: 0.0215 }, { action: "bet3x", ev: -0.2574, standardError: 0.0192 }, { action: "check", ev: -0.0782, standardError: 0.0156 }] },
+  "108s": { win: 50.47, tie: 3.67, lose: 45.85, actionEVs: [{ action: "bet4x", ev: -0.0236, standardError: 0.0241 }, { action: "bet3x", ev: -0.0698, standardError: 0.0219 }, { action: "check", ev: 0.083, standardError: 0.0188 }] },
+  "108o": { win: 47.71, tie: 3.83, lose: 48.47, actionEVs: [{ action: "bet4x", ev: -0.4475, standardError: 0.0212 }, { action: "bet3x", ev: -0.4399, standardError: 0.0189 }, { action: "check", ev: -0.1967, standardError: 0.0154 }] },
+  "107s": { win: 48.63, tie: 3.99, lose: 47.38, actionEVs: [{ action: "bet4x", ev: -0.2527, standardError: 0.0228 }, { action: "bet3x", ev: -0.2652, standardError: 0.0206 }, { action: "check", ev: -0.0615, standardError: 0.0174 }] },
+  "107o": { win: 45.81, tie: 4.17, lose: 50.02, actionEVs: [{ action: "bet4x", ev: -0.6462, standardError: 0.0208 }, { action: "bet3x", ev: -0.6041, standardError: 0.0186 }, { action: "check", ev: -0.3069, standardError: 0.0153 }] },
+  "106s": { win: 46.81, tie: 4.28, lose: 48.91, actionEVs: [{ action: "bet4x", ev: -0.4549, standardError: 0.0222 }, { action: "bet3x", ev: -0.4338, standardError: 0.02 }, { action: "check", ev: -0.1762, standardError: 0.0168 }] },
+  "106o": { win: 43.84, tie: 4.48, lose: 51.68, actionEVs: [{ action: "bet4x", ev: -0.8527, standardError: 0.0204 }, { action: "bet3x", ev: -0.7742, standardError: 0.0183 }, { action: "check", ev: -0.4157, standardError: 0.0151 }] },
+  "105s": { win: 44.85, tie: 4.53, lose: 50.62, actionEVs: [{ action: "bet4x", ev: -0.6863, standardError: 0.0212 }, { action: "bet3x", ev: -0.6287, standardError: 0.019 }, { action: "check", ev: -0.3138, standardError: 0.0158 }] },
+  "105o": { win: 41.8, tie: 4.75, lose: 53.44, actionEVs: [{ action: "bet4x", ev: -1.0661, standardError: 0.0202 }, { action: "bet3x", ev: -0.9497, standardError: 0.0182 }, { action: "check", ev: -0.53, standardError: 0.0151 }] },
+  "104s": { win: 44.01, tie: 4.62, lose: 51.37, actionEVs: [{ action: "bet4x", ev: -0.7712, standardError: 0.0213 }, { action: "bet3x", ev: -0.6976, standardError: 0.019 }, { action: "check", ev: -0.3472, standardError: 0.0158 }] },
+  "104o": { win: 40.85, tie: 4.87, lose: 54.28, actionEVs: [{ action: "bet4x", ev: -1.1655, standardError: 0.0201 }, { action: "bet3x", ev: -1.0312, standardError: 0.0181 }, { action: "check", ev: -0.571, standardError: 0.015 }] },
+  "103s": { win: 43.27, tie: 4.61, lose: 52.11, actionEVs: [{ action: "bet4x", ev: -0.8595, standardError: 0.0212 }, { action: "bet3x", ev: -0.7711, standardError: 0.0189 }, { action: "check", ev: -0.3923, standardError: 0.0157 }] },
+  "103o": { win: 39.99, tie: 4.86, lose: 55.15, actionEVs: [{ action: "bet4x", ev: -1.2636, standardError: 0.0201 }, { action: "bet3x", ev: -1.112, standardError: 0.0181 }, { action: "check", ev: -0.6157, standardError: 0.015 }] },
+  "102s": { win: 42.53, tie: 4.62, lose: 52.85, actionEVs: [{ action: "bet4x", ev: -0.9416, standardError: 0.0212 }, { action: "bet3x", ev: -0.8384, standardError: 0.019 }, { action: "check", ev: -0.4347, standardError: 0.0158 }] },
+  "102o": { win: 39.16, tie: 4.88, lose: 55.97, actionEVs: [{ action: "bet4x", ev: -1.3621, standardError: 0.0199 }, { action: "bet3x", ev: -1.194, standardError: 0.0179 }, { action: "check", ev: -0.666, standardError: 0.0148 }] },
+  "98s": { win: 48.92, tie: 3.86, lose: 47.22, actionEVs: [{ action: "bet4x", ev: -0.1464, standardError: 0.0226 }, { action: "bet3x", ev: -0.1634, standardError: 0.02 }, { action: "check", ev: 0.0632, standardError: 0.0157 }] },
+  "98o": { win: 46, tie: 4.03, lose: 49.98, actionEVs: [{ action: "bet4x", ev: -0.6243, standardError: 0.018 }, { action: "bet3x", ev: -0.5845, standardError: 0.015 }, { action: "check", ev: -0.2462, standardError: 0.0096 }] },
+  "97s": { win: 47.11, tie: 4.26, lose: 48.63, actionEVs: [{ action: "bet4x", ev: -0.365, standardError: 0.0212 }, { action: "bet3x", ev: -0.3498, standardError: 0.0185 }, { action: "check", ev: -0.0654, standardError: 0.0139 }] },
+  "97o": { win: 44.16, tie: 4.44, lose: 51.4, actionEVs: [{ action: "bet4x", ev: -0.8015, standardError: 0.0179 }, { action: "bet3x", ev: -0.7292, standardError: 0.015 }, { action: "check", ev: -0.3332, standardError: 0.0098 }] },
+  "96s": { win: 45.43, tie: 4.54, lose: 50.03, actionEVs: [{ action: "bet4x", ev: -0.5647, standardError: 0.0202 }, { action: "bet3x", ev: -0.5188, standardError: 0.0174 }, { action: "check", ev: -0.1845, standardError: 0.0127 }] },
+  "96o": { win: 42.29, tie: 4.75, lose: 52.96, actionEVs: [{ action: "bet4x", ev: -1.0022, standardError: 0.0173 }, { action: "bet3x", ev: -0.8955, standardError: 0.0145 }, { action: "check", ev: -0.4422, standardError: 0.0093 }] },
+  "95s": { win: 43.24, tie: 4.77, lose: 51.98, actionEVs: [{ action: "bet4x", ev: -0.8147, standardError: 0.0194 }, { action: "bet3x", ev: -0.7273, standardError: 0.0166 }, { action: "check", ev: -0.3218, standardError: 0.0119 }] },
+  "95o": { win: 40.01, tie: 5.01, lose: 54.98, actionEVs: [{ action: "bet4x", ev: -1.2421, standardError: 0.0171 }, { action: "bet3x", ev: -1.0924, standardError: 0.0144 }, { action: "check", ev: -0.5656, standardError: 0.0095 }] },
+  "94s": { win: 41.29, tie: 4.88, lose: 53.83, actionEVs: [{ action: "bet4x", ev: -1.0628, standardError: 0.018 }, { action: "bet3x", ev: -0.9374, standardError: 0.0151 }, { action: "check", ev: -0.4586, standardError: 0.0098 }] },
+  "94o": { win: 37.88, tie: 5.15, lose: 56.98, actionEVs: [{ action: "bet4x", ev: -1.4826, standardError: 0.0165 }, { action: "bet3x", ev: -1.2916, standardError: 0.0138 }, { action: "check", ev: -0.6842, standardError: 0.009 }] },
+  "93s": { win: 40.78, tie: 4.9, lose: 54.32, actionEVs: [{ action: "bet4x", ev: -1.1204, standardError: 0.0179 }, { action: "bet3x", ev: -0.985, standardError: 0.015 }, { action: "check", ev: -0.4878, standardError: 0.0097 }] },
+  "93o": { win: 37.27, tie: 5.17, lose: 57.56, actionEVs: [{ action: "bet4x", ev: -1.5499, standardError: 0.0165 }, { action: "bet3x", ev: -1.3469, standardError: 0.0138 }, { action: "check", ev: -0.7182, standardError: 0.009 }] },
+  "92s": { win: 40.05, tie: 4.89, lose: 55.06, actionEVs: [{ action: "bet4x", ev: -1.1984, standardError: 0.018 }, { action: "bet3x", ev: -1.0483, standardError: 0.0151 }, { action: "check", ev: -0.5226, standardError: 0.0099 }] },
+  "92o": { win: 36.43, tie: 5.16, lose: 58.42, actionEVs: [{ action: "bet4x", ev: -1.6461, standardError: 0.0163 }, { action: "bet3x", ev: -1.4262, standardError: 0.0136 }, { action: "check", ev: -0.7624, standardError: 0.0088 }] },
+  "87s": { win: 45.79, tie: 4.51, lose: 49.71, actionEVs: [{ action: "bet4x", ev: -0.4643, standardError: 0.0224 }, { action: "bet3x", ev: -0.4251, standardError: 0.0196 }, { action: "check", ev: -0.0501, standardError: 0.0148 }] },
+  "87o": { win: 42.77, tie: 4.69, lose: 52.54, actionEVs: [{ action: "bet4x", ev: -0.9208, standardError: 0.0187 }, { action: "bet3x", ev: -0.8232, standardError: 0.0156 }, { action: "check", ev: -0.3312, standardError: 0.01 }] },
+  "86s": { win: 44.21, tie: 4.81, lose: 50.98, actionEVs: [{ action: "bet4x", ev: -0.6459, standardError: 0.0216 }, { action: "bet3x", ev: -0.5782, standardError: 0.0188 }, { action: "check", ev: -0.1558, standardError: 0.0138 }] },
+  "86o": { win: 40.94, tie: 5.04, lose: 54.02, actionEVs: [{ action: "bet4x", ev: -1.1168, standardError: 0.0181 }, { action: "bet3x", ev: -0.9859, standardError: 0.0151 }, { action: "check", ev: -0.4366, standardError: 0.0094 }] },
+  "85s": { win: 42.27, tie: 5.05, lose: 52.68, actionEVs: [{ action: "bet4x", ev: -0.8835, standardError: 0.0203 }, { action: "bet3x", ev: -0.7793, standardError: 0.0175 }, { action: "check", ev: -0.2963, standardError: 0.0124 }] },
+  "85o": { win: 38.9, tie: 5.29, lose: 55.8, actionEVs: [{ action: "bet4x", ev: -1.3275, standardError: 0.018 }, { action: "bet3x", ev: -1.1585, standardError: 0.0151 }, { action: "check", ev: -0.5458, standardError: 0.0098 }] },
+  "84s": { win: 40.19, tie: 5.17, lose: 54.64, actionEVs: [{ action: "bet4x", ev: -1.1188, standardError: 0.0199 }, { action: "bet3x", ev: -0.9743, standardError: 0.0171 }, { action: "check", ev: -0.4142, standardError: 0.0119 }] },
+  "84o": { win: 36.73, tie: 5.44, lose: 57.83, actionEVs: [{ action: "bet4x", ev: -1.5735, standardError: 0.0173 }, { action: "bet3x", ev: -1.3625, standardError: 0.0145 }, { action: "check", ev: -0.6686, standardError: 0.0092 }] },
+  "83s": { win: 38.43, tie: 5.14, lose: 56.43, actionEVs: [{ action: "bet4x", ev: -1.359, standardError: 0.0183 }, { action: "bet3x", ev: -1.1789, standardError: 0.0153 }, { action: "check", ev: -0.5514, standardError: 0.0098 }] },
+  "83o": { win: 34.8, tie: 5.43, lose: 59.76, actionEVs: [{ action: "bet4x", ev: -1.7978, standardError: 0.0168 }, { action: "bet3x", ev: -1.5482, standardError: 0.0141 }, { action: "check", ev: -0.7816, standardError: 0.009 }] },
+  "82s": { win: 37.86, tie: 5.16, lose: 56.98, actionEVs: [{ action: "bet4x", ev: -1.4164, standardError: 0.0184 }, { action: "bet3x", ev: -1.2251, standardError: 0.0154 }, { action: "check", ev: -0.5787, standardError: 0.0099 }] },
+  "82o": { win: 34.18, tie: 5.44, lose: 60.38, actionEVs: [{ action: "bet4x", ev: -1.8681, standardError: 0.0166 }, { action: "bet3x", ev: -1.606, standardError: 0.0139 }, { action: "check", ev: -0.8161, standardError: 0.0087 }] },
+  "76s": { win: 43.25, tie: 5.03, lose: 51.72, actionEVs: [{ action: "bet4x", ev: -0.7046, standardError: 0.0227 }, { action: "bet3x", ev: -0.6199, standardError: 0.0198 }, { action: "check", ev: -0.1237, standardError: 0.0146 }] },
+  "76o": { win: 39.99, tie: 5.28, lose: 54.73, actionEVs: [{ action: "bet4x", ev: -1.1836, standardError: 0.0189 }, { action: "bet3x", ev: -1.0362, standardError: 0.0158 }, { action: "check", ev: -0.4108, standardError: 0.0098 }] },
+  "75s": { win: 41.22, tie: 5.34, lose: 53.44, actionEVs: [{ action: "bet4x", ev: -0.932, standardError: 0.022 }, { action: "bet3x", ev: -0.8098, standardError: 0.0191 }, { action: "check", ev: -0.2462, standardError: 0.0139 }] },
+  "75o": { win: 37.76, tie: 5.6, lose: 56.64, actionEVs: [{ action: "bet4x", ev: -1.4224, standardError: 0.0184 }, { action: "bet3x", ev: -1.2337, standardError: 0.0153 }, { action: "check", ev: -0.5335, standardError: 0.0094 }] },
+  "74s": { win: 39.25, tie: 5.44, lose: 55.3, actionEVs: [{ action: "bet4x", ev: -1.175, standardError: 0.021 }, { action: "bet3x", ev: -1.0145, standardError: 0.0181 }, { action: "check", ev: -0.3811, standardError: 0.0127 }] },
+  "74o": { win: 35.7, tie: 5.73, lose: 58.57, actionEVs: [{ action: "bet4x", ev: -1.6521, standardError: 0.018 }, { action: "bet3x", ev: -1.4234, standardError: 0.015 }, { action: "check", ev: -0.6499, standardError: 0.0092 }] },
+  "73s": { win: 37.31, tie: 5.46, lose: 57.23, actionEVs: [{ action: "bet4x", ev: -1.4183, standardError: 0.02 }, { action: "bet3x", ev: -1.219, standardError: 0.0171 }, { action: "check", ev: -0.5095, standardError: 0.0115 }] },
+  "73o": { win: 33.61, tie: 5.76, lose: 60.63, actionEVs: [{ action: "bet4x", ev: -1.8931, standardError: 0.0174 }, { action: "bet3x", ev: -1.6229, standardError: 0.0145 }, { action: "check", ev: -0.7687, standardError: 0.0089 }] },
+  "72s": { win: 35.56, tie: 5.43, lose: 59.01, actionEVs: [{ action: "bet4x", ev: -1.6502, standardError: 0.0186 }, { action: "bet3x", ev: -1.4156, standardError: 0.0155 }, { action: "check", ev: -0.6428, standardError: 0.0096 }] },
+  "72o": { win: 31.77, tie: 5.73, lose: 62.51, actionEVs: [{ action: "bet4x", ev: -2.1104, standardError: 0.0168 }, { action: "bet3x", ev: -1.803, standardError: 0.014 }, { action: "check", ev: -0.8795, standardError: 0.0085 }] },
+  "65s": { win: 40.58, tie: 5.49, lose: 53.93, actionEVs: [{ action: "bet4x", ev: -0.964, standardError: 0.023 }, { action: "bet3x", ev: -0.8306, standardError: 0.0202 }, { action: "check", ev: -0.2199, standardError: 0.0149 }] },
+  "65o": { win: 37.13, tie: 5.77, lose: 57.1, actionEVs: [{ action: "bet4x", ev: -1.4696, standardError: 0.0189 }, { action: "bet3x", ev: -1.2699, standardError: 0.0158 }, { action: "check", ev: -0.5216, standardError: 0.0096 }] },
+  "64s": { win: 38.67, tie: 5.65, lose: 55.68, actionEVs: [{ action: "bet4x", ev: -1.2113, standardError: 0.0216 }, { action: "bet3x", ev: -1.0412, standardError: 0.0186 }, { action: "check", ev: -0.3611, standardError: 0.013 }] },
+  "64o": { win: 35.13, tie: 5.96, lose: 58.92, actionEVs: [{ action: "bet4x", ev: -1.6857, standardError: 0.0187 }, { action: "bet3x", ev: -1.4477, standardError: 0.0156 }, { action: "check", ev: -0.6261, standardError: 0.0096 }] },
+  "63s": { win: 36.93, tie: 5.66, lose: 57.41, actionEVs: [{ action: "bet4x", ev: -1.4111, standardError: 0.0214 }, { action: "bet3x", ev: -1.2064, standardError: 0.0185 }, { action: "check", ev: -0.4598, standardError: 0.0131 }] },
+  "63o": { win: 33.24, tie: 5.98, lose: 60.79, actionEVs: [{ action: "bet4x", ev: -1.9109, standardError: 0.0179 }, { action: "bet3x", ev: -1.6354, standardError: 0.0149 }, { action: "check", ev: -0.7423, standardError: 0.009 }] },
+  "62s": { win: 34.98, tie: 5.65, lose: 59.36, actionEVs: [{ action: "bet4x", ev: -1.6673, standardError: 0.0199 }, { action: "bet3x", ev: -1.4235, standardError: 0.0169 }, { action: "check", ev: -0.6028, standardError: 0.0112 }] },
+  "62o": { win: 31.2, tie: 5.97, lose: 62.83, actionEVs: [{ action: "bet4x", ev: -2.1463, standardError: 0.0173 }, { action: "bet3x", ev: -1.83, standardError: 0.0144 }, { action: "check", ev: -0.8583, standardError: 0.0087 }] },
+  "54s": { win: 38.7, tie: 5.78, lose: 55.52, actionEVs: [{ action: "bet4x", ev: -1.1258, standardError: 0.024 }, { action: "bet3x", ev: -0.9576, standardError: 0.0212 }, { action: "check", ev: -0.2699, standardError: 0.016 }] },
+  "54o": { win: 35.11, tie: 6.09, lose: 58.8, actionEVs: [{ action: "bet4x", ev: -1.6728, standardError: 0.0189 }, { action: "bet3x", ev: -1.4358, standardError: 0.0157 }, { action: "check", ev: -0.6027, standardError: 0.0093 }] },
+  "53s": { win: 36.74, tie: 5.83, lose: 57.43, actionEVs: [{ action: "bet4x", ev: -1.3831, standardError: 0.0227 }, { action: "bet3x", ev: -1.1762, standardError: 0.0198 }, { action: "check", ev: -0.4115, standardError: 0.0144 }] },
+  "53o": { win: 33.02, tie: 6.16, lose: 60.82, actionEVs: [{ action: "bet4x", ev: -1.9083, standardError: 0.0185 }, { action: "bet3x", ev: -1.6303, standardError: 0.0155 }, { action: "check", ev: -0.716, standardError: 0.0093 }] },
+  "52s": { win: 34.73, tie: 5.86, lose: 59.41, actionEVs: [{ action: "bet4x", ev: -1.6417, standardError: 0.0214 }, { action: "bet3x", ev: -1.3949, standardError: 0.0185 }, { action: "check", ev: -0.5546, standardError: 0.0129 }] },
+  "52o": { win: 30.97, tie: 6.18, lose: 62.85, actionEVs: [{ action: "bet4x", ev: -2.1446, standardError: 0.0179 }, { action: "bet3x", ev: -1.8258, standardError: 0.0149 }, { action: "check", ev: -0.8336, standardError: 0.009 }] },
+  "43s": { win: 35.74, tie: 5.81, lose: 58.44, actionEVs: [{ action: "bet4x", ev: -1.5168, standardError: 0.022 }, { action: "bet3x", ev: -1.2898, standardError: 0.019 }, { action: "check", ev: -0.4795, standardError: 0.0134 }] },
+  "43o": { win: 31.93, tie: 6.13, lose: 61.94, actionEVs: [{ action: "bet4x", ev: -2.036, standardError: 0.0182 }, { action: "bet3x", ev: -1.7359, standardError: 0.0151 }, { action: "check", ev: -0.7715, standardError: 0.0089 }] },
+  "42s": { win: 33.92, tie: 5.83, lose: 60.25, actionEVs: [{ action: "bet4x", ev: -1.7316, standardError: 0.0214 }, { action: "bet3x", ev: -1.4684, standardError: 0.0185 }, { action: "check", ev: -0.5901, standardError: 0.013 }] },
+  "42o": { win: 30.01, tie: 6.16, lose: 63.83, actionEVs: [{ action: "bet4x", ev: -2.2509, standardError: 0.0179 }, { action: "bet3x", ev: -1.9127, standardError: 0.015 }, { action: "check", ev: -0.8758, standardError: 0.009 }] },
+  "32s": { win: 33.06, tie: 5.73, lose: 61.21, actionEVs: [{ action: "bet4x", ev: -1.8364, standardError: 0.0212 }, { action: "bet3x", ev: -1.5549, standardError: 0.0183 }, { action: "check", ev: -0.6372, standardError: 0.0127 }] },
+  "32o": { win: 28.98, tie: 6.07, lose: 64.95, actionEVs: [{ action: "bet4x", ev: -2.3765, standardError: 0.0174 }, { action: "bet3x", ev: -2.0168, standardError: 0.0145 }, { action: "check", ev: -0.9356, standardError: 0.0086 }] },
+};
+
+const NO_QUALIFIER_TABLE: PreflopTable = {
+  "22": { win: 49.31, tie: 1.86, lose: 48.83, actionEVs: [{ action: "bet4x", ev: -0.1254, standardError: 0.0167 }, { action: "bet3x", ev: -0.1302, standardError: 0.0145 }, { action: "check", ev: -0.0377, standardError: 0.0114 }] },
+  "33": { win: 52.71, tie: 1.66, lose: 45.63, actionEVs: [{ action: "bet4x", ev: 0.2401, standardError: 0.0161 }, { action: "bet3x", ev: 0.1694, standardError: 0.0141 }, { action: "check", ev: 0.0986, standardError: 0.012 }] },
+  "44": { win: 56.17, tie: 1.51, lose: 42.32, actionEVs: [{ action: "bet4x", ev: 0.6183, standardError: 0.0155 }, { action: "bet3x", ev: 0.4799, standardError: 0.0135 }, { action: "check", ev: 0.3414, standardError: 0.0116 }] },
+  "55": { win: 59.57, tie: 1.33, lose: 39.1, actionEVs: [{ action: "bet4x", ev: 0.9993, standardError: 0.0153 }, { action: "bet3x", ev: 0.7946, standardError: 0.0135 }, { action: "check", ev: 0.5899, standardError: 0.0117 }] },
+  "66": { win: 62.76, tie: 1.14, lose: 36.11, actionEVs: [{ action: "bet4x", ev: 1.3336, standardError: 0.0143 }, { action: "bet3x", ev: 1.0671, standardError: 0.0127 }, { action: "check", ev: 0.8006, standardError: 0.011 }] },
+  "77": { win: 65.79, tie: 1.04, lose: 33.16, actionEVs: [{ action: "bet4x", ev: 1.6719, standardError: 0.0138 }, { action: "bet3x", ev: 1.3456, standardError: 0.0122 }, { action: "check", ev: 1.0193, standardError: 0.0107 }] },
+  "88": { win: 68.79, tie: 0.88, lose: 30.33, actionEVs: [{ action: "bet4x", ev: 2.0007, standardError: 0.0134 }, { action: "bet3x", ev: 1.6161, standardError: 0.0121 }, { action: "check", ev: 1.2315, standardError: 0.0108 }] },
+  "99": { win: 71.68, tie: 0.81, lose: 27.51, actionEVs: [{ action: "bet4x", ev: 2.3088, standardError: 0.0124 }, { action: "bet3x", ev: 1.8671, standardError: 0.0111 }, { action: "check", ev: 1.4254, standardError: 0.0099 }] },
+  "1010": { win: 74.62, tie: 0.74, lose: 24.64, actionEVs: [{ action: "bet4x", ev: 2.6354, standardError: 0.0167 }, { action: "bet3x", ev: 2.1357, standardError: 0.0159 }, { action: "check", ev: 1.636, standardError: 0.0152 }] },
+  "AA": { win: 84.93, tie: 0.55, lose: 14.52, actionEVs: [{ action: "bet4x", ev: 3.761, standardError: 0.0154 }, { action: "bet3x", ev: 3.0569, standardError: 0.0149 }, { action: "check", ev: 2.3528, standardError: 0.0145 }] },
+  "AKs": { win: 66.29, tie: 1.65, lose: 32.06, actionEVs: [{ action: "bet4x", ev: 1.9542, standardError: 0.0683 }, { action: "bet3x", ev: 1.6118, standardError: 0.0678 }, { action: "check", ev: 1.2147, standardError: 0.0672 }] },
+  "AKo": { win: 64.47, tie: 1.7, lose: 33.83, actionEVs: [{ action: "bet4x", ev: 1.3337, standardError: 0.0186 }, { action: "bet3x", ev: 1.0273, standardError: 0.0169 }, { action: "check", ev: 0.6604, standardError: 0.0147 }] },
+  "AQs": { win: 65.33, tie: 1.79, lose: 32.88, actionEVs: [{ action: "bet4x", ev: 1.7978, standardError: 0.0628 }, { action: "bet3x", ev: 1.4732, standardError: 0.0623 }, { action: "check", ev: 1.0995, standardError: 0.0616 }] },
+  "AQo": { win: 63.49, tie: 1.86, lose: 34.65, actionEVs: [{ action: "bet4x", ev: 1.2511, standardError: 0.0221 }, { action: "bet3x", ev: 0.9627, standardError: 0.0207 }, { action: "check", ev: 0.6192, standardError: 0.019 }] },
+  "AJs": { win: 64.42, tie: 1.96, lose: 33.62, actionEVs: [{ action: "bet4x", ev: 1.6495, standardError: 0.0568 }, { action: "bet3x", ev: 1.3415, standardError: 0.0562 }, { action: "check", ev: 0.9916, standardError: 0.0555 }] },
+  "AJo": { win: 62.57, tie: 2.03, lose: 35.39, actionEVs: [{ action: "bet4x", ev: 1.1749, standardError: 0.0251 }, { action: "bet3x", ev: 0.9031, standardError: 0.0239 }, { action: "check", ev: 0.5851, standardError: 0.0225 }] },
+  "A10s": { win: 63.42, tie: 2.25, lose: 34.33, actionEVs: [{ action: "bet4x", ev: 1.5486, standardError: 0.0556 }, { action: "bet3x", ev: 1.2577, standardError: 0.055 }, { action: "check", ev: 0.9284, standardError: 0.0543 }] },
+  "A10o": { win: 61.52, tie: 2.33, lose: 36.16, actionEVs: [{ action: "bet4x", ev: 1.0762, standardError: 0.0249 }, { action: "bet3x", ev: 0.8226, standardError: 0.0238 }, { action: "check", ev: 0.5284, standardError: 0.0224 }] },
+  "A9s": { win: 61.61, tie: 2.58, lose: 35.81, actionEVs: [{ action: "bet4x", ev: 1.1168, standardError: 0.0143 }, { action: "bet3x", ev: 0.8588, standardError: 0.012 }, { action: "check", ev: 0.5806, standardError: 0.009 }] },
+  "A9o": { win: 59.52, tie: 2.69, lose: 37.79, actionEVs: [{ action: "bet4x", ev: 0.829, standardError: 0.0135 }, { action: "bet3x", ev: 0.6118, standardError: 0.0114 }, { action: "check", ev: 0.3734, standardError: 0.0084 }] },
+  "A8s": { win: 60.59, tie: 2.91, lose: 36.51, actionEVs: [{ action: "bet4x", ev: 1.029, standardError: 0.0146 }, { action: "bet3x", ev: 0.7882, standardError: 0.0124 }, { action: "check", ev: 0.5354, standardError: 0.0094 }] },
+  "A8o": { win: 58.42, tie: 3.04, lose: 38.53, actionEVs: [{ action: "bet4x", ev: 0.7309, standardError: 0.0135 }, { action: "bet3x", ev: 0.5321, standardError: 0.0114 }, { action: "check", ev: 0.3227, standardError: 0.0085 }] },
+  "A7s": { win: 59.4, tie: 3.21, lose: 37.39, actionEVs: [{ action: "bet4x", ev: 0.918, standardError: 0.0146 }, { action: "bet3x", ev: 0.698, standardError: 0.0123 }, { action: "check", ev: 0.4764, standardError: 0.0093 }] },
+  "A7o": { win: 57.11, tie: 3.37, lose: 39.52, actionEVs: [{ action: "bet4x", ev: 0.6073, standardError: 0.0135 }, { action: "bet3x", ev: 0.4313, standardError: 0.0113 }, { action: "check", ev: 0.256, standardError: 0.0083 }] },
+  "A6s": { win: 58.21, tie: 3.45, lose: 38.34, actionEVs: [{ action: "bet4x", ev: 0.7997, standardError: 0.0148 }, { action: "bet3x", ev: 0.6011, standardError: 0.0126 }, { action: "check", ev: 0.4125, standardError: 0.0096 }] },
+  "A6o": { win: 55.9, tie: 3.63, lose: 40.47, actionEVs: [{ action: "bet4x", ev: 0.4858, standardError: 0.0136 }, { action: "bet3x", ev: 0.3316, standardError: 0.0115 }, { action: "check", ev: 0.1924, standardError: 0.0084 }] },
+  "A5s": { win: 58.02, tie: 3.72, lose: 38.26, actionEVs: [{ action: "bet4x", ev: 0.8372, standardError: 0.0164 }, { action: "bet3x", ev: 0.6397, standardError: 0.0143 }, { action: "check", ev: 0.451, standardError: 0.0116 }] },
+  "A5o": { win: 55.72, tie: 3.9, lose: 40.38, actionEVs: [{ action: "bet4x", ev: 0.4968, standardError: 0.014 }, { action: "bet3x", ev: 0.3435, standardError: 0.0118 }, { action: "check", ev: 0.204, standardError: 0.0087 }] },
+  "A4s": { win: 57.04, tie: 3.8, lose: 39.17, actionEVs: [{ action: "bet4x", ev: 0.7117, standardError: 0.0157 }, { action: "bet3x", ev: 0.533, standardError: 0.0134 }, { action: "check", ev: 0.3756, standardError: 0.0104 }] },
+  "A4o": { win: 54.62, tie: 4.01, lose: 41.38, actionEVs: [{ action: "bet4x", ev: 0.3781, standardError: 0.014 }, { action: "bet3x", ev: 0.2457, standardError: 0.0118 }, { action: "check", ev: 0.1407, standardError: 0.0087 }] },
+  "A3s": { win: 56.32, tie: 3.76, lose: 39.92, actionEVs: [{ action: "bet4x", ev: 0.6373, standardError: 0.0163 }, { action: "bet3x", ev: 0.4732, standardError: 0.0141 }, { action: "check", ev: 0.3413, standardError: 0.0111 }] },
+  "A3o": { win: 53.82, tie: 3.98, lose: 42.2, actionEVs: [{ action: "bet4x", ev: 0.2815, standardError: 0.014 }, { action: "bet3x", ev: 0.1654, standardError: 0.0118 }, { action: "check", ev: 0.0902, standardError: 0.0085 }] },
+  "A2s": { win: 55.43, tie: 3.78, lose: 40.79, actionEVs: [{ action: "bet4x", ev: 0.5341, standardError: 0.0162 }, { action: "bet3x", ev: 0.3877, standardError: 0.0139 }, { action: "check", ev: 0.2835, standardError: 0.011 }] },
+  "A2o": { win: 52.92, tie: 3.99, lose: 43.1, actionEVs: [{ action: "bet4x", ev: 0.1792, standardError: 0.0139 }, { action: "bet3x", ev: 0.081, standardError: 0.0117 }, { action: "check", ev: 0.0358, standardError: 0.0084 }] },
+  "KK": { win: 82.16, tie: 0.56, lose: 17.27, actionEVs: [{ action: "bet4x", ev: 3.474, standardError: 0.0198 }, { action: "bet3x", ev: 2.8251, standardError: 0.0193 }, { action: "check", ev: 2.1761, standardError: 0.0189 }] },
+  "KQs": { win: 62.53, tie: 1.99, lose: 35.48, actionEVs: [{ action: "bet4x", ev: 1.6137, standardError: 0.0699 }, { action: "bet3x", ev: 1.3433, standardError: 0.0693 }, { action: "check", ev: 1.077, standardError: 0.0686 }] },
+  "KQo": { win: 60.43, tie: 2.08, lose: 37.49, actionEVs: [{ action: "bet4x", ev: 0.9297, standardError: 0.0196 }, { action: "bet3x", ev: 0.7003, standardError: 0.0176 }, { action: "check", ev: 0.4782, standardError: 0.015 }] },
+  "KJs": { win: 61.66, tie: 2.15, lose: 36.2, actionEVs: [{ action: "bet4x", ev: 1.3756, standardError: 0.055 }, { action: "bet3x", ev: 1.121, standardError: 0.0542 }, { action: "check", ev: 0.876, standardError: 0.0533 }] },
+  "KJo": { win: 59.6, tie: 2.24, lose: 38.15, actionEVs: [{ action: "bet4x", ev: 0.8387, standardError: 0.0152 }, { action: "bet3x", ev: 0.6241, standardError: 0.0128 }, { action: "check", ev: 0.4243, standardError: 0.009 }] },
+  "K10s": { win: 60.61, tie: 2.44, lose: 36.95, actionEVs: [{ action: "bet4x", ev: 1.2432, standardError: 0.0522 }, { action: "bet3x", ev: 1.0065, standardError: 0.0514 }, { action: "check", ev: 0.7831, standardError: 0.0505 }] },
+  "K10o": { win: 58.53, tie: 2.51, lose: 38.96, actionEVs: [{ action: "bet4x", ev: 0.7378, standardError: 0.0152 }, { action: "bet3x", ev: 0.542, standardError: 0.0127 }, { action: "check", ev: 0.3655, standardError: 0.009 }] },
+  "K9s": { win: 58.69, tie: 2.75, lose: 38.56, actionEVs: [{ action: "bet4x", ev: 0.846, standardError: 0.0203 }, { action: "bet3x", ev: 0.6447, standardError: 0.0184 }, { action: "check", ev: 0.4762, standardError: 0.016 }] },
+  "K9o": { win: 56.5, tie: 2.84, lose: 40.66, actionEVs: [{ action: "bet4x", ev: 0.5322, standardError: 0.0191 }, { action: "bet3x", ev: 0.3738, standardError: 0.0173 }, { action: "check", ev: 0.2564, standardError: 0.015 }] },
+  "K8s": { win: 56.94, tie: 3.09, lose: 39.97, actionEVs: [{ action: "bet4x", ev: 0.6486, standardError: 0.0196 }, { action: "bet3x", ev: 0.4788, standardError: 0.0178 }, { action: "check", ev: 0.356, standardError: 0.0154 }] },
+  "K8o": { win: 54.61, tie: 3.23, lose: 42.17, actionEVs: [{ action: "bet4x", ev: 0.3334, standardError: 0.0188 }, { action: "bet3x", ev: 0.209, standardError: 0.0171 }, { action: "check", ev: 0.1442, standardError: 0.0149 }] },
+  "K7s": { win: 55.81, tie: 3.41, lose: 40.78, actionEVs: [{ action: "bet4x", ev: 0.5449, standardError: 0.0196 }, { action: "bet3x", ev: 0.3945, standardError: 0.0177 }, { action: "check", ev: 0.3001, standardError: 0.0154 }] },
+  "K7o": { win: 53.42, tie: 3.58, lose: 43.01, actionEVs: [{ action: "bet4x", ev: 0.2248, standardError: 0.0188 }, { action: "bet3x", ev: 0.1207, standardError: 0.017 }, { action: "check", ev: 0.0846, standardError: 0.0148 }] },
+  "K6s": { win: 54.84, tie: 3.69, lose: 41.47, actionEVs: [{ action: "bet4x", ev: 0.4575, standardError: 0.0198 }, { action: "bet3x", ev: 0.3238, standardError: 0.0179 }, { action: "check", ev: 0.2541, standardError: 0.0156 }] },
+  "K6o": { win: 52.37, tie: 3.87, lose: 43.76, actionEVs: [{ action: "bet4x", ev: 0.1262, standardError: 0.0188 }, { action: "bet3x", ev: 0.0401, standardError: 0.0171 }, { action: "check", ev: 0.0332, standardError: 0.0148 }] },
+  "K5s": { win: 53.81, tie: 3.92, lose: 42.28, actionEVs: [{ action: "bet4x", ev: 0.3582, standardError: 0.0199 }, { action: "bet3x", ev: 0.2429, standardError: 0.018 }, { action: "check", ev: 0.2042, standardError: 0.0156 }] },
+  "K5o": { win: 51.27, tie: 4.11, lose: 44.62, actionEVs: [{ action: "bet4x", ev: 0.022, standardError: 0.0189 }, { action: "bet3x", ev: -0.0445, standardError: 0.0172 }, { action: "check", ev: -0.018, standardError: 0.0149 }] },
+  "K4s": { win: 52.79, tie: 3.99, lose: 43.22, actionEVs: [{ action: "bet4x", ev: 0.2463, standardError: 0.0199 }, { action: "bet3x", ev: 0.1506, standardError: 0.018 }, { action: "check", ev: 0.1463, standardError: 0.0155 }] },
+  "K4o": { win: 50.18, tie: 4.2, lose: 45.62, actionEVs: [{ action: "bet4x", ev: -0.098, standardError: 0.0188 }, { action: "bet3x", ev: -0.1435, standardError: 0.0171 }, { action: "check", ev: -0.0788, standardError: 0.0148 }] },
+  "K3s": { win: 52.02, tie: 3.99, lose: 43.99, actionEVs: [{ action: "bet4x", ev: 0.1538, standardError: 0.0198 }, { action: "bet3x", ev: 0.0734, standardError: 0.0179 }, { action: "check", ev: 0.0978, standardError: 0.0154 }] },
+  "K3o": { win: 49.29, tie: 4.2, lose: 46.51, actionEVs: [{ action: "bet4x", ev: -0.2001, standardError: 0.0189 }, { action: "bet3x", ev: -0.2279, standardError: 0.0172 }, { action: "check", ev: -0.129, standardError: 0.0148 }] },
+  "K2s": { win: 51.16, tie: 3.98, lose: 44.86, actionEVs: [{ action: "bet4x", ev: 0.0567, standardError: 0.0199 }, { action: "bet3x", ev: -0.0063, standardError: 0.018 }, { action: "check", ev: 0.0471, standardError: 0.0155 }] },
+  "K2o": { win: 48.44, tie: 4.21, lose: 47.35, actionEVs: [{ action: "bet4x", ev: -0.2986, standardError: 0.0188 }, { action: "bet3x", ev: -0.3095, standardError: 0.017 }, { action: "check", ev: -0.1809, standardError: 0.0147 }] },
+  "QQ": { win: 79.58, tie: 0.61, lose: 19.81, actionEVs: [{ action: "bet4x", ev: 3.1724, standardError: 0.016 }, { action: "bet3x", ev: 2.5746, standardError: 0.0154 }, { action: "check", ev: 1.9769, standardError: 0.0148 }] },
+  "QJs": { win: 59.07, tie: 2.4, lose: 38.53, actionEVs: [{ action: "bet4x", ev: 1.1366, standardError: 0.0544 }, { action: "bet3x", ev: 0.9313, standardError: 0.0536 }, { action: "check", ev: 0.7895, standardError: 0.0525 }] },
+  "QJo": { win: 56.82, tie: 2.49, lose: 40.69, actionEVs: [{ action: "bet4x", ev: 0.5816, standardError: 0.0236 }, { action: "bet3x", ev: 0.4202, standardError: 0.0218 }, { action: "check", ev: 0.3346, standardError: 0.0193 }] },
+  "Q10s": { win: 58.04, tie: 2.63, lose: 39.33, actionEVs: [{ action: "bet4x", ev: 1.0113, standardError: 0.0517 }, { action: "bet3x", ev: 0.8242, standardError: 0.0508 }, { action: "check", ev: 0.7039, standardError: 0.0496 }] },
+  "Q10o": { win: 55.75, tie: 2.72, lose: 41.53, actionEVs: [{ action: "bet4x", ev: 0.4556, standardError: 0.0163 }, { action: "bet3x", ev: 0.3134, standardError: 0.0136 }, { action: "check", ev: 0.2525, standardError: 0.0093 }] },
+  "Q9s": { win: 56.2, tie: 2.93, lose: 40.88, actionEVs: [{ action: "bet4x", ev: 0.6259, standardError: 0.019 }, { action: "bet3x", ev: 0.4727, standardError: 0.0166 }, { action: "check", ev: 0.4032, standardError: 0.0133 }] },
+  "Q9o": { win: 53.83, tie: 3.03, lose: 43.14, actionEVs: [{ action: "bet4x", ev: 0.2526, standardError: 0.016 }, { action: "bet3x", ev: 0.1457, standardError: 0.0134 }, { action: "check", ev: 0.1393, standardError: 0.0094 }] },
+  "Q8s": { win: 54.47, tie: 3.22, lose: 42.31, actionEVs: [{ action: "bet4x", ev: 0.4069, standardError: 0.0175 }, { action: "bet3x", ev: 0.2853, standardError: 0.015 }, { action: "check", ev: 0.2633, standardError: 0.0115 }] },
+  "Q8o": { win: 51.94, tie: 3.38, lose: 44.68, actionEVs: [{ action: "bet4x", ev: 0.0507, standardError: 0.0156 }, { action: "bet3x", ev: -0.0219, standardError: 0.0131 }, { action: "check", ev: 0.0253, standardError: 0.0092 }] },
+  "Q7s": { win: 52.33, tie: 3.57, lose: 44.1, actionEVs: [{ action: "bet4x", ev: 0.1543, standardError: 0.0163 }, { action: "bet3x", ev: 0.072, standardError: 0.0137 }, { action: "check", ev: 0.1097, standardError: 0.0099 }] },
+  "Q7o": { win: 49.72, tie: 3.75, lose: 46.52, actionEVs: [{ action: "bet4x", ev: -0.1875, standardError: 0.0151 }, { action: "bet3x", ev: -0.2195, standardError: 0.0127 }, { action: "check", ev: -0.11, standardError: 0.0088 }] },
+  "Q6s": { win: 51.66, tie: 3.88, lose: 44.47, actionEVs: [{ action: "bet4x", ev: 0.1064, standardError: 0.0165 }, { action: "bet3x", ev: 0.0345, standardError: 0.014 }, { action: "check", ev: 0.086, standardError: 0.0102 }] },
+  "Q6o": { win: 48.95, tie: 4.07, lose: 46.98, actionEVs: [{ action: "bet4x", ev: -0.2508, standardError: 0.0152 }, { action: "bet3x", ev: -0.2705, standardError: 0.0127 }, { action: "check", ev: -0.1426, standardError: 0.0089 }] },
+  "Q5s": { win: 50.61, tie: 4.09, lose: 45.31, actionEVs: [{ action: "bet4x", ev: 0.0036, standardError: 0.0166 }, { action: "bet3x", ev: -0.0495, standardError: 0.014 }, { action: "check", ev: 0.0337, standardError: 0.0102 }] },
+  "Q5o": { win: 47.86, tie: 4.29, lose: 47.84, actionEVs: [{ action: "bet4x", ev: -0.355, standardError: 0.0153 }, { action: "bet3x", ev: -0.3552, standardError: 0.0129 }, { action: "check", ev: -0.1937, standardError: 0.009 }] },
+  "Q4s": { win: 49.59, tie: 4.17, lose: 46.24, actionEVs: [{ action: "bet4x", ev: -0.1086, standardError: 0.0165 }, { action: "bet3x", ev: -0.1422, standardError: 0.0139 }, { action: "check", ev: -0.0232, standardError: 0.0101 }] },
+  "Q4o": { win: 46.71, tie: 4.4, lose: 48.9, actionEVs: [{ action: "bet4x", ev: -0.4826, standardError: 0.0151 }, { action: "bet3x", ev: -0.4608, standardError: 0.0127 }, { action: "check", ev: -0.2571, standardError: 0.0088 }] },
+  "Q3s": { win: 48.86, tie: 4.17, lose: 46.98, actionEVs: [{ action: "bet4x", ev: -0.1953, standardError: 0.0164 }, { action: "bet3x", ev: -0.2141, standardError: 0.0138 }, { action: "check", ev: -0.0678, standardError: 0.0099 }] },
+  "Q3o": { win: 45.86, tie: 4.39, lose: 49.74, actionEVs: [{ action: "bet4x", ev: -0.5775, standardError: 0.0152 }, { action: "bet3x", ev: -0.5387, standardError: 0.0127 }, { action: "check", ev: -0.302, standardError: 0.0088 }] },
+  "Q2s": { win: 47.99, tie: 4.16, lose: 47.85, actionEVs: [{ action: "bet4x", ev: -0.2929, standardError: 0.0166 }, { action: "bet3x", ev: -0.2943, standardError: 0.014 }, { action: "check", ev: -0.1155, standardError: 0.01 }] },
+  "Q2o": { win: 44.93, tie: 4.4, lose: 50.67, actionEVs: [{ action: "bet4x", ev: -0.6882, standardError: 0.015 }, { action: "bet3x", ev: -0.6308, standardError: 0.0125 }, { action: "check", ev: -0.3568, standardError: 0.0085 }] },
+  "JJ": { win: 77.16, tie: 0.62, lose: 22.22, actionEVs: [{ action: "bet4x", ev: 2.9248, standardError: 0.0203 }, { action: "bet3x", ev: 2.3753, standardError: 0.0197 }, { action: "check", ev: 1.8259, standardError: 0.0192 }] },
+  "J10s": { win: 56.2, tie: 2.78, lose: 41.03, actionEVs: [{ action: "bet4x", ev: 0.8386, standardError: 0.0521 }, { action: "bet3x", ev: 0.6869, standardError: 0.0511 }, { action: "check", ev: 0.6523, standardError: 0.0498 }] },
+  "J10o": { win: 53.73, tie: 2.89, lose: 43.37, actionEVs: [{ action: "bet4x", ev: 0.2779, standardError: 0.0213 }, { action: "bet3x", ev: 0.1743, standardError: 0.019 }, { action: "check", ev: 0.2104, standardError: 0.0156 }] },
+  "J9s": { win: 54.28, tie: 3.1, lose: 42.62, actionEVs: [{ action: "bet4x", ev: 0.464, standardError: 0.0236 }, { action: "bet3x", ev: 0.3475, standardError: 0.0214 }, { action: "check", ev: 0.3653, standardError: 0.0185 }] },
+  "J9o": { win: 51.76, tie: 3.23, lose: 45.01, actionEVs: [{ action: "bet4x", ev: 0.0691, standardError: 0.021 }, { action: "bet3x", ev: 0.0016, standardError: 0.0188 }, { action: "check", ev: 0.0956, standardError: 0.0155 }] },
+  "J8s": { win: 52.36, tie: 3.41, lose: 44.23, actionEVs: [{ action: "bet4x", ev: 0.2283, standardError: 0.0225 }, { action: "bet3x", ev: 0.1471, standardError: 0.0204 }, { action: "check", ev: 0.2198, standardError: 0.0174 }] },
+  "J8o": { win: 49.69, tie: 3.56, lose: 46.75, actionEVs: [{ action: "bet4x", ev: -0.1596, standardError: 0.0205 }, { action: "bet3x", ev: -0.189, standardError: 0.0184 }, { action: "check", ev: -0.0339, standardError: 0.0152 }] },
+  "J7s": { win: 50.38, tie: 3.73, lose: 45.89, actionEVs: [{ action: "bet4x", ev: -0.0027, standardError: 0.0217 }, { action: "bet3x", ev: -0.0476, standardError: 0.0196 }, { action: "check", ev: 0.0802, standardError: 0.0166 }] },
+  "J7o": { win: 47.68, tie: 3.91, lose: 48.42, actionEVs: [{ action: "bet4x", ev: -0.3733, standardError: 0.0202 }, { action: "bet3x", ev: -0.3659, standardError: 0.0182 }, { action: "check", ev: -0.1537, standardError: 0.0151 }] },
+  "J6s": { win: 48.51, tie: 4.05, lose: 47.44, actionEVs: [{ action: "bet4x", ev: -0.2187, standardError: 0.021 }, { action: "bet3x", ev: -0.2294, standardError: 0.0188 }, { action: "check", ev: -0.0482, standardError: 0.0158 }] },
+  "J6o": { win: 45.68, tie: 4.23, lose: 50.09, actionEVs: [{ action: "bet4x", ev: -0.5876, standardError: 0.0199 }, { action: "bet3x", ev: -0.5434, standardError: 0.0179 }, { action: "check", ev: -0.2716, standardError: 0.015 }] },
+  "J5s": { win: 47.81, tie: 4.28, lose: 47.91, actionEVs: [{ action: "bet4x", ev: -0.2786, standardError: 0.021 }, { action: "bet3x", ev: -0.2776, standardError: 0.0189 }, { action: "check", ev: -0.0771, standardError: 0.0159 }] },
+  "J5o": { win: 45, tie: 4.49, lose: 50.52, actionEVs: [{ action: "bet4x", ev: -0.6424, standardError: 0.02 }, { action: "bet3x", ev: -0.5872, standardError: 0.018 }, { action: "check", ev: -0.2976, standardError: 0.0151 }] },
+  "J4s": { win: 46.68, tie: 4.36, lose: 48.96, actionEVs: [{ action: "bet4x", ev: -0.4024, standardError: 0.021 }, { action: "bet3x", ev: -0.3796, standardError: 0.0188 }, { action: "check", ev: -0.1337, standardError: 0.0158 }] },
+  "J4o": { win: 43.71, tie: 4.6, lose: 51.69, actionEVs: [{ action: "bet4x", ev: -0.7826, standardError: 0.0199 }, { action: "bet3x", ev: -0.7029, standardError: 0.0179 }, { action: "check", ev: -0.3609, standardError: 0.0149 }] },
+  "J3s": { win: 45.89, tie: 4.36, lose: 49.75, actionEVs: [{ action: "bet4x", ev: -0.4959, standardError: 0.0209 }, { action: "bet3x", ev: -0.4573, standardError: 0.0187 }, { action: "check", ev: -0.1833, standardError: 0.0156 }] },
+  "J3o": { win: 42.83, tie: 4.59, lose: 52.58, actionEVs: [{ action: "bet4x", ev: -0.8829, standardError: 0.0199 }, { action: "bet3x", ev: -0.7854, standardError: 0.0179 }, { action: "check", ev: -0.4087, standardError: 0.0149 }] },
+  "J2s": { win: 45.13, tie: 4.36, lose: 50.52, actionEVs: [{ action: "bet4x", ev: -0.5803, standardError: 0.021 }, { action: "bet3x", ev: -0.5264, standardError: 0.0188 }, { action: "check", ev: -0.2236, standardError: 0.0157 }] },
+  "J2o": { win: 41.94, tie: 4.61, lose: 53.45, actionEVs: [{ action: "bet4x", ev: -0.9864, standardError: 0.0197 }, { action: "bet3x", ev: -0.8713, standardError: 0.0177 }, { action: "check", ev: -0.4584, standardError: 0.0148 }] },
+  "109s": { win: 52.44, tie: 3.34, lose: 44.22, actionEVs: [{ action: "bet4x", ev: 0.3194, standardError: 0.0252 }, { action: "bet3x", ev: 0.2373, standardError: 0.0229 }, { action: "check", ev: 0.3414, standardError: 0.0197 }] },
+  "109o": { win: 49.81, tie: 3.46, lose: 46.73, actionEVs: [{ action: "bet4x", ev: -0.117, standardError: 0.0218 }, { action: "bet3x", ev: -0.1478, standardError: 0.0195 }, { action: "check", ev: 0.0425, standardError: 0.0158 }] },
+  "108s": { win: 50.47, tie: 3.67, lose: 45.85, actionEVs: [{ action: "bet4x", ev: 0.0882, standardError: 0.0244 }, { action: "bet3x", ev: 0.042, standardError: 0.0222 }, { action: "check", ev: 0.205, standardError: 0.0189 }] },
+  "108o": { win: 47.71, tie: 3.83, lose: 48.47, actionEVs: [{ action: "bet4x", ev: -0.3413, standardError: 0.0215 }, { action: "bet3x", ev: -0.3337, standardError: 0.0192 }, { action: "check", ev: -0.0783, standardError: 0.0156 }] },
+  "107s": { win: 48.63, tie: 3.99, lose: 47.38, actionEVs: [{ action: "bet4x", ev: -0.145, standardError: 0.0231 }, { action: "bet3x", ev: -0.1574, standardError: 0.0209 }, { action: "check", ev: 0.0575, standardError: 0.0176 }] },
+  "107o": { win: 45.81, tie: 4.17, lose: 50.02, actionEVs: [{ action: "bet4x", ev: -0.5444, standardError: 0.0211 }, { action: "bet3x", ev: -0.5022, standardError: 0.0189 }, { action: "check", ev: -0.1916, standardError: 0.0154 }] },
+  "106s": { win: 46.81, tie: 4.28, lose: 48.91, actionEVs: [{ action: "bet4x", ev: -0.3525, standardError: 0.0225 }, { action: "bet3x", ev: -0.3314, standardError: 0.0203 }, { action: "check", ev: -0.0607, standardError: 0.017 }] },
+  "106o": { win: 43.84, tie: 4.48, lose: 51.68, actionEVs: [{ action: "bet4x", ev: -0.7566, standardError: 0.0208 }, { action: "bet3x", ev: -0.6782, standardError: 0.0186 }, { action: "check", ev: -0.304, standardError: 0.0152 }] },
+  "105s": { win: 44.85, tie: 4.53, lose: 50.62, actionEVs: [{ action: "bet4x", ev: -0.5889, standardError: 0.0215 }, { action: "bet3x", ev: -0.5313, standardError: 0.0193 }, { action: "check", ev: -0.2012, standardError: 0.016 }] },
+  "105o": { win: 41.8, tie: 4.75, lose: 53.44, actionEVs: [{ action: "bet4x", ev: -0.9753, standardError: 0.0205 }, { action: "bet3x", ev: -0.8589, standardError: 0.0185 }, { action: "check", ev: -0.4209, standardError: 0.0153 }] },
+  "104s": { win: 44.01, tie: 4.62, lose: 51.37, actionEVs: [{ action: "bet4x", ev: -0.6748, standardError: 0.0216 }, { action: "bet3x", ev: -0.6012, standardError: 0.0193 }, { action: "check", ev: -0.2342, standardError: 0.016 }] },
+  "104o": { win: 40.85, tie: 4.87, lose: 54.28, actionEVs: [{ action: "bet4x", ev: -1.0756, standardError: 0.0204 }, { action: "bet3x", ev: -0.9413, standardError: 0.0184 }, { action: "check", ev: -0.4613, standardError: 0.0151 }] },
+  "103s": { win: 43.27, tie: 4.61, lose: 52.11, actionEVs: [{ action: "bet4x", ev: -0.7644, standardError: 0.0215 }, { action: "bet3x", ev: -0.676, standardError: 0.0192 }, { action: "check", ev: -0.2802, standardError: 0.0158 }] },
+  "103o": { win: 39.99, tie: 4.86, lose: 55.15, actionEVs: [{ action: "bet4x", ev: -1.1754, standardError: 0.0204 }, { action: "bet3x", ev: -1.0238, standardError: 0.0184 }, { action: "check", ev: -0.5069, standardError: 0.0151 }] },
+  "102s": { win: 42.53, tie: 4.62, lose: 52.85, actionEVs: [{ action: "bet4x", ev: -0.8465, standardError: 0.0215 }, { action: "bet3x", ev: -0.7434, standardError: 0.0193 }, { action: "check", ev: -0.3222, standardError: 0.0159 }] },
+  "102o": { win: 39.16, tie: 4.88, lose: 55.97, actionEVs: [{ action: "bet4x", ev: -1.274, standardError: 0.0202 }, { action: "bet3x", ev: -1.1059, standardError: 0.0181 }, { action: "check", ev: -0.5568, standardError: 0.0149 }] },
+  "98s": { win: 48.92, tie: 3.86, lose: 47.22, actionEVs: [{ action: "bet4x", ev: -0.0404, standardError: 0.023 }, { action: "bet3x", ev: -0.0574, standardError: 0.0204 }, { action: "check", ev: 0.1852, standardError: 0.0159 }] },
+  "98o": { win: 46, tie: 4.03, lose: 49.98, actionEVs: [{ action: "bet4x", ev: -0.5244, standardError: 0.0184 }, { action: "bet3x", ev: -0.4845, standardError: 0.0154 }, { action: "check", ev: -0.1287, standardError: 0.0098 }] },
+  "97s": { win: 47.11, tie: 4.26, lose: 48.63, actionEVs: [{ action: "bet4x", ev: -0.2634, standardError: 0.0216 }, { action: "bet3x", ev: -0.2482, standardError: 0.0189 }, { action: "check", ev: 0.0543, standardError: 0.0141 }] },
+  "97o": { win: 44.16, tie: 4.44, lose: 51.4, actionEVs: [{ action: "bet4x", ev: -0.7063, standardError: 0.0183 }, { action: "bet3x", ev: -0.634, standardError: 0.0154 }, { action: "check", ev: -0.2181, standardError: 0.01 }] },
+  "96s": { win: 45.43, tie: 4.54, lose: 50.03, actionEVs: [{ action: "bet4x", ev: -0.4667, standardError: 0.0206 }, { action: "bet3x", ev: -0.4207, standardError: 0.0178 }, { action: "check", ev: -0.0661, standardError: 0.0129 }] },
+  "96o": { win: 42.29, tie: 4.75, lose: 52.96, actionEVs: [{ action: "bet4x", ev: -0.9113, standardError: 0.0178 }, { action: "bet3x", ev: -0.8045, standardError: 0.0149 }, { action: "check", ev: -0.3289, standardError: 0.0095 }] },
+  "95s": { win: 43.24, tie: 4.77, lose: 51.98, actionEVs: [{ action: "bet4x", ev: -0.723, standardError: 0.0198 }, { action: "bet3x", ev: -0.6356, standardError: 0.017 }, { action: "check", ev: -0.2069, standardError: 0.0121 }] },
+  "95o": { win: 40.01, tie: 5.01, lose: 54.98, actionEVs: [{ action: "bet4x", ev: -1.1575, standardError: 0.0175 }, { action: "bet3x", ev: -1.0078, standardError: 0.0148 }, { action: "check", ev: -0.4557, standardError: 0.0097 }] },
+  "94s": { win: 41.29, tie: 4.88, lose: 53.83, actionEVs: [{ action: "bet4x", ev: -0.976, standardError: 0.0184 }, { action: "bet3x", ev: -0.8506, standardError: 0.0155 }, { action: "check", ev: -0.3461, standardError: 0.0101 }] },
+  "94o": { win: 37.88, tie: 5.15, lose: 56.98, actionEVs: [{ action: "bet4x", ev: -1.4035, standardError: 0.017 }, { action: "bet3x", ev: -1.2125, standardError: 0.0143 }, { action: "check", ev: -0.5769, standardError: 0.0092 }] },
+  "93s": { win: 40.78, tie: 4.9, lose: 54.32, actionEVs: [{ action: "bet4x", ev: -1.0328, standardError: 0.0184 }, { action: "bet3x", ev: -0.8974, standardError: 0.0154 }, { action: "check", ev: -0.3745, standardError: 0.0099 }] },
+  "93o": { win: 37.27, tie: 5.17, lose: 57.56, actionEVs: [{ action: "bet4x", ev: -1.4698, standardError: 0.0169 }, { action: "bet3x", ev: -1.2669, standardError: 0.0142 }, { action: "check", ev: -0.61, standardError: 0.0092 }] },
+  "92s": { win: 40.05, tie: 4.89, lose: 55.06, actionEVs: [{ action: "bet4x", ev: -1.1117, standardError: 0.0184 }, { action: "bet3x", ev: -0.9617, standardError: 0.0155 }, { action: "check", ev: -0.4097, standardError: 0.0101 }] },
+  "92o": { win: 36.43, tie: 5.16, lose: 58.42, actionEVs: [{ action: "bet4x", ev: -1.5676, standardError: 0.0167 }, { action: "bet3x", ev: -1.3477, standardError: 0.014 }, { action: "check", ev: -0.6549, standardError: 0.0089 }] },
+  "87s": { win: 45.79, tie: 4.51, lose: 49.71, actionEVs: [{ action: "bet4x", ev: -0.3672, standardError: 0.0228 }, { action: "bet3x", ev: -0.3281, standardError: 0.02 }, { action: "check", ev: 0.0705, standardError: 0.015 }] },
+  "87o": { win: 42.77, tie: 4.69, lose: 52.54, actionEVs: [{ action: "bet4x", ev: -0.8307, standardError: 0.0191 }, { action: "bet3x", ev: -0.7331, standardError: 0.0161 }, { action: "check", ev: -0.2153, standardError: 0.0103 }] },
+  "86s": { win: 44.21, tie: 4.81, lose: 50.98, actionEVs: [{ action: "bet4x", ev: -0.5521, standardError: 0.022 }, { action: "bet3x", ev: -0.4844, standardError: 0.0192 }, { action: "check", ev: -0.0365, standardError: 0.014 }] },
+  "86o": { win: 40.94, tie: 5.04, lose: 54.02, actionEVs: [{ action: "bet4x", ev: -1.0308, standardError: 0.0186 }, { action: "bet3x", ev: -0.9, standardError: 0.0156 }, { action: "check", ev: -0.3225, standardError: 0.0097 }] },
+  "85s": { win: 42.27, tie: 5.05, lose: 52.68, actionEVs: [{ action: "bet4x", ev: -0.7939, standardError: 0.0208 }, { action: "bet3x", ev: -0.6897, standardError: 0.0179 }, { action: "check", ev: -0.1791, standardError: 0.0125 }] },
+  "85o": { win: 38.9, tie: 5.29, lose: 55.8, actionEVs: [{ action: "bet4x", ev: -1.246, standardError: 0.0185 }, { action: "bet3x", ev: -1.077, standardError: 0.0156 }, { action: "check", ev: -0.4339, standardError: 0.01 }] },
+  "84s": { win: 40.19, tie: 5.17, lose: 54.64, actionEVs: [{ action: "bet4x", ev: -1.0353, standardError: 0.0204 }, { action: "bet3x", ev: -0.8907, standardError: 0.0175 }, { action: "check", ev: -0.3, standardError: 0.0121 }] },
+  "84o": { win: 36.73, tie: 5.44, lose: 57.83, actionEVs: [{ action: "bet4x", ev: -1.498, standardError: 0.0178 }, { action: "bet3x", ev: -1.2869, standardError: 0.015 }, { action: "check", ev: -0.5596, standardError: 0.0094 }] },
+  "83s": { win: 38.43, tie: 5.14, lose: 56.43, actionEVs: [{ action: "bet4x", ev: -1.2802, standardError: 0.0188 }, { action: "bet3x", ev: -1.1001, standardError: 0.0158 }, { action: "check", ev: -0.4402, standardError: 0.01 }] },
+  "83o": { win: 34.8, tie: 5.43, lose: 59.76, actionEVs: [{ action: "bet4x", ev: -1.7275, standardError: 0.0173 }, { action: "bet3x", ev: -1.4779, standardError: 0.0145 }, { action: "check", ev: -0.6759, standardError: 0.0092 }] },
+  "82s": { win: 37.86, tie: 5.16, lose: 56.98, actionEVs: [{ action: "bet4x", ev: -1.3369, standardError: 0.0188 }, { action: "bet3x", ev: -1.1457, standardError: 0.0159 }, { action: "check", ev: -0.4669, standardError: 0.0101 }] },
+  "82o": { win: 34.18, tie: 5.44, lose: 60.38, actionEVs: [{ action: "bet4x", ev: -1.7971, standardError: 0.0171 }, { action: "bet3x", ev: -1.535, standardError: 0.0143 }, { action: "check", ev: -0.7097, standardError: 0.0089 }] },
+  "76s": { win: 43.25, tie: 5.03, lose: 51.72, actionEVs: [{ action: "bet4x", ev: -0.6161, standardError: 0.0231 }, { action: "bet3x", ev: -0.5314, standardError: 0.0202 }, { action: "check", ev: -0.003, standardError: 0.0148 }] },
+  "76o": { win: 39.99, tie: 5.28, lose: 54.73, actionEVs: [{ action: "bet4x", ev: -1.103, standardError: 0.0194 }, { action: "bet3x", ev: -0.9555, standardError: 0.0163 }, { action: "check", ev: -0.295, standardError: 0.01 }] },
+  "75s": { win: 41.22, tie: 5.34, lose: 53.44, actionEVs: [{ action: "bet4x", ev: -0.8484, standardError: 0.0225 }, { action: "bet3x", ev: -0.7263, standardError: 0.0196 }, { action: "check", ev: -0.1278, standardError: 0.0141 }] },
+  "75o": { win: 37.76, tie: 5.6, lose: 56.64, actionEVs: [{ action: "bet4x", ev: -1.3471, standardError: 0.0189 }, { action: "bet3x", ev: -1.1584, standardError: 0.0158 }, { action: "check", ev: -0.4201, standardError: 0.0096 }] },
+  "74s": { win: 39.25, tie: 5.44, lose: 55.3, actionEVs: [{ action: "bet4x", ev: -1.0961, standardError: 0.0214 }, { action: "bet3x", ev: -0.9356, standardError: 0.0185 }, { action: "check", ev: -0.2652, standardError: 0.0129 }] },
+  "74o": { win: 35.7, tie: 5.73, lose: 58.57, actionEVs: [{ action: "bet4x", ev: -1.5818, standardError: 0.0185 }, { action: "bet3x", ev: -1.3531, standardError: 0.0155 }, { action: "check", ev: -0.5391, standardError: 0.0094 }] },
+  "73s": { win: 37.31, tie: 5.46, lose: 57.23, actionEVs: [{ action: "bet4x", ev: -1.3442, standardError: 0.0205 }, { action: "bet3x", ev: -1.145, standardError: 0.0175 }, { action: "check", ev: -0.3964, standardError: 0.0117 }] },
+  "73o": { win: 33.61, tie: 5.76, lose: 60.63, actionEVs: [{ action: "bet4x", ev: -1.828, standardError: 0.0179 }, { action: "bet3x", ev: -1.5577, standardError: 0.015 }, { action: "check", ev: -0.6609, standardError: 0.0091 }] },
+  "72s": { win: 35.56, tie: 5.43, lose: 59.01, actionEVs: [{ action: "bet4x", ev: -1.5806, standardError: 0.019 }, { action: "bet3x", ev: -1.3461, standardError: 0.016 }, { action: "check", ev: -0.5324, standardError: 0.0098 }] },
+  "72o": { win: 31.77, tie: 5.73, lose: 62.51, actionEVs: [{ action: "bet4x", ev: -2.05, standardError: 0.0173 }, { action: "bet3x", ev: -1.7426, standardError: 0.0145 }, { action: "check", ev: -0.7744, standardError: 0.0087 }] },
+  "65s": { win: 40.58, tie: 5.49, lose: 53.93, actionEVs: [{ action: "bet4x", ev: -0.8802, standardError: 0.0235 }, { action: "bet3x", ev: -0.7468, standardError: 0.0206 }, { action: "check", ev: -0.0975, standardError: 0.0151 }] },
+  "65o": { win: 37.13, tie: 5.77, lose: 57.1, actionEVs: [{ action: "bet4x", ev: -1.3944, standardError: 0.0194 }, { action: "bet3x", ev: -1.1948, standardError: 0.0163 }, { action: "check", ev: -0.4041, standardError: 0.0098 }] },
+  "64s": { win: 38.67, tie: 5.65, lose: 55.68, actionEVs: [{ action: "bet4x", ev: -1.1327, standardError: 0.0221 }, { action: "bet3x", ev: -0.9626, standardError: 0.0191 }, { action: "check", ev: -0.2413, standardError: 0.0132 }] },
+  "64o": { win: 35.13, tie: 5.96, lose: 58.92, actionEVs: [{ action: "bet4x", ev: -1.6162, standardError: 0.0192 }, { action: "bet3x", ev: -1.3782, standardError: 0.0161 }, { action: "check", ev: -0.5114, standardError: 0.0098 }] },
+  "63s": { win: 36.93, tie: 5.66, lose: 57.41, actionEVs: [{ action: "bet4x", ev: -1.3364, standardError: 0.0219 }, { action: "bet3x", ev: -1.1317, standardError: 0.019 }, { action: "check", ev: -0.3425, standardError: 0.0132 }] },
+  "63o": { win: 33.24, tie: 5.98, lose: 60.79, actionEVs: [{ action: "bet4x", ev: -1.8453, standardError: 0.0185 }, { action: "bet3x", ev: -1.5698, standardError: 0.0155 }, { action: "check", ev: -0.6301, standardError: 0.0092 }] },
+  "62s": { win: 34.98, tie: 5.65, lose: 59.36, actionEVs: [{ action: "bet4x", ev: -1.5979, standardError: 0.0204 }, { action: "bet3x", ev: -1.3542, standardError: 0.0174 }, { action: "check", ev: -0.4885, standardError: 0.0113 }] },
+  "62o": { win: 31.2, tie: 5.97, lose: 62.83, actionEVs: [{ action: "bet4x", ev: -2.0862, standardError: 0.0178 }, { action: "bet3x", ev: -1.7699, standardError: 0.0149 }, { action: "check", ev: -0.7491, standardError: 0.0088 }] },
+  "54s": { win: 38.7, tie: 5.78, lose: 55.52, actionEVs: [{ action: "bet4x", ev: -1.0453, standardError: 0.0245 }, { action: "bet3x", ev: -0.8771, standardError: 0.0216 }, { action: "check", ev: -0.1469, standardError: 0.0161 }] },
+  "54o": { win: 35.11, tie: 6.09, lose: 58.8, actionEVs: [{ action: "bet4x", ev: -1.6015, standardError: 0.0194 }, { action: "bet3x", ev: -1.3645, standardError: 0.0163 }, { action: "check", ev: -0.4847, standardError: 0.0095 }] },
+  "53s": { win: 36.74, tie: 5.83, lose: 57.43, actionEVs: [{ action: "bet4x", ev: -1.3078, standardError: 0.0232 }, { action: "bet3x", ev: -1.1009, standardError: 0.0202 }, { action: "check", ev: -0.2916, standardError: 0.0145 }] },
+  "53o": { win: 33.02, tie: 6.16, lose: 60.82, actionEVs: [{ action: "bet4x", ev: -1.8422, standardError: 0.0191 }, { action: "bet3x", ev: -1.5641, standardError: 0.016 }, { action: "check", ev: -0.6011, standardError: 0.0095 }] },
+  "52s": { win: 34.73, tie: 5.86, lose: 59.41, actionEVs: [{ action: "bet4x", ev: -1.5725, standardError: 0.0219 }, { action: "bet3x", ev: -1.3257, standardError: 0.0189 }, { action: "check", ev: -0.4382, standardError: 0.0131 }] },
+  "52o": { win: 30.97, tie: 6.18, lose: 62.85, actionEVs: [{ action: "bet4x", ev: -2.0843, standardError: 0.0184 }, { action: "bet3x", ev: -1.7655, standardError: 0.0155 }, { action: "check", ev: -0.7218, standardError: 0.0091 }] },
+  "43s": { win: 35.74, tie: 5.81, lose: 58.44, actionEVs: [{ action: "bet4x", ev: -1.4432, standardError: 0.0224 }, { action: "bet3x", ev: -1.2162, standardError: 0.0194 }, { action: "check", ev: -0.3597, standardError: 0.0135 }] },
+  "43o": { win: 31.93, tie: 6.13, lose: 61.94, actionEVs: [{ action: "bet4x", ev: -1.972, standardError: 0.0188 }, { action: "bet3x", ev: -1.6719, standardError: 0.0157 }, { action: "check", ev: -0.6567, standardError: 0.0091 }] },
+  "42s": { win: 33.92, tie: 5.83, lose: 60.25, actionEVs: [{ action: "bet4x", ev: -1.6637, standardError: 0.0219 }, { action: "bet3x", ev: -1.4004, standardError: 0.0189 }, { action: "check", ev: -0.4736, standardError: 0.0131 }] },
+  "42o": { win: 30.01, tie: 6.16, lose: 63.83, actionEVs: [{ action: "bet4x", ev: -2.1921, standardError: 0.0184 }, { action: "bet3x", ev: -1.854, standardError: 0.0155 }, { action: "check", ev: -0.764, standardError: 0.0092 }] },
+  "32s": { win: 33.06, tie: 5.73, lose: 61.21, actionEVs: [{ action: "bet4x", ev: -1.7688, standardError: 0.0217 }, { action: "bet3x", ev: -1.4873, standardError: 0.0187 }, { action: "check", ev: -0.5209, standardError: 0.0129 }] },
+  "32o": { win: 28.98, tie: 6.07, lose: 64.95, actionEVs: [{ action: "bet4x", ev: -2.3186, standardError: 0.018 }, { action: "bet3x", ev: -1.9589, standardError: 0.015 }, { action: "check", ev: -0.8243, standardError: 0.0087 }] },
+};
+
+/**
+ * Pre-flop tables keyed by table rules id
+ */
+export const PREFLOP_TABLES: Record<string, PreflopTable> = {
+  standard: STANDARD_TABLE,
+  tightTrips: STANDARD_TABLE,
+  noQualifier: NO_QUALIFIER_TABLE,
+};
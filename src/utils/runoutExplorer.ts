@@ -0,0 +1,99 @@
+/**
+ * Runout Explorer for Ultimate Texas Hold'em
+ *
+ * "What if" view of the cards still to come from the flop: every unseen
+ * card is tried as the next community card and the resulting spot is
+ * priced with a batch run across the worker pool. From the flop this gives the win rate
+ * after each turn card; from a flop and turn it gives the win rate and the
+ * best river action for each river card.
+ */
+
+import { encodeCard, decodeCard } from "../components/HandEvaluator";
+import {
+  getBestAction,
+  type UTHAction,
+} from "./expectedValue";
+import {
+  validateCards,
+  type SimulationOptions,
+  type SimulationResult,
+} from "./monteCarlo";
+import { runPooledBatch } from "./workerPool";
+
+/**
+ * One possible next community card and the spot it leads to
+ */
+export interface Runout {
+  card: string;
+  result: SimulationResult;
+  /** Change in win percentage from the current spot, in points */
+  winChange: number;
+  /** Best action once the card is dealt, when the player faces a decision */
+  bestAction?: UTHAction;
+}
+
+/**
+ * Options accepted by `exploreRunouts`
+ */
+export interface RunoutOptions extends Omit<SimulationOptions, 'onProgress'> {
+  /** Called each time a runout is priced */
+  onProgress?: (priced: number, total: number) => void;
+}
+
+/**
+ * Iterations per runout when a spot cannot be enumerated exactly
+ */
+const RUNOUT_ITERATIONS = 20000;
+
+/**
+ * Prices every unseen card as the next community card
+ *
+ * @param knownCards 2 hole cards followed by 3 (flop) or 4 (flop and turn) community cards
+ * @param baselineWin Win percentage of the current spot
+ * @param options Cancellation signal, progress callback, table rules and dead cards
+ * @returns One runout per unseen card, in deck order
+ */
+export async function exploreRunouts(
+  knownCards: string[],
+  baselineWin: number,
+  options: RunoutOptions = {},
+): Promise<Runout[]> {
+  if (knownCards.length !== 5 && knownCards.length !== 6) {
+    throw new Error("Runouts are explored from the flop or the turn");
+  }
+
+  const { deadCards = [], onProgress, ...batchOptions } = options;
+  validateCards(knownCards, deadCards);
+
+  const removed = [...knownCards, ...deadCards].map(encodeCard);
+  const cards = Array.from({ length: 52 }, (_, code) => code)
+    .filter((code) => !removed.includes(code))
+    .map(decodeCard);
+
+  console.log(`🔮 Exploring ${cards.length} runouts from ${knownCards.join(', ')}`);
+
+  let priced = 0;
+  const outcomes = await runPooledBatch(
+    cards.map((card) => [...knownCards, card]),
+    RUNOUT_ITERATIONS,
+    {
+      ...batchOptions,
+      deadCards,
+      onScenarioDone: () => onProgress?.(++priced, cards.length),
+    },
+  );
+
+  return outcomes.map((outcome, i) => {
+    const card = cards[i];
+    if (!outcome.ok) {
+      throw new Error(`Runout ${card} failed: ${outcome.message}`);
+    }
+    const { result } = outcome;
+    return {
+      card,
+      result,
+      winChange: result.win - baselineWin,
+      bestAction: result.actionEVs ? getBestAction(result.actionEVs).action : undefined,
+    };
+  });
+}
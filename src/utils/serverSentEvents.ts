@@ -0,0 +1,73 @@
+/**
+ * Server-Sent Events Reader
+ *
+ * `EventSource` only supports GET requests, so streamed responses to a
+ * POST are read from the fetch response body and split into events here.
+ * Aborting the fetch (its `AbortSignal`) stops the reader.
+ */
+
+/**
+ * One event of the stream
+ */
+export interface ServerSentEvent {
+  /** Event name; "message" when the server names none */
+  event: string;
+  data: string;
+}
+
+/**
+ * Splits one event block into its name and data lines
+ */
+function parseEvent(block: string): ServerSentEvent | null {
+  let event = "message";
+  const data: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    if (line.startsWith("event:")) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith("data:")) {
+      data.push(line.slice(5).replace(/^ /, ""));
+    }
+  }
+
+  return data.length > 0 ? { event, data: data.join("\n") } : null;
+}
+
+/**
+ * Reads a streamed response, calling `onEvent` for each event as it arrives
+ *
+ * @param response Fetch response with a `text/event-stream` body
+ * @param onEvent Receives each event, in order
+ * @returns Resolves when the server ends the stream
+ * @throws When the response has no body or the request is aborted
+ */
+export async function readServerSentEvents(
+  response: Response,
+  onEvent: (event: ServerSentEvent) => void,
+): Promise<void> {
+  if (!response.body) {
+    throw new Error("Response has no body to stream");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const dispatch = (block: string) => {
+    const event = parseEvent(block);
+    if (event) onEvent(event);
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = blocks.pop() ?? "";
+    blocks.forEach(dispatch);
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) dispatch(buffer);
+}
@@ -0,0 +1,160 @@
+/**
+ * Sampling Statistics for Monte Carlo Simulations
+ *
+ * Accumulates the first and second moments of independent samples so that
+ * every estimate can carry a standard error and a 95% confidence interval.
+ * Moments are plain sums, so the moments of separate shards can be merged.
+ *
+ * Each sample is one independent unit of a simulation (for example one
+ * flop with its nested runouts), not a single showdown: showdowns that
+ * share a board are correlated.
+ */
+
+/**
+ * Two-sided 95% normal quantile
+ */
+export const Z_95 = 1.96;
+
+/**
+ * A point estimate with its 95% confidence interval
+ */
+export interface ConfidenceInterval {
+  estimate: number;
+  standardError: number;
+  lower: number;
+  upper: number;
+}
+
+/**
+ * Running sums over independent samples
+ */
+export interface SampleMoments {
+  samples: number;
+  winSum: number;
+  winSumSq: number;
+  /** Sum of each action's EV, in `getActionEVs` order */
+  evSums: number[];
+  /** Sum of each pair of action EVs multiplied, row-major (n × n) */
+  evProducts: number[];
+}
+
+/**
+ * Create empty sample moments
+ */
+export function createMoments(): SampleMoments {
+  return { samples: 0, winSum: 0, winSumSq: 0, evSums: [], evProducts: [] };
+}
+
+/**
+ * Record one independent sample
+ *
+ * @param moments Moments to update
+ * @param winFraction Fraction of the sample's showdowns the player won
+ * @param evs EV of every action within the sample (empty with no decision)
+ */
+export function recordSample(
+  moments: SampleMoments,
+  winFraction: number,
+  evs: number[],
+): void {
+  const n = evs.length;
+  if (moments.evSums.length !== n) {
+    moments.evSums = new Array(n).fill(0);
+    moments.evProducts = new Array(n * n).fill(0);
+  }
+
+  moments.samples++;
+  moments.winSum += winFraction;
+  moments.winSumSq += winFraction * winFraction;
+  for (let i = 0; i < n; i++) {
+    moments.evSums[i] += evs[i];
+    for (let j = 0; j < n; j++) {
+      moments.evProducts[i * n + j] += evs[i] * evs[j];
+    }
+  }
+}
+
+/**
+ * Add the sums of one set of moments into another
+ */
+export function mergeMoments(target: SampleMoments, source: SampleMoments): void {
+  if (source.samples === 0) return;
+  if (target.samples === 0) {
+    target.evSums = new Array(source.evSums.length).fill(0);
+    target.evProducts = new Array(source.evProducts.length).fill(0);
+  }
+
+  target.samples += source.samples;
+  target.winSum += source.winSum;
+  target.winSumSq += source.winSumSq;
+  source.evSums.forEach((sum, i) => (target.evSums[i] += sum));
+  source.evProducts.forEach((sum, i) => (target.evProducts[i] += sum));
+}
+
+/**
+ * Confidence interval around an estimate with a known standard error
+ */
+export function toInterval(estimate: number, standardError: number): ConfidenceInterval {
+  return {
+    estimate,
+    standardError,
+    lower: estimate - Z_95 * standardError,
+    upper: estimate + Z_95 * standardError,
+  };
+}
+
+/**
+ * Standard error of a sample mean from its sum and sum of squares
+ */
+function standardError(sum: number, sumSq: number, samples: number): number {
+  if (samples < 2) return Infinity;
+  const mean = sum / samples;
+  const variance = Math.max(0, (sumSq - samples * mean * mean) / (samples - 1));
+  return Math.sqrt(variance / samples);
+}
+
+/**
+ * 95% confidence interval on the win percentage
+ */
+export function getWinInterval(moments: SampleMoments): ConfidenceInterval {
+  const { samples, winSum, winSumSq } = moments;
+  return toInterval(
+    (winSum / samples) * 100,
+    standardError(winSum, winSumSq, samples) * 100,
+  );
+}
+
+/**
+ * Standard error of each action's EV, in `getActionEVs` order
+ */
+export function getEVStandardErrors(moments: SampleMoments): number[] {
+  const n = moments.evSums.length;
+  return moments.evSums.map((sum, i) =>
+    standardError(sum, moments.evProducts[i * n + i], moments.samples),
+  );
+}
+
+/**
+ * 95% confidence interval on the EV difference between two actions.
+ * Both actions are measured on the same samples, so the paired
+ * difference is far tighter than the two intervals taken separately.
+ *
+ * @param moments Sample moments
+ * @param first Index of the first action
+ * @param second Index of the second action
+ * @returns Interval on EV(first) - EV(second)
+ */
+export function getDifferenceInterval(
+  moments: SampleMoments,
+  first: number,
+  second: number,
+): ConfidenceInterval {
+  const { samples, evSums, evProducts } = moments;
+  const n = evSums.length;
+  const sum = evSums[first] - evSums[second];
+  const sumSq =
+    evProducts[first * n + first] -
+    2 * evProducts[first * n + second] +
+    evProducts[second * n + second];
+  return toInterval(sum / samples, standardError(sum, sumSq, samples));
+}
@@ -0,0 +1,149 @@
+/**
+ * Table Rules for Ultimate Texas Hold'em
+ *
+ * Casinos deal the same game with different paytables and side bets. A
+ * `TableRules` object describes one rule set, and everything that depends
+ * on the rules reads it from there:
+ * - The EV engine and simulator settle the Blind and Ante with it
+ * - The hand state machine and advisors offer its Play bet sizes
+ * - The Trips panel and the AI prompt quote its paytables
+ */
+
+import { HAND_RANK, type DecisionPoint } from "./expectedValue";
+import { TRIPS_PAYTABLES, type TripsPaytable } from "./tripsBonus";
+
+/**
+ * Payouts (X to 1), keyed by hand rank
+ */
+export type Paytable = Record<number, number>;
+
+/**
+ * One rule set for the game
+ */
+export interface TableRules {
+  id: string;
+  name: string;
+  /** Blind payouts for a winning hand; winning hands not listed push */
+  blindPaytable: Paytable;
+  tripsPaytable: TripsPaytable;
+  /** Whether the Ante pushes unless the dealer has a pair or better */
+  dealerMustQualify: boolean;
+  /** Play bet sizes allowed at each decision point, largest first */
+  betSizes: Record<DecisionPoint, number[]>;
+}
+
+/**
+ * Play bet sizes the game can express (bet4x down to bet1x)
+ */
+const SUPPORTED_BET_SIZES = [4, 3, 2, 1];
+
+const STANDARD_BLIND_PAYTABLE: Paytable = {
+  [HAND_RANK.royalFlush]: 500,
+  [HAND_RANK.straightFlush]: 50,
+  [HAND_RANK.quads]: 10,
+  [HAND_RANK.fullHouse]: 3,
+  [HAND_RANK.flush]: 1.5,
+  [HAND_RANK.straight]: 1,
+};
+
+const STANDARD_BET_SIZES: Record<DecisionPoint, number[]> = {
+  preflop: [4, 3],
+  flop: [2],
+  river: [1],
+};
+
+/**
+ * Common casino rule sets; the first one is the default
+ */
+export const TABLE_RULES_PRESETS: TableRules[] = [
+  {
+    id: "standard",
+    name: "Standard",
+    blindPaytable: STANDARD_BLIND_PAYTABLE,
+    tripsPaytable: TRIPS_PAYTABLES[0],
+    dealerMustQualify: true,
+    betSizes: STANDARD_BET_SIZES,
+  },
+  {
+    id: "tightTrips",
+    name: "Tight Trips",
+    blindPaytable: STANDARD_BLIND_PAYTABLE,
+    tripsPaytable: TRIPS_PAYTABLES[TRIPS_PAYTABLES.length - 1],
+    dealerMustQualify: true,
+    betSizes: STANDARD_BET_SIZES,
+  },
+  {
+    id: "noQualifier",
+    name: "No Dealer Qualifier",
+    blindPaytable: STANDARD_BLIND_PAYTABLE,
+    tripsPaytable: TRIPS_PAYTABLES[0],
+    dealerMustQualify: false,
+    betSizes: STANDARD_BET_SIZES,
+  },
+];
+
+/**
+ * Standard rules, used wherever no rules are given
+ */
+export const DEFAULT_TABLE_RULES = TABLE_RULES_PRESETS[0];
+
+/**
+ * Validate a rule set before it is used to price a hand
+ */
+export function validateTableRules(rules: TableRules): void {
+  for (const [point, sizes] of Object.entries(rules.betSizes)) {
+    if (sizes.length === 0) {
+      throw new Error(`No Play bet allowed on the ${point}`);
+    }
+    for (const size of sizes) {
+      if (!SUPPORTED_BET_SIZES.includes(size)) {
+        throw new Error(`Unsupported ${size}x Play bet on the ${point}`);
+      }
+    }
+  }
+
+  for (const payout of Object.values(rules.blindPaytable)) {
+    if (!Number.isFinite(payout) || payout < 0) {
+      throw new Error(`Invalid Blind payout: ${payout}`);
+    }
+  }
+}
+
+/**
+ * Gets the largest Play bet allowed at a decision point
+ *
+ * @param rules Table rules
+ * @param point Decision point
+ * @returns Bet size in antes
+ */
+export function getMaxBetSize(rules: TableRules, point: DecisionPoint): number {
+  return Math.max(...rules.betSizes[point]);
+}
+
+/**
+ * Describes the rules in a few plain lines, e.g. for the AI prompt
+ *
+ * @param rules Table rules
+ * @returns One line per rule, without bullets
+ */
+export function describeTableRules(rules: TableRules): string[] {
+  const sizes = (point: DecisionPoint) =>
+    rules.betSizes[point].map((size) => `${size}x`).join(" or ");
+  const paytable = (payouts: Paytable) =>
+    Object.entries(payouts)
+      .sort(([a], [b]) => Number(b) - Number(a))
+      .map(([, payout]) => payout)
+      .join("/");
+
+  return [
+    `Pre-flop: ${sizes("preflop")} bet, or check`,
+    `Flop: ${sizes("flop")} bet, or check`,
+    `Turn & River (dealt together): ${sizes("river")} bet or fold`,
+    "Once a Play bet is made there are no further bets",
+    rules.dealerMustQualify
+      ? "Dealer must qualify with a pair or better, otherwise the Ante pushes"
+      : "Dealer always qualifies",
+    `Blind pays ${paytable(rules.blindPaytable)} to 1 on a winning straight or better (royal flush first)`,
+    `Trips pays ${paytable(rules.tripsPaytable.payouts)} to 1 on three of a kind or better (royal flush first)`,
+  ];
+}
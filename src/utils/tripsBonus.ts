@@ -0,0 +1,168 @@
+/**
+ * Trips Bonus Side Bet for Ultimate Texas Hold'em
+ *
+ * The Trips bet is placed with the Ante and pays on the player's final
+ * seven-card hand alone, whatever the dealer holds and even if the player
+ * folds:
+ * - Three of a kind or better pays from the table's paytable
+ * - Anything lower loses the bet
+ *
+ * Casinos vary the paytable, so every preset carries its own house edge,
+ * computed exactly from the seven-card hand frequencies.
+ */
+
+import { HAND_RANK } from "./expectedValue";
+
+/**
+ * Trips payouts (X to 1), keyed by hand rank
+ */
+export type TripsPayouts = Record<number, number>;
+
+/**
+ * A named Trips paytable
+ */
+export interface TripsPaytable {
+  id: string;
+  name: string;
+  payouts: TripsPayouts;
+}
+
+/**
+ * Probability and payout of one paying hand
+ */
+export interface TripsHandOdds {
+  rank: number;
+  label: string;
+  payout: number;
+  probability: number;
+}
+
+/**
+ * Hands that can pay on the Trips bet, best first
+ */
+export const TRIPS_HANDS: { rank: number; label: string }[] = [
+  { rank: HAND_RANK.royalFlush, label: "Royal Flush" },
+  { rank: HAND_RANK.straightFlush, label: "Straight Flush" },
+  { rank: HAND_RANK.quads, label: "Four of a Kind" },
+  { rank: HAND_RANK.fullHouse, label: "Full House" },
+  { rank: HAND_RANK.flush, label: "Flush" },
+  { rank: HAND_RANK.straight, label: "Straight" },
+  { rank: HAND_RANK.trips, label: "Three of a Kind" },
+];
+
+/**
+ * Common casino Trips paytables, most widespread first
+ */
+export const TRIPS_PAYTABLES: TripsPaytable[] = [
+  {
+    id: "standard",
+    name: "Standard (50-40-30-8-6-5-3)",
+    payouts: paytable(50, 40, 30, 8, 6, 5, 3),
+  },
+  {
+    id: "generous",
+    name: "Generous (50-40-30-9-7-4-3)",
+    payouts: paytable(50, 40, 30, 9, 7, 4, 3),
+  },
+  {
+    id: "reduced",
+    name: "Reduced (50-40-30-8-7-4-3)",
+    payouts: paytable(50, 40, 30, 8, 7, 4, 3),
+  },
+  {
+    id: "tight",
+    name: "Tight (50-40-20-7-6-5-3)",
+    payouts: paytable(50, 40, 20, 7, 6, 5, 3),
+  },
+];
+
+/**
+ * Id of the user-defined paytable
+ */
+export const CUSTOM_TRIPS_PAYTABLE_ID = "custom";
+
+/**
+ * Seven-card hand frequencies out of C(52, 7) = 133,784,560 hands, keyed
+ * by hand rank
+ */
+const SEVEN_CARD_COUNTS: Record<number, number> = {
+  [HAND_RANK.royalFlush]: 4324,
+  [HAND_RANK.straightFlush]: 37260,
+  [HAND_RANK.quads]: 224848,
+  [HAND_RANK.fullHouse]: 3473184,
+  [HAND_RANK.flush]: 4047644,
+  [HAND_RANK.straight]: 6180020,
+  [HAND_RANK.trips]: 6461620,
+};
+const SEVEN_CARD_HANDS = 133784560;
+
+/**
+ * Build payouts from the Royal Flush down to Three of a Kind
+ */
+function paytable(...payouts: number[]): TripsPayouts {
+  return Object.fromEntries(
+    TRIPS_HANDS.map(({ rank }, i) => [rank, payouts[i]]),
+  );
+}
+
+/**
+ * Validate the payouts of a custom paytable
+ */
+export function validateTripsPayouts(payouts: TripsPayouts): void {
+  for (const { rank, label } of TRIPS_HANDS) {
+    const payout = payouts[rank];
+    if (!Number.isFinite(payout) || payout < 0 || payout > 10000) {
+      throw new Error(`Invalid ${label} payout: must be between 0 and 10,000`);
+    }
+  }
+}
+
+/**
+ * Probability and payout of every paying hand
+ *
+ * @param handDistribution Probability of each final hand, indexed by hand rank
+ * @param payouts Trips payouts
+ * @returns Paying hands, best first
+ */
+export function getTripsOdds(
+  handDistribution: number[],
+  payouts: TripsPayouts,
+): TripsHandOdds[] {
+  return TRIPS_HANDS.map(({ rank, label }) => ({
+    rank,
+    label,
+    payout: payouts[rank] ?? 0,
+    probability: handDistribution[rank] ?? 0,
+  }));
+}
+
+/**
+ * Expected return of a Trips bet, per unit bet
+ *
+ * @param handDistribution Probability of each final hand, indexed by hand rank
+ * @param payouts Trips payouts
+ * @returns Expected profit per unit (negative when the bet loses on average)
+ */
+export function getTripsReturn(
+  handDistribution: number[],
+  payouts: TripsPayouts,
+): number {
+  const odds = getTripsOdds(handDistribution, payouts);
+  const payingProbability = odds.reduce((sum, hand) => sum + hand.probability, 0);
+  const winnings = odds.reduce((sum, hand) => sum + hand.probability * hand.payout, 0);
+  return winnings - (1 - payingProbability);
+}
+
+/**
+ * House edge of a paytable for a Trips bet placed before any card is seen
+ *
+ * @param payouts Trips payouts
+ * @returns House edge as a fraction of the bet (negative favours the player)
+ */
+export function getTripsHouseEdge(payouts: TripsPayouts): number {
+  const distribution: number[] = [];
+  for (const [rank, count] of Object.entries(SEVEN_CARD_COUNTS)) {
+    distribution[Number(rank)] = count / SEVEN_CARD_HANDS;
+  }
+  return -getTripsReturn(distribution, payouts);
+}
@@ -0,0 +1,352 @@
+import {
+  batchSimulation,
+  buildSimulationResult,
+  canEnumerate,
+  countShowdowns,
+  createTotals,
+  getBlockSizes,
+  hasConverged,
+  mergeTotals,
+  monteCarloSimulation,
+  validateCards,
+  validateIterations,
+  type BatchOptions,
+  type BatchOutcome,
+  type SimulationMethod,
+  type SimulationOptions,
+  type SimulationResult,
+  type SimulationTotals,
+} from "./monteCarlo";
+import { deriveSeed, randomSeed } from "./random";
+import {
+  DEFAULT_TABLE_RULES,
+  validateTableRules,
+  type TableRules,
+} from "./tableRules";
+
+/**
+ * Web Worker Pool for Simulations
+ *
+ * Splits a simulation into jobs and runs them on a pool of workers:
+ * - Monte Carlo runs are split into seeded blocks handed out to whichever
+ *   worker is free; blocks are merged in order, so the result for a seed
+ *   does not depend on the number of workers or on timing
+ * - Exact enumerations give each worker an interleaved slice of the board
+ *   completions and stream running totals as they go
+ *
+ * Partial results are passed on for the UI. In adaptive mode the merged
+ * result is checked for convergence after every block and the remaining
+ * jobs are dropped once it holds. Aborting the signal cancels every job in
+ * its worker, so stale simulations stop using CPU straight away.
+ */
+
+/**
+ * Messages sent to a simulation worker
+ */
+export type WorkerRequest =
+  | {
+      type: "run";
+      jobId: number;
+      knownCards: string[];
+      method: SimulationMethod;
+      /** Showdowns to sample (Monte Carlo only) */
+      iterations: number;
+      /** Seed of the block (Monte Carlo only) */
+      seed: number;
+      /** Board completion shard (exact enumeration only) */
+      shard: number;
+      shardCount: number;
+      rules: TableRules;
+      /** Cards removed from the deck */
+      deadCards: string[];
+    }
+  | { type: "cancel"; jobId: number };
+
+/**
+ * Messages sent back by a simulation worker
+ */
+export type WorkerResponse =
+  | { type: "progress" | "done"; jobId: number; totals: SimulationTotals }
+  | { type: "error"; jobId: number; message: string };
+
+// Upper bound on pool size, whatever the core count
+const MAX_WORKERS = 8;
+
+let pool: Worker[] = [];
+let nextJobId = 1;
+
+/**
+ * Gets the worker pool, creating it on first use. One core is left free
+ * for the UI thread.
+ */
+function getPool(): Worker[] {
+  if (pool.length === 0) {
+    const cores = navigator.hardwareConcurrency || 2;
+    const size = Math.max(1, Math.min(MAX_WORKERS, cores - 1));
+    pool = Array.from(
+      { length: size },
+      () =>
+        new Worker(new URL("../workers/simulation.worker.ts", import.meta.url), {
+          type: "module",
+        }),
+    );
+    console.log(`🧵 Started ${size} simulation workers`);
+  }
+  return pool;
+}
+
+/**
+ * A job for one worker; the pool assigns the job id
+ */
+type WorkerJob = Omit<Extract<WorkerRequest, { type: "run" }>, "type" | "jobId">;
+
+/**
+ * Run jobs on the pool, one per worker at a time, in order.
+ *
+ * @param jobs Jobs to run
+ * @param signal Cancels every job still running
+ * @param onProgress Called with a job's running totals
+ * @param onDone Called with a job's final totals; returning true drops
+ *   the jobs that are still running or queued
+ */
+function runJobs(
+  jobs: WorkerJob[],
+  signal: AbortSignal | undefined,
+  onProgress: (index: number, totals: SimulationTotals) => void,
+  onDone: (index: number, totals: SimulationTotals) => boolean,
+): Promise<void> {
+  const workers = getPool();
+  const jobIds = jobs.map(() => nextJobId++);
+  const running = new Map<number, { worker: Worker; index: number }>();
+  let next = 0;
+  let finished = 0;
+
+  return new Promise<void>((resolve, reject) => {
+    const stop = () => {
+      running.forEach(({ worker }, jobId) =>
+        worker.postMessage({ type: "cancel", jobId } satisfies WorkerRequest),
+      );
+      running.clear();
+      workers.forEach((worker) => {
+        worker.removeEventListener("message", onMessage);
+        worker.removeEventListener("error", onWorkerError);
+      });
+      signal?.removeEventListener("abort", onAbort);
+    };
+
+    const fail = (error: unknown) => {
+      stop();
+      reject(error);
+    };
+
+    const onAbort = () => fail(signal?.reason);
+
+    const onWorkerError = (event: ErrorEvent) =>
+      fail(new Error(event.message || "Simulation worker failed"));
+
+    const dispatch = (worker: Worker) => {
+      if (next >= jobs.length) return;
+      const index = next++;
+      const jobId = jobIds[index];
+      running.set(jobId, { worker, index });
+      worker.postMessage({
+        type: "run",
+        jobId,
+        ...jobs[index],
+      } satisfies WorkerRequest);
+    };
+
+    const onMessage = (event: MessageEvent<WorkerResponse>) => {
+      const response = event.data;
+      const job = running.get(response.jobId);
+      if (!job) return;
+
+      if (response.type === "error") {
+        fail(new Error(response.message));
+        return;
+      }
+
+      try {
+        if (response.type === "progress") {
+          onProgress(job.index, response.totals);
+          return;
+        }
+
+        running.delete(response.jobId);
+        finished++;
+        if (onDone(job.index, response.totals) || finished === jobs.length) {
+          stop();
+          resolve();
+        } else {
+          dispatch(job.worker);
+        }
+      } catch (error) {
+        fail(error);
+      }
+    };
+
+    signal?.addEventListener("abort", onAbort);
+    workers.forEach((worker) => {
+      worker.addEventListener("message", onMessage);
+      worker.addEventListener("error", onWorkerError);
+      dispatch(worker);
+    });
+  });
+}
+
+/**
+ * Run a simulation across the worker pool
+ *
+ * Takes the same inputs as `monteCarloSimulation`, which it falls back to
+ * when Web Workers are unavailable, and gives the same result for the same
+ * seed. Flop and river spots are enumerated exactly, so `iterations` only
+ * applies to pre-flop.
+ *
+ * @param knownCards Array of known cards (hole + community)
+ * @param iterations Number of simulation iterations
+ * @param options Cancellation signal, progress callback, adaptive stopping, seed and table rules
+ * @returns Promise<SimulationResult> Win/tie/lose percentages and action EVs
+ */
+export async function runPooledSimulation(
+  knownCards: string[],
+  iterations: number,
+  options: SimulationOptions = {},
+): Promise<SimulationResult> {
+  const {
+    signal,
+    onProgress,
+    adaptive,
+    rules = DEFAULT_TABLE_RULES,
+    deadCards = [],
+  } = options;
+
+  validateCards(knownCards, deadCards);
+  validateIterations(iterations);
+  validateTableRules(rules);
+  signal?.throwIfAborted();
+
+  if (typeof Worker === "undefined") {
+    console.warn("⚠️ Web Workers unavailable - simulating on the main thread");
+    return monteCarloSimulation(knownCards, iterations, options);
+  }
+
+  if (canEnumerate(knownCards, deadCards)) {
+    const shardCount = getPool().length;
+    console.log(
+      `🧵 Enumerating ${countShowdowns(knownCards, deadCards).toLocaleString()} outcomes across ${shardCount} workers`,
+    );
+
+    const shardTotals: SimulationTotals[] = [];
+    const mergeShards = (): SimulationTotals => {
+      const totals = createTotals();
+      shardTotals.forEach((shard) => mergeTotals(totals, shard));
+      return totals;
+    };
+    const record = (shard: number, totals: SimulationTotals) => {
+      shardTotals[shard] = totals;
+      return false;
+    };
+
+    await runJobs(
+      Array.from({ length: shardCount }, (_, shard) => ({
+        knownCards,
+        method: "exact",
+        iterations: 0,
+        seed: 0,
+        shard,
+        shardCount,
+        rules,
+        deadCards,
+      })),
+      signal,
+      (shard, totals) => {
+        record(shard, totals);
+        onProgress?.(buildSimulationResult(knownCards, mergeShards(), "exact", rules));
+      },
+      record,
+    );
+
+    const result = buildSimulationResult(knownCards, mergeShards(), "exact", rules);
+    console.log(`✅ Pooled enumeration complete:`, result);
+    return result;
+  }
+
+  const seed = options.seed ?? randomSeed();
+  const blocks = getBlockSizes(iterations);
+  console.log(
+    `🧵 Sampling ${iterations} iterations in ${blocks.length} blocks across ${getPool().length} workers (seed ${seed})`,
+  );
+
+  // Blocks can finish out of order; only the finished prefix is merged
+  const blockTotals: SimulationTotals[] = [];
+  const totals = createTotals();
+  let merged = 0;
+  let converged = false;
+
+  await runJobs(
+    blocks.map((size, block) => ({
+      knownCards,
+      method: "monteCarlo",
+      iterations: size,
+      seed: deriveSeed(seed, block),
+      shard: block,
+      shardCount: blocks.length,
+      rules,
+      deadCards,
+    })),
+    signal,
+    () => {},
+    (block, blockResult) => {
+      blockTotals[block] = blockResult;
+      let partial: SimulationResult | null = null;
+
+      while (blockTotals[merged] && merged < blocks.length) {
+        mergeTotals(totals, blockTotals[merged]);
+        merged++;
+        if (merged === blocks.length) return false;
+
+        partial = buildSimulationResult(knownCards, totals, "monteCarlo", rules);
+        if (adaptive && hasConverged(partial)) {
+          converged = true;
+          return true;
+        }
+      }
+
+      if (partial) onProgress?.(partial);
+      return false;
+    },
+  );
+
+  const result = buildSimulationResult(knownCards, totals, "monteCarlo", rules);
+  result.seed = seed;
+  if (adaptive) {
+    result.converged = converged || hasConverged(result);
+  }
+  console.log(`✅ Pooled simulation complete:`, result);
+  return result;
+}
+
+/**
+ * Run a batch of scenarios across the worker pool
+ *
+ * Same as `batchSimulation`, with each scenario run by
+ * `runPooledSimulation` and as many scenarios in flight as there are
+ * workers.
+ *
+ * @param scenarios Array of card scenarios to simulate
+ * @param iterations Iterations per scenario
+ * @param options Cancellation signal, per-scenario progress, seed and table rules
+ * @returns Promise<BatchOutcome[]> One outcome per scenario, in order
+ */
+export function runPooledBatch(
+  scenarios: string[][],
+  iterations: number,
+  options: BatchOptions = {},
+): Promise<BatchOutcome[]> {
+  const concurrency = typeof Worker === "undefined" ? undefined : getPool().length;
+  return batchSimulation(scenarios, iterations, {
+    concurrency,
+    ...options,
+    simulate: runPooledSimulation,
+  });
+}
@@ -0,0 +1,79 @@
+/**
+ * Simulation Web Worker
+ *
+ * Runs one shard of a simulation off the main thread and streams its
+ * running totals back to the pool. Jobs can be cancelled at any yield
+ * point with a `cancel` message.
+ */
+
+import {
+  enumerateOutcomes,
+  sampleOutcomes,
+  type SimulationTotals,
+} from "../utils/monteCarlo";
+import { createRandom } from "../utils/random";
+import type { WorkerRequest, WorkerResponse } from "../utils/workerPool";
+
+// Minimum milliseconds between progress messages
+const PROGRESS_INTERVAL_MS = 100;
+
+const jobs = new Map<number, AbortController>();
+
+function post(response: WorkerResponse): void {
+  self.postMessage(response);
+}
+
+async function runJob(request: Extract<WorkerRequest, { type: "run" }>) {
+  const { jobId, knownCards, method, rules, deadCards } = request;
+  const controller = new AbortController();
+  jobs.set(jobId, controller);
+
+  let lastProgress = Date.now();
+  const onTotals = (totals: SimulationTotals) => {
+    if (Date.now() - lastProgress < PROGRESS_INTERVAL_MS) return;
+    lastProgress = Date.now();
+    post({ type: "progress", jobId, totals });
+  };
+
+  try {
+    const totals =
+      method === "exact"
+        ? await enumerateOutcomes(knownCards, {
+            signal: controller.signal,
+            shard: request.shard,
+            shardCount: request.shardCount,
+            rules,
+            deadCards,
+            onTotals,
+          })
+        : await sampleOutcomes(knownCards, request.iterations, {
+            signal: controller.signal,
+            random: createRandom(request.seed),
+            rules,
+            deadCards,
+            onTotals,
+          });
+    post({ type: "done", jobId, totals });
+  } catch (error) {
+    // Cancelled jobs have nobody waiting for them
+    if (!controller.signal.aborted) {
+      post({
+        type: "error",
+        jobId,
+        message: error instanceof Error ? error.message : "Unknown simulation error",
+      });
+    }
+  } finally {
+    jobs.delete(jobId);
+  }
+}
+
+self.addEventListener("message", (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === "run") {
+    runJob(request);
+  } else {
+    jobs.get(request.jobId)?.abort();
+  }
+});